@@ -0,0 +1,275 @@
+import { describe, expect, it, mock } from "bun:test";
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				all: () =>
+					Promise.resolve([
+						{ handle: "linen-shirt", title: "Linen Shirt", variants: [] },
+					]),
+				find: (handle: string) =>
+					Promise.resolve(
+						handle === "missing"
+							? null
+							: { handle, title: handle, tags: [], variants: [] },
+					),
+				classifyPrompts: () => Promise.resolve({ system: "", user: "" }),
+			};
+		},
+	};
+});
+
+import type { ApiKeyDetails, IssuedApiKey } from "../src/shop/auth";
+import type { Job } from "../src/shop/jobs";
+import { createMockProvider } from "../src/shop/providers";
+import { betterShop } from "../src/shop-service";
+
+const adminKey = "admin-secret";
+
+describe("API key auth", () => {
+	const router = betterShop({
+		auth: { adminKey },
+		llm: { provider: createMockProvider() },
+	});
+
+	const request = async (
+		method: string,
+		path: string,
+		options?: {
+			key?: string;
+			domain?: string;
+			body?: unknown;
+			header?: "authorization" | "x-api-key";
+		},
+	) => {
+		const headers = new Headers({ "content-type": "application/json" });
+		if (options?.key) {
+			if (options.header === "x-api-key") {
+				headers.set("x-api-key", options.key);
+			} else {
+				headers.set("authorization", `Bearer ${options.key}`);
+			}
+		}
+		headers.set("x-shop-domain", options?.domain ?? "one.myshopify.com");
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				method,
+				headers,
+				body:
+					options?.body === undefined
+						? undefined
+						: JSON.stringify(options.body),
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as unknown };
+	};
+
+	const issue = async (body: unknown) => {
+		const { status, body: issued } = await request("POST", "/auth/keys", {
+			key: adminKey,
+			body,
+		});
+		expect(status).toBe(200);
+		return issued as IssuedApiKey;
+	};
+
+	it("rejects requests without a valid key", async () => {
+		expect(await request("GET", "/products/all")).toMatchObject({
+			status: 401,
+			body: { code: "API_KEY_MISSING" },
+		});
+		expect(
+			await request("GET", "/products/all", { key: "bsk_nope" }),
+		).toMatchObject({ status: 401, body: { code: "API_KEY_INVALID" } });
+		expect(
+			(await request("GET", "/products/all", { key: adminKey })).status,
+		).toBe(200);
+		expect((await request("GET", "/api/reference/openapi.json")).status).toBe(
+			200,
+		);
+	});
+
+	it("enforces scopes and domain allowlists", async () => {
+		const { key, domains } = await issue({
+			name: "storefront",
+			scopes: ["read"],
+			domains: ["https://One.myshopify.com/"],
+		});
+		expect(domains).toEqual(["one.myshopify.com"]);
+		expect(
+			(await request("GET", "/products/all", { key, header: "x-api-key" }))
+				.status,
+		).toBe(200);
+		expect(
+			await request("POST", "/products/linen-shirt/seo", { key, body: {} }),
+		).toMatchObject({
+			status: 403,
+			body: { code: "API_KEY_FORBIDDEN", details: { scope: "llm" } },
+		});
+		expect(
+			await request("GET", "/products/all", {
+				key,
+				domain: "two.myshopify.com",
+			}),
+		).toMatchObject({
+			status: 403,
+			body: { details: { domain: "two.myshopify.com" } },
+		});
+		expect(
+			await request("POST", "/multi/info", {
+				key,
+				body: { domains: ["one.myshopify.com", "two.myshopify.com"] },
+			}),
+		).toMatchObject({ status: 403, body: { code: "API_KEY_FORBIDDEN" } });
+		expect((await request("GET", "/auth/keys", { key })).status).toBe(403);
+		expect(await request("POST", "/snapshots", { key })).toMatchObject({
+			status: 403,
+			body: { details: { scope: "write" } },
+		});
+	});
+
+	it("scopes cache clearing and jobs by what they change", async () => {
+		const { key: reader } = await issue({ scopes: ["read"] });
+		expect(
+			await request("POST", "/info/clear-cache", { key: reader }),
+		).toMatchObject({ status: 403, body: { details: { scope: "write" } } });
+
+		const { key: writer } = await issue({ scopes: ["write"] });
+		expect(
+			(
+				await request("POST", "/jobs", {
+					key: writer,
+					body: { type: "catalog.crawl" },
+				})
+			).status,
+		).toBe(200);
+		expect(
+			await request("POST", "/jobs/schedules", {
+				key: writer,
+				body: { type: "products.enrich", cron: "0 * * * *" },
+			}),
+		).toMatchObject({ status: 403, body: { details: { scope: "llm" } } });
+	});
+
+	it("counts usage against daily quotas", async () => {
+		const { id, key } = await issue({
+			scopes: ["read", "llm"],
+			quotas: { requestsPerDay: 3, llmCallsPerDay: 2 },
+		});
+		expect((await request("GET", "/enrichments", { key })).status).toBe(200);
+		// Each product sent to the LLM is a call; the third is over the quota.
+		const res = await router.handler(
+			new Request("http://localhost/products/seo", {
+				method: "POST",
+				headers: {
+					authorization: `Bearer ${key}`,
+					"content-type": "application/json",
+					"x-shop-domain": "one.myshopify.com",
+				},
+				body: JSON.stringify({ handles: ["a", "b", "c"], concurrency: 1 }),
+			}),
+		);
+		const lines = (await res.text())
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		expect(lines.at(-1)).toEqual({
+			type: "summary",
+			total: 3,
+			succeeded: 2,
+			failed: 1,
+		});
+		expect(lines[2]).toMatchObject({
+			type: "error",
+			handle: "c",
+			error: { code: "API_KEY_QUOTA_EXCEEDED" },
+		});
+		expect(
+			await request("POST", "/products/c/seo", { key, body: {} }),
+		).toMatchObject({
+			status: 429,
+			body: {
+				code: "API_KEY_QUOTA_EXCEEDED",
+				details: { quota: "llmCallsPerDay", limit: 2 },
+			},
+		});
+		expect((await request("GET", "/products/all", { key })).status).toBe(200);
+		expect(await request("GET", "/products/all", { key })).toMatchObject({
+			status: 429,
+			body: { details: { quota: "requestsPerDay", limit: 3 } },
+		});
+
+		const { body } = await request("GET", `/auth/keys/${id}`, {
+			key: adminKey,
+		});
+		expect((body as ApiKeyDetails).usage).toMatchObject({
+			requests: 3,
+			llmCalls: 2,
+		});
+	});
+
+	it("charges the LLM calls of jobs to the key that enqueued them", async () => {
+		const { id, key } = await issue({
+			scopes: ["read", "llm"],
+			quotas: { llmCallsPerDay: 1 },
+		});
+		const { body: queued } = await request("POST", "/jobs", {
+			key,
+			domain: "jobs.myshopify.com",
+			body: { type: "products.classify" },
+		});
+		let job = queued as Job;
+		while (job.status === "queued" || job.status === "running") {
+			await Bun.sleep(5);
+			job = (
+				await request("GET", `/jobs/${job.id}`, {
+					key,
+					domain: "jobs.myshopify.com",
+				})
+			).body as Job;
+		}
+		expect(job).toMatchObject({ status: "succeeded", apiKeyId: id });
+		const { body } = await request("GET", `/auth/keys/${id}`, {
+			key: adminKey,
+		});
+		expect((body as ApiKeyDetails).usage.llmCalls).toBe(1);
+	});
+
+	it("lists and revokes keys", async () => {
+		const { id, key } = await issue({ scopes: ["checkout"] });
+		const { body } = await request("GET", "/auth/keys", { key: adminKey });
+		const listed = (body as IssuedApiKey[]).find((other) => other.id === id);
+		expect(listed).toMatchObject({ id, scopes: ["checkout"] });
+		expect(listed).not.toHaveProperty("key");
+		expect(JSON.stringify(body)).not.toContain(key);
+
+		expect(
+			await request("DELETE", `/auth/keys/${id}`, { key: adminKey }),
+		).toEqual({ status: 200, body: { success: true } });
+		expect(
+			(
+				await request("POST", "/cart/validate", {
+					key,
+					body: { items: [{ productVariantId: "1", quantity: 1 }] },
+				})
+			).status,
+		).toBe(401);
+		expect(
+			(await request("DELETE", `/auth/keys/${id}`, { key: adminKey })).status,
+		).toBe(404);
+	});
+
+	it("leaves the router open without auth", async () => {
+		const res = await betterShop().handler(
+			new Request("http://localhost/products/all", {
+				headers: { "x-shop-domain": "one.myshopify.com" },
+			}),
+		);
+		expect(res.status).toBe(200);
+		expect(
+			(await betterShop().handler(new Request("http://localhost/auth/keys")))
+				.status,
+		).toBe(404);
+	});
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it, mock } from "bun:test";
+
+let inFlight = 0;
+let maxInFlight = 0;
+
+const collections: Record<string, string[]> = {
+	summer: ["linen-shirt", "straw-hat", "broken", "missing"],
+};
+
+const llmCall = async <T>(handle: string, value: () => T) => {
+	inFlight++;
+	maxInFlight = Math.max(maxInFlight, inFlight);
+	await new Promise((resolve) => setTimeout(resolve, 5));
+	inFlight--;
+	if (handle === "broken") throw new Error("LLM request failed: 502");
+	return handle === "missing" ? null : value();
+};
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				find: (handle: string) =>
+					Promise.resolve(handle === "missing" ? null : { title: handle }),
+				enriched: (handle: string, options: { outputFormat?: string }) =>
+					llmCall(handle, () => ({
+						handle,
+						enriched_content: `${options.outputFormat}:${handle}`,
+					})),
+				classify: (handle: string) =>
+					llmCall(handle, () => ({ audience: "adult_unisex", handle })),
+				generateSEOContent: (handle: string) =>
+					llmCall(handle, () => ({ metaTitle: handle })),
+			};
+			collections = {
+				products: {
+					all: (handle: string) =>
+						Promise.resolve(
+							collections[handle]?.map((product) => ({ handle: product })) ??
+								null,
+						),
+				},
+			};
+		},
+	};
+});
+
+import type { BulkLine } from "../src/shop/bulk";
+import { betterShop } from "../src/shop-service";
+
+describe("Bulk LLM endpoints", () => {
+	const router = betterShop();
+
+	const call = (path: string, body: unknown) =>
+		router.handler(
+			new Request(`http://localhost${path}`, {
+				method: "POST",
+				headers: {
+					"x-shop-domain": "bulk.myshopify.com",
+					"content-type": "application/json",
+				},
+				body: JSON.stringify(body),
+			}),
+		);
+
+	const readLines = async (res: Response) =>
+		(await res.text())
+			.split("\n")
+			.filter(Boolean)
+			.map((line) => JSON.parse(line) as BulkLine);
+
+	it("streams results, failures and a summary for a collection", async () => {
+		maxInFlight = 0;
+		const res = await call("/collections/summer/enrich", {
+			outputFormat: "json",
+			concurrency: 2,
+		});
+		expect(res.status).toBe(200);
+		expect(res.headers.get("content-type")).toBe("application/x-ndjson");
+
+		const lines = await readLines(res);
+		expect(maxInFlight).toBe(2);
+		expect(lines.at(-1)).toEqual({
+			type: "summary",
+			total: 4,
+			succeeded: 2,
+			failed: 2,
+		});
+		const byHandle = Object.fromEntries(
+			lines.flatMap((line) => ("handle" in line ? [[line.handle, line]] : [])),
+		);
+		expect(byHandle["linen-shirt"]).toEqual({
+			type: "result",
+			handle: "linen-shirt",
+			data: { handle: "linen-shirt", enriched_content: "json:linen-shirt" },
+		});
+		expect(byHandle.broken).toMatchObject({
+			type: "error",
+			error: { status: 502, code: "LLM_REQUEST_FAILED" },
+		});
+		expect(byHandle.missing).toMatchObject({
+			type: "error",
+			error: { status: 404, code: "PRODUCT_NOT_FOUND" },
+		});
+	});
+
+	it("runs over a list of handles without repeating duplicates", async () => {
+		const res = await call("/products/classify", {
+			handles: ["straw-hat", "linen-shirt", "straw-hat"],
+		});
+		const lines = await readLines(res);
+		expect(lines).toHaveLength(3);
+		expect(
+			lines.flatMap((line) => (line.type === "result" ? [line.handle] : [])),
+		).toEqual(["straw-hat", "linen-shirt"]);
+		expect(lines.at(-1)).toMatchObject({ type: "summary", succeeded: 2 });
+	});
+
+	it("rejects unknown collections before streaming", async () => {
+		const res = await call("/collections/winter/seo", {});
+		expect(res.status).toBe(404);
+		expect(((await res.json()) as { code: string }).code).toBe(
+			"COLLECTION_NOT_FOUND",
+		);
+	});
+
+	it("validates the handle list", async () => {
+		const res = await call("/products/seo", { handles: [] });
+		expect(res.status).toBe(400);
+	});
+});
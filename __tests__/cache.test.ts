@@ -0,0 +1,248 @@
+import { afterAll, describe, expect, it, mock } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+let upstreamCalls = 0;
+let failUpstream = false;
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			getInfo() {
+				upstreamCalls++;
+				return Promise.resolve({ name: `Store ${upstreamCalls}` });
+			}
+			clearInfoCache() {}
+			products = {
+				find: (handle: string) =>
+					Promise.resolve({ id: handle, handle, title: handle }),
+				all: (opts?: { currency?: string }) => {
+					upstreamCalls++;
+					if (failUpstream) return Promise.reject(new Error("upstream down"));
+					return Promise.resolve([
+						{ id: "1", title: "Product 1", currency: opts?.currency },
+					]);
+				},
+			};
+			collections = {
+				products: {
+					// shop-client resolves to `null` when the store errors.
+					all: () => {
+						upstreamCalls++;
+						return Promise.resolve(
+							failUpstream ? null : [{ id: "1", title: "Product 1" }],
+						);
+					},
+					slugs: () => {
+						upstreamCalls++;
+						return Promise.resolve(["p1-slug"]);
+					},
+				},
+			};
+		},
+	};
+});
+
+import { makeResponseCache } from "../src/shop/cache";
+import { makeGetShop } from "../src/shop/getShop";
+import { buildProductEndpoints } from "../src/shop/products";
+import { createFileStore, createMemoryStore } from "../src/shop/storage";
+import { betterShop } from "../src/shop-service";
+
+describe("Key-value stores", () => {
+	it("evicts least recently used entries from the memory store", async () => {
+		const store = createMemoryStore({ maxEntries: 2 });
+		await store.set("a", 1);
+		await store.set("b", 2);
+		await store.get("a");
+		await store.set("c", 3);
+		expect(await store.get<number>("a")).toBe(1);
+		expect(await store.get("b")).toBeUndefined();
+		expect(await store.get<number>("c")).toBe(3);
+	});
+
+	it("expires entries after their ttl", async () => {
+		const store = createMemoryStore();
+		await store.set("a", 1, 5);
+		expect(await store.ttl("a")).toBeGreaterThan(0);
+		await Bun.sleep(15);
+		expect(await store.get("a")).toBeUndefined();
+		expect(await store.ttl("a")).toBeUndefined();
+	});
+
+	const dirs: string[] = [];
+	afterAll(async () => {
+		for (const dir of dirs) await rm(dir, { recursive: true, force: true });
+	});
+
+	it("persists entries in the file store", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "better-shop-"));
+		dirs.push(dir);
+		const store = createFileStore({ dir });
+		await store.set("shop|/products/all", { ok: true }, 60_000);
+		expect(
+			await createFileStore({ dir }).get<{ ok: boolean }>("shop|/products/all"),
+		).toEqual({
+			ok: true,
+		});
+		await store.delete("shop|/products/all");
+		expect(await store.get("shop|/products/all")).toBeUndefined();
+	});
+});
+
+describe("Response cache", () => {
+	const router = betterShop({ cache: { store: createMemoryStore() } });
+
+	const call = (path: string, headers: Record<string, string> = {}) =>
+		router.handler(
+			new Request(`http://localhost${path}`, {
+				headers: { "x-shop-domain": "cache.myshopify.com", ...headers },
+			}),
+		);
+
+	it("serves repeated reads from the cache", async () => {
+		upstreamCalls = 0;
+		const first = await call("/products/all?currency=USD");
+		const second = await call("/products/all?currency=USD");
+		expect(first.headers.get("x-better-shop-cache")).toBe("MISS");
+		expect(second.headers.get("x-better-shop-cache")).toBe("HIT");
+		expect(second.headers.get("cache-control")).toContain("max-age=");
+		expect(await second.json()).toEqual(await first.json());
+		expect(upstreamCalls).toBe(1);
+	});
+
+	it("keys entries by currency", async () => {
+		upstreamCalls = 0;
+		const res = await call("/products/all?currency=EUR");
+		expect(((await res.json()) as { currency: string }[])[0]?.currency).toBe(
+			"EUR",
+		);
+		expect(upstreamCalls).toBe(1);
+	});
+
+	it("answers a matching If-None-Match with 304", async () => {
+		const first = await call("/collections/shirts/slugs");
+		const etag = first.headers.get("etag");
+		expect(etag).toBeTruthy();
+		const second = await call("/collections/shirts/slugs", {
+			"if-none-match": etag ?? "",
+		});
+		expect(second.status).toBe(304);
+		expect(second.headers.get("etag")).toBe(etag);
+	});
+
+	it("drops the cached info when the info cache is cleared", async () => {
+		upstreamCalls = 0;
+		await call("/info");
+		expect((await call("/info")).headers.get("x-better-shop-cache")).toBe(
+			"HIT",
+		);
+		const cleared = await router.handler(
+			new Request("http://localhost/info/clear-cache", {
+				method: "POST",
+				headers: { "x-shop-domain": "cache.myshopify.com" },
+			}),
+		);
+		expect(cleared.status).toBe(200);
+		const res = await call("/info");
+		expect(res.headers.get("x-better-shop-cache")).toBe("MISS");
+		expect(upstreamCalls).toBe(2);
+	});
+
+	it("keys entries by path params when called outside the router", async () => {
+		const { getProduct } = buildProductEndpoints(makeGetShop(), {
+			cache: makeResponseCache({ store: createMemoryStore() }),
+		});
+		const headers = new Headers({ "x-shop-domain": "cache.myshopify.com" });
+		const one = await getProduct({
+			params: { handle: "one" },
+			query: {},
+			headers,
+		});
+		const two = await getProduct({
+			params: { handle: "two" },
+			query: {},
+			headers,
+		});
+		expect(one.handle).toBe("one");
+		expect(two.handle).toBe("two");
+	});
+});
+
+describe("Stale-while-revalidate", () => {
+	const router = betterShop({
+		cache: {
+			store: createMemoryStore(),
+			ttl: 20,
+			staleWhileRevalidate: 60_000,
+			staleIfError: 60_000,
+		},
+	});
+
+	const call = (path: string) =>
+		router.handler(
+			new Request(`http://localhost${path}`, {
+				headers: { "x-shop-domain": "swr.myshopify.com" },
+			}),
+		);
+
+	it("serves stale catalogs and refreshes them in the background", async () => {
+		upstreamCalls = 0;
+		const first = await call("/products/all");
+		expect(first.headers.get("x-better-shop-stale")).toBe("false");
+		expect(first.headers.get("cache-control")).toContain(
+			"stale-while-revalidate=60",
+		);
+		await Bun.sleep(30);
+		const stale = await call("/products/all");
+		expect(stale.status).toBe(200);
+		expect(stale.headers.get("x-better-shop-stale")).toBe("true");
+		expect(stale.headers.get("age")).toBe("0");
+		await Bun.sleep(5);
+		expect(upstreamCalls).toBe(2);
+		const refreshed = await call("/products/all");
+		expect(refreshed.headers.get("x-better-shop-stale")).toBe("false");
+	});
+
+	it("serves stale catalogs while the upstream store errors", async () => {
+		await call("/products/all?currency=GBP");
+		await Bun.sleep(30);
+		failUpstream = true;
+		try {
+			// The background refresh fails, the stale response is kept.
+			await call("/products/all?currency=GBP");
+			await Bun.sleep(5);
+			const res = await call("/products/all?currency=GBP");
+			expect(res.status).toBe(200);
+			expect(res.headers.get("x-better-shop-stale")).toBe("true");
+		} finally {
+			failUpstream = false;
+		}
+	});
+
+	it("keeps collection catalogs when the store answers with null", async () => {
+		await call("/collections/shirts/products/all");
+		await Bun.sleep(30);
+		failUpstream = true;
+		try {
+			await call("/collections/shirts/products/all");
+			await Bun.sleep(5);
+			const res = await call("/collections/shirts/products/all");
+			expect(res.status).toBe(200);
+			expect(res.headers.get("x-better-shop-stale")).toBe("true");
+			expect(await res.json()).toEqual([{ id: "1", title: "Product 1" }]);
+		} finally {
+			failUpstream = false;
+		}
+	});
+
+	it("does not serve stale data for endpoints that did not opt in", async () => {
+		upstreamCalls = 0;
+		await call("/collections/shirts/slugs");
+		await Bun.sleep(30);
+		const res = await call("/collections/shirts/slugs");
+		expect(res.headers.get("x-better-shop-cache")).toBe("MISS");
+		expect(upstreamCalls).toBe(2);
+	});
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it, mock } from "bun:test";
+
+const currencies: (string | undefined)[] = [];
+
+const variant = (
+	id: string,
+	title: string,
+	price: number,
+	available = true,
+) => ({
+	id,
+	platformId: id,
+	title,
+	price,
+	available,
+});
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				all: (options: { currency?: string }) => {
+					currencies.push(options.currency);
+					return Promise.resolve([
+						{
+							handle: "linen-shirt",
+							title: "Linen Shirt",
+							currency: "USD",
+							variants: [
+								variant("101", "S", 40),
+								variant("102", "M", 42, false),
+							],
+						},
+						{
+							handle: "straw-hat",
+							title: "Straw Hat",
+							currency: "USD",
+							variants: [variant("201", "One size", 15.5)],
+						},
+					]);
+				},
+			};
+		},
+	};
+});
+
+import type { CartValidation } from "../src/shop/cart";
+import { betterShop } from "../src/shop-service";
+
+describe("Cart validation", () => {
+	const router = betterShop({ maxCartQuantity: 10 });
+
+	const post = async (path: string, body: unknown) => {
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				method: "POST",
+				headers: {
+					"x-shop-domain": "cart.myshopify.com",
+					"content-type": "application/json",
+				},
+				body: JSON.stringify(body),
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as unknown };
+	};
+
+	const address = {
+		firstName: "Ada",
+		lastName: "Lovelace",
+		address1: "1 Main St",
+		city: "London",
+		zip: "N1",
+		country: "GB",
+		province: "London",
+		phone: "0123",
+	};
+
+	it("resolves variants, clamps quantities and prices the lines", async () => {
+		const { status, body } = await post("/cart/validate", {
+			currency: "EUR",
+			items: [
+				{ productVariantId: "101", quantity: 2 },
+				{ productVariantId: "201", quantity: "40" },
+				{ productVariantId: "102", quantity: 1 },
+				{ productVariantId: "999", quantity: 1 },
+			],
+		});
+		expect(status).toBe(200);
+		const cart = body as CartValidation;
+		expect(currencies.at(-1)).toBe("EUR");
+		expect(cart.valid).toBe(false);
+		expect(cart.currency).toBe("EUR");
+		expect(cart.lines).toEqual([
+			{
+				productVariantId: "101",
+				productHandle: "linen-shirt",
+				productTitle: "Linen Shirt",
+				variantTitle: "S",
+				quantity: 2,
+				unitPrice: 40,
+				linePrice: 80,
+			},
+			{
+				productVariantId: "201",
+				productHandle: "straw-hat",
+				productTitle: "Straw Hat",
+				variantTitle: "One size",
+				quantity: 10,
+				unitPrice: 15.5,
+				linePrice: 155,
+			},
+		]);
+		expect(cart.subtotal).toBe(235);
+		expect(cart.issues.map((issue) => issue.code)).toEqual([
+			"QUANTITY_CLAMPED",
+			"VARIANT_UNAVAILABLE",
+			"VARIANT_NOT_FOUND",
+		]);
+		expect(cart.issues[0]).toMatchObject({ requested: 40, quantity: 10 });
+	});
+
+	it("rejects carts with unknown or unavailable variants at checkout", async () => {
+		const { status, body } = await post("/checkout/url", {
+			email: "ada@example.com",
+			items: [{ productVariantId: "102", quantity: 1 }],
+			address,
+		});
+		expect(status).toBe(400);
+		expect(body).toMatchObject({
+			code: "CART_INVALID",
+			details: { issues: [{ code: "VARIANT_UNAVAILABLE" }] },
+		});
+	});
+
+	it("creates the checkout with the validated quantities", async () => {
+		const { status, body } = await post("/checkout/url", {
+			email: "ada@example.com",
+			items: [{ productVariantId: "101", quantity: 0 }],
+			address,
+		});
+		expect(status).toBe(200);
+		expect(body).toMatchObject({
+			url: "https://cart.myshopify.com/cart/101:1?checkout%5Bemail%5D=ada%40example.com&checkout%5Bshipping_address%5D%5Bfirst_name%5D=Ada&checkout%5Bshipping_address%5D%5Blast_name%5D=Lovelace&checkout%5Bshipping_address%5D%5Baddress1%5D=1+Main+St&checkout%5Bshipping_address%5D%5Bcity%5D=London&checkout%5Bshipping_address%5D%5Bzip%5D=N1&checkout%5Bshipping_address%5D%5Bcountry%5D=GB&checkout%5Bshipping_address%5D%5Bprovince%5D=London&checkout%5Bshipping_address%5D%5Bphone%5D=0123",
+			cart: { valid: true, currency: "USD", subtotal: 40 },
+		});
+	});
+});
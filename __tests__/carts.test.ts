@@ -0,0 +1,181 @@
+import { describe, expect, it, mock } from "bun:test";
+
+const small = {
+	id: "101",
+	platformId: "101",
+	title: "S",
+	price: 40,
+	available: true,
+};
+const medium = {
+	id: "102",
+	platformId: "102",
+	title: "M",
+	price: 42,
+	available: true,
+};
+const catalog = {
+	handle: "linen-shirt",
+	title: "Linen Shirt",
+	currency: "USD",
+	variants: [small, medium],
+};
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				all: () => Promise.resolve([structuredClone(catalog)]),
+			};
+		},
+	};
+});
+
+import type { Cart } from "../src/shop/carts";
+import { createMemoryStore } from "../src/shop/storage";
+import { betterShop } from "../src/shop-service";
+
+const requestFor =
+	(router: ReturnType<typeof betterShop>, domain = "carts.myshopify.com") =>
+	async (method: string, path: string, body?: unknown) => {
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				method,
+				headers: {
+					"x-shop-domain": domain,
+					"content-type": "application/json",
+				},
+				body: body === undefined ? undefined : JSON.stringify(body),
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as unknown };
+	};
+
+describe("Server-side carts", () => {
+	const store = createMemoryStore();
+	const request = requestFor(betterShop({ carts: { store } }));
+
+	const createCart = async (body: unknown) => {
+		const { status, body: cart } = await request("POST", "/carts", body);
+		expect(status).toBe(200);
+		return cart as Cart;
+	};
+
+	it("creates a priced cart and reads it back", async () => {
+		const cart = await createCart({
+			items: [{ productVariantId: "101", quantity: 2 }],
+			note: "Gift",
+		});
+		expect(cart).toMatchObject({
+			items: [{ productVariantId: "101", quantity: 2 }],
+			note: "Gift",
+			valid: true,
+			currency: "USD",
+			subtotal: 80,
+			issues: [],
+		});
+		expect(Date.parse(cart.expiresAt)).toBeGreaterThan(Date.now());
+
+		const { status, body } = await request("GET", `/carts/${cart.id}`);
+		expect(status).toBe(200);
+		expect(body).toEqual(cart);
+	});
+
+	it("adds, updates and removes lines", async () => {
+		const { id } = await createCart({
+			items: [{ productVariantId: "101", quantity: 1 }],
+		});
+		const { body } = await request("PATCH", `/carts/${id}/lines`, {
+			lines: [
+				{ productVariantId: "gid://shopify/ProductVariant/101", quantity: 3 },
+				{ productVariantId: "102", quantity: 1 },
+			],
+		});
+		expect((body as Cart).subtotal).toBe(3 * 40 + 42);
+
+		const { body: removed } = await request("PATCH", `/carts/${id}/lines`, {
+			lines: [{ productVariantId: "101", quantity: 0 }],
+		});
+		expect((removed as Cart).items).toEqual([
+			{ productVariantId: "102", quantity: 1 },
+		]);
+	});
+
+	it("re-prices stored carts against the current catalog", async () => {
+		const { id } = await createCart({
+			items: [
+				{ productVariantId: "101", quantity: 1 },
+				{ productVariantId: "102", quantity: 1 },
+			],
+		});
+		small.price = 35;
+		medium.available = false;
+		try {
+			// A fresh router has a cold catalog index but shares the cart store.
+			const { body } = await requestFor(betterShop({ carts: { store } }))(
+				"GET",
+				`/carts/${id}`,
+			);
+			expect(body).toMatchObject({
+				valid: false,
+				subtotal: 35,
+				issues: [{ code: "VARIANT_UNAVAILABLE", productVariantId: "102" }],
+			});
+		} finally {
+			small.price = 40;
+			medium.available = true;
+		}
+	});
+
+	it("checks out to the same URL as /checkout/url", async () => {
+		const { id } = await createCart({
+			items: [{ productVariantId: "101", quantity: 2 }],
+			note: "Gift",
+		});
+		const { status, body } = await request("POST", `/carts/${id}/checkout`, {
+			email: "ada@example.com",
+		});
+		expect(status).toBe(200);
+		const direct = await request("POST", "/checkout/url", {
+			items: [{ productVariantId: "101", quantity: 2 }],
+			email: "ada@example.com",
+			note: "Gift",
+		});
+		expect(body).toEqual(direct.body);
+
+		const empty = await createCart({});
+		expect(
+			await request("POST", `/carts/${empty.id}/checkout`, {}),
+		).toMatchObject({ status: 400, body: { code: "CART_INVALID" } });
+	});
+
+	it("hides deleted and foreign carts", async () => {
+		const { id } = await createCart({
+			items: [{ productVariantId: "101", quantity: 1 }],
+		});
+		const other = requestFor(
+			betterShop({ carts: { store } }),
+			"other.myshopify.com",
+		);
+		expect(await other("GET", `/carts/${id}`)).toMatchObject({
+			status: 404,
+			body: { code: "CART_NOT_FOUND" },
+		});
+		expect(await request("DELETE", `/carts/${id}`)).toEqual({
+			status: 200,
+			body: { success: true },
+		});
+		expect((await request("GET", `/carts/${id}`)).status).toBe(404);
+	});
+
+	it("expires carts after the TTL", async () => {
+		const short = requestFor(betterShop({ carts: { ttl: 20 } }));
+		const { body } = await short("POST", "/carts", {
+			items: [{ productVariantId: "101", quantity: 1 }],
+		});
+		await Bun.sleep(40);
+		expect((await short("GET", `/carts/${(body as Cart).id}`)).status).toBe(
+			404,
+		);
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it, mock } from "bun:test";
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				all: () =>
+					Promise.resolve([
+						{
+							handle: "linen-shirt",
+							title: "Linen Shirt",
+							variants: [
+								{
+									id: "101",
+									platformId: "101",
+									title: "S",
+									price: 40,
+									available: true,
+								},
+								{
+									id: "102",
+									platformId: "102",
+									title: "M",
+									price: 40,
+									available: true,
+								},
+							],
+						},
+					]),
+			};
+		},
+	};
+});
+
+import { buildCheckoutUrl } from "../src/shop/checkout";
+import { betterShop } from "../src/shop-service";
+
+const paramsOf = (url: string) =>
+	Object.fromEntries(new URL(url).searchParams.entries());
+
+describe("Checkout URLs", () => {
+	const router = betterShop();
+
+	const checkout = async (body: unknown) => {
+		const res = await router.handler(
+			new Request("http://localhost/checkout/url", {
+				method: "POST",
+				headers: {
+					"x-shop-domain": "https://Looks.myshopify.com",
+					"content-type": "application/json",
+				},
+				body: JSON.stringify(body),
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as { url: string } };
+	};
+
+	it("creates plain cart permalinks without customer data", async () => {
+		const { status, body } = await checkout({
+			items: [
+				{ productVariantId: "gid://shopify/ProductVariant/101", quantity: 2 },
+				{ productVariantId: "102", quantity: 1 },
+			],
+		});
+		expect(status).toBe(200);
+		expect(body.url).toBe("https://looks.myshopify.com/cart/101:2,102:1");
+	});
+
+	it("adds discounts, note, attributes, ref and UTM parameters", async () => {
+		const { body } = await checkout({
+			mode: "cart",
+			items: [{ productVariantId: "101", quantity: 1 }],
+			address: { country: "DE" },
+			discount: ["SUMMER", "VIP"],
+			note: "Gift wrap",
+			attributes: { look: "beach-day" },
+			ref: "lookbook",
+			utm: { source: "instagram", campaign: "summer-looks" },
+		});
+		expect(body.url.split("?")[0]).toBe(
+			"https://looks.myshopify.com/cart/101:1",
+		);
+		expect(paramsOf(body.url)).toEqual({
+			storefront: "true",
+			"checkout[shipping_address][country]": "DE",
+			discount: "SUMMER,VIP",
+			note: "Gift wrap",
+			"attributes[look]": "beach-day",
+			ref: "lookbook",
+			utm_source: "instagram",
+			utm_campaign: "summer-looks",
+		});
+	});
+
+	it("encodes line item properties", () => {
+		const properties = { engraving: "A&B" };
+		const url = buildCheckoutUrl("looks.myshopify.com", [
+			{ productVariantId: "101", quantity: 1, properties },
+			{ productVariantId: "102", quantity: 1, properties },
+		]);
+		const encoded = paramsOf(url).properties ?? "";
+		expect(JSON.parse(Buffer.from(encoded, "base64").toString())).toEqual(
+			properties,
+		);
+
+		expect(() =>
+			buildCheckoutUrl("looks.myshopify.com", [
+				{ productVariantId: "101", quantity: 1, properties },
+				{ productVariantId: "102", quantity: 1 },
+			]),
+		).toThrow();
+	});
+});
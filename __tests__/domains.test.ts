@@ -0,0 +1,356 @@
+import { describe, expect, it, mock } from "bun:test";
+
+let infoCalls = 0;
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			getInfo() {
+				infoCalls++;
+				return Promise.resolve({ name: "Brand" });
+			}
+		},
+	};
+});
+
+import { isPrivateAddress, makeDomainPolicy } from "../src/shop/domains";
+import { betterShop } from "../src/shop-service";
+
+const errorOf = async (fn: () => unknown) => {
+	try {
+		await fn();
+	} catch (error) {
+		return error;
+	}
+	throw new Error("Expected an error");
+};
+
+const storefront = (
+	routes: Record<string, () => Response>,
+	requested: string[] = [],
+) =>
+	(async (input: string | URL | Request) => {
+		const url = String(input);
+		requested.push(url);
+		return routes[url]?.() ?? new Response("Not found", { status: 404 });
+	}) as typeof fetch;
+
+const products = () => Response.json({ products: [] });
+
+describe("Domain policy", () => {
+	it("accepts hostnames and refuses everything else", () => {
+		const policy = makeDomainPolicy();
+		expect(policy.check("https://Brand.COM/")).toBe("brand.com");
+		expect(policy.check("shop.brand.co.uk.")).toBe("shop.brand.co.uk");
+		for (const input of [
+			"127.0.0.1",
+			"[::1]",
+			"localhost",
+			"brand.com:8080",
+			"brand.com/admin",
+			"user@brand.com",
+			"ftp://brand.com",
+			"",
+		]) {
+			expect(() => policy.check(input)).toThrow(
+				"x-shop-domain is not a valid store domain",
+			);
+		}
+		expect(() => policy.check("api.internal")).toThrow(
+			"The store domain is not allowed",
+		);
+	});
+
+	it("applies the allow and deny lists", async () => {
+		const policy = makeDomainPolicy({
+			allow: ["brand.com", "*.myshopify.com"],
+			deny: ["blocked.myshopify.com"],
+		});
+		expect(policy.check("brand.com")).toBe("brand.com");
+		expect(policy.check("a.myshopify.com")).toBe("a.myshopify.com");
+		expect(await errorOf(() => policy.check("www.brand.com"))).toMatchObject({
+			body: {
+				code: "SHOP_DOMAIN_FORBIDDEN",
+				details: { reason: "not-allowed" },
+			},
+		});
+		expect(
+			await errorOf(() => policy.check("blocked.myshopify.com")),
+		).toMatchObject({ body: { details: { reason: "denied" } } });
+	});
+
+	it("recognizes addresses that are not public", () => {
+		for (const address of [
+			"127.0.0.1",
+			"10.1.2.3",
+			"172.20.0.1",
+			"192.168.1.1",
+			"169.254.169.254",
+			"100.64.0.1",
+			"0.0.0.0",
+			"::1",
+			"fd00::1",
+			"fe80::1",
+			"::ffff:127.0.0.1",
+			"::ffff:7f00:1",
+			"2002:7f00:1::",
+			"2002:a9fe:a9fe::1",
+		]) {
+			expect(isPrivateAddress(address)).toBe(true);
+		}
+		expect(isPrivateAddress("23.227.38.65")).toBe(false);
+		expect(isPrivateAddress("2620:127:f00f:5::")).toBe(false);
+	});
+
+	it("refuses domains that resolve to private addresses", async () => {
+		const policy = makeDomainPolicy({
+			lookup: async () => ["23.227.38.65", "10.0.0.5"],
+			fetch: storefront({}),
+		});
+		expect(
+			await errorOf(() => policy.verify("rebind.brand.com")),
+		).toMatchObject({
+			body: {
+				code: "SHOP_DOMAIN_FORBIDDEN",
+				details: { reason: "private-address" },
+			},
+		});
+	});
+
+	it("verifies the storefront once and remembers the verdict", async () => {
+		const requested: string[] = [];
+		const policy = makeDomainPolicy({
+			lookup: async () => ["23.227.38.65"],
+			fetch: storefront(
+				{
+					"https://brand.com/meta.json": () =>
+						Response.redirect("https://www.brand.com/meta.json", 301),
+					"https://www.brand.com/meta.json": () =>
+						Response.json({ myshopify_domain: "brand.myshopify.com" }),
+					"https://brand.myshopify.com/meta.json": () =>
+						Response.json({
+							myshopify_domain: "brand.myshopify.com",
+							domain: "www.brand.com",
+						}),
+					"https://blog.com/": () =>
+						new Response("<html></html>", {
+							headers: { "content-type": "text/html" },
+						}),
+				},
+				requested,
+			),
+		});
+		await policy.verify("brand.com");
+		await policy.verify("brand.com");
+		expect(requested).toEqual([
+			"https://brand.com/meta.json",
+			"https://www.brand.com/meta.json",
+			"https://brand.myshopify.com/meta.json",
+		]);
+		expect(await errorOf(() => policy.verify("blog.com"))).toMatchObject({
+			body: { code: "SHOP_NOT_SHOPIFY" },
+		});
+	});
+
+	it("does not take a look-alike's word for being a Shopify store", async () => {
+		const policy = makeDomainPolicy({
+			lookup: async () => ["198.41.0.4"],
+			fetch: storefront({
+				"https://copycat.com/meta.json": () =>
+					Response.json(
+						{ myshopify_domain: "brand.myshopify.com", domain: "copycat.com" },
+						{ headers: { "x-shopid": "1", "powered-by": "Shopify" } },
+					),
+				"https://copycat.com/products.json?limit=1": products,
+				"https://brand.myshopify.com/meta.json": () =>
+					Response.json({ domain: "www.brand.com" }),
+			}),
+		});
+		expect(await errorOf(() => policy.verify("copycat.com"))).toMatchObject({
+			body: { code: "SHOP_NOT_SHOPIFY" },
+		});
+	});
+
+	it("sends the requests of gated clients through its checks", async () => {
+		const policy = makeDomainPolicy({
+			fetch: storefront({
+				"https://brand.myshopify.com/products.json": () =>
+					Response.redirect("http://169.254.169.254/latest/meta-data", 302),
+			}),
+		});
+		const client = policy.gate(
+			{
+				getInfo: async () =>
+					await fetch("https://brand.myshopify.com/products.json"),
+			},
+			"brand.myshopify.com",
+		);
+		expect(await errorOf(() => client.getInfo())).toMatchObject({
+			body: { details: { reason: "redirect" } },
+		});
+	});
+
+	it("does not follow redirects to internal hosts", async () => {
+		const policy = makeDomainPolicy({
+			lookup: async (hostname) =>
+				hostname === "internal-admin.brand.com"
+					? ["192.168.0.10"]
+					: ["23.227.38.65"],
+			fetch: storefront({
+				"https://brand.com/": () =>
+					Response.redirect("http://169.254.169.254/latest/meta-data", 302),
+				"https://shop.com/": () =>
+					Response.redirect("https://internal-admin.brand.com/", 302),
+			}),
+		});
+		expect(
+			await errorOf(() => policy.fetch("https://brand.com/")),
+		).toMatchObject({ body: { details: { reason: "redirect" } } });
+		expect(
+			await errorOf(() => policy.fetch("https://shop.com/")),
+		).toMatchObject({ body: { details: { reason: "private-address" } } });
+	});
+
+	it("never sends a request body to a redirect target", async () => {
+		const sent: { url: string; method?: string; body?: unknown }[] = [];
+		const policy = makeDomainPolicy({
+			lookup: async () => ["23.227.38.65"],
+			fetch: (async (input: URL, init?: RequestInit) => {
+				sent.push({
+					url: String(input),
+					method: init?.method,
+					body: init?.body,
+				});
+				if (input.pathname === "/see-other") {
+					return Response.redirect("https://brand.com/done", 303);
+				}
+				if (input.pathname === "/temporary") {
+					return Response.redirect("https://brand.com/done", 307);
+				}
+				return new Response("done");
+			}) as typeof fetch,
+		});
+		await policy.fetch("https://brand.com/see-other", {
+			method: "POST",
+			body: "{}",
+			headers: { "content-type": "application/json" },
+		});
+		expect(sent[1]).toEqual({
+			url: "https://brand.com/done",
+			method: "GET",
+			body: undefined,
+		});
+		expect(
+			await errorOf(() =>
+				policy.fetch("https://brand.com/temporary", {
+					method: "POST",
+					body: "{}",
+				}),
+			),
+		).toMatchObject({ body: { details: { reason: "redirect" } } });
+		expect(sent).toHaveLength(3);
+	});
+
+	it("sends the method and body of requests made by gated clients", async () => {
+		const sent: { method?: string; body?: string }[] = [];
+		const policy = makeDomainPolicy({
+			fetch: (async (_input: URL, init?: RequestInit) => {
+				sent.push({
+					method: init?.method,
+					body: await new Response(init?.body).text(),
+				});
+				return new Response("ok");
+			}) as typeof fetch,
+		});
+		const client = policy.gate(
+			{
+				getInfo: async () =>
+					await fetch(
+						new Request("https://brand.myshopify.com/cart/add.js", {
+							method: "POST",
+							body: "id=1",
+						}),
+					),
+			},
+			"brand.myshopify.com",
+		);
+		await client.getInfo();
+		expect(sent).toEqual([{ method: "POST", body: "id=1" }]);
+	});
+});
+
+describe("Shop domains in requests", () => {
+	const requested: string[] = [];
+	const router = betterShop({
+		shopDomains: {
+			deny: ["*.evil.com"],
+			lookup: async (hostname) =>
+				hostname === "intranet.brand.com" ? ["10.0.0.5"] : ["23.227.38.65"],
+			fetch: storefront(
+				{
+					"https://brand.com/meta.json": () =>
+						Response.json({
+							myshopify_domain: "brand.myshopify.com",
+							domain: "brand.com",
+						}),
+					"https://brand.myshopify.com/meta.json": () =>
+						Response.json({
+							myshopify_domain: "brand.myshopify.com",
+							domain: "brand.com",
+						}),
+				},
+				requested,
+			),
+		},
+	});
+
+	const info = async (domain: string) => {
+		const res = await router.handler(
+			new Request("http://localhost/info", {
+				headers: { "x-shop-domain": domain },
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as unknown };
+	};
+
+	it("answers with typed errors before calling the store", async () => {
+		infoCalls = 0;
+		expect(await info("169.254.169.254")).toMatchObject({
+			status: 400,
+			body: { code: "SHOP_DOMAIN_INVALID" },
+		});
+		expect(await info("shop.evil.com")).toMatchObject({
+			status: 403,
+			body: { code: "SHOP_DOMAIN_FORBIDDEN", details: { reason: "denied" } },
+		});
+		expect(await info("intranet.brand.com")).toMatchObject({
+			status: 403,
+			body: { details: { reason: "private-address" } },
+		});
+		expect(await info("other.com")).toMatchObject({
+			status: 422,
+			body: { code: "SHOP_NOT_SHOPIFY" },
+		});
+		expect(infoCalls).toBe(0);
+
+		expect(await info("brand.com")).toMatchObject({ status: 200 });
+		expect(await info("brand.myshopify.com")).toMatchObject({ status: 200 });
+		expect(infoCalls).toBe(2);
+		expect(requested).toEqual([
+			"https://other.com/meta.json",
+			"https://other.com/",
+			"https://brand.com/meta.json",
+			"https://brand.myshopify.com/meta.json",
+			"https://brand.com/meta.json",
+		]);
+	});
+
+	it("validates the domain before detecting the country", async () => {
+		const res = await router.handler(
+			new Request("http://localhost/utils/detect-country", {
+				headers: { "x-shop-domain": "localhost" },
+			}),
+		);
+		expect(res.status).toBe(400);
+	});
+});
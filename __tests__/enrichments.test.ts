@@ -0,0 +1,196 @@
+import { describe, expect, it, mock } from "bun:test";
+
+const product = {
+	platformId: "p1",
+	handle: "linen-shirt",
+	title: "Linen Shirt",
+	bodyHtml: "<p>Breathable linen.</p>",
+	vendor: "Acme",
+	price: 40,
+	tags: ["summer"],
+	variants: [{ platformId: "v1", title: "M", price: 40, available: true }],
+};
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				find: (handle: string) =>
+					Promise.resolve(handle === product.handle ? product : null),
+				enrichedPrompts: (handle: string) =>
+					Promise.resolve({ system: "Enrich.", user: handle }),
+				classifyPrompts: (handle: string) =>
+					Promise.resolve({ system: "Classify.", user: handle }),
+			};
+		},
+	};
+});
+
+import {
+	type EnrichmentSummary,
+	makeEnrichmentStore,
+} from "../src/shop/enrichments";
+import { createMockProvider, type MockProvider } from "../src/shop/providers";
+import { createMemoryStore } from "../src/shop/storage";
+import { betterShop } from "../src/shop-service";
+
+describe("Stored LLM results", () => {
+	const provider = createMockProvider();
+	const router = betterShop({ llm: { provider } });
+
+	const call = (method: string, path: string, body?: unknown) =>
+		router.handler(
+			new Request(`http://localhost${path}`, {
+				method,
+				headers: {
+					"x-shop-domain": "enrich.myshopify.com",
+					"content-type": "application/json",
+				},
+				body: body === undefined ? undefined : JSON.stringify(body),
+			}),
+		);
+
+	it("reuses the result while the product is unchanged", async () => {
+		provider.calls.length = 0;
+		const first = await call("POST", "/products/linen-shirt/seo", {});
+		const second = await call("POST", "/products/linen-shirt/seo", {});
+		expect(first.headers.get("x-better-shop-enrichment")).toBe("MISS");
+		expect(second.headers.get("x-better-shop-enrichment")).toBe("HIT");
+		expect(await second.json()).toEqual(await first.json());
+
+		// Another model or output format is stored separately.
+		await call("POST", "/products/linen-shirt/seo", { model: "other/model" });
+		await call("POST", "/products/linen-shirt/enriched", {
+			outputFormat: "json",
+		});
+		const markdown = await call("POST", "/products/linen-shirt/enriched", {
+			outputFormat: "markdown",
+		});
+		expect(markdown.headers.get("x-better-shop-enrichment")).toBe("MISS");
+		expect(provider.calls.map((request) => request.task)).toEqual([
+			"seo",
+			"seo",
+			"enrich",
+			"enrich",
+		]);
+	});
+
+	it("runs the LLM again after a product change or with force", async () => {
+		await call("POST", "/products/linen-shirt/classify", {});
+		provider.calls.length = 0;
+
+		const forced = await call("POST", "/products/linen-shirt/classify", {
+			force: true,
+		});
+		expect(forced.headers.get("x-better-shop-enrichment")).toBe("MISS");
+
+		product.title = "Linen Shirt, Relaxed Fit";
+		const changed = await call("POST", "/products/linen-shirt/classify", {});
+		expect(changed.headers.get("x-better-shop-enrichment")).toBe("MISS");
+		expect(provider.calls).toHaveLength(2);
+
+		// The bulk endpoints share the stored results.
+		const bulk = await call("POST", "/products/classify", {
+			handles: ["linen-shirt"],
+		});
+		expect(await bulk.text()).toContain('"type":"result"');
+		expect(provider.calls).toHaveLength(2);
+	});
+
+	it("lists and purges stored results", async () => {
+		const all = await call("GET", "/enrichments");
+		const summaries = (await all.json()) as EnrichmentSummary[];
+		expect(summaries.every((summary) => summary.provider === "mock")).toBe(
+			true,
+		);
+		expect(
+			summaries.map(({ operation, model }) => [operation, model]).sort(),
+		).toEqual([
+			["classify", "default"],
+			["enrich", "default"],
+			["enrich", "default"],
+			["seo", "default"],
+			["seo", "other/model"],
+		]);
+		expect(summaries[0]).not.toHaveProperty("result");
+
+		const purged = await call("DELETE", "/enrichments?operation=enrich");
+		expect(await purged.json()).toEqual({ deleted: 2 });
+		const listed = await call("GET", "/enrichments?operation=enrich");
+		expect(await listed.json()).toEqual([]);
+
+		provider.calls.length = 0;
+		const again = await call("POST", "/products/linen-shirt/enriched", {
+			outputFormat: "json",
+		});
+		expect(again.headers.get("x-better-shop-enrichment")).toBe("MISS");
+		expect(provider.calls).toHaveLength(1);
+	});
+
+	it("keeps results of other providers apart", async () => {
+		const other = {
+			...createMockProvider({
+				responses: {
+					seo: {
+						metaTitle: "Other",
+						metaDescription: "Other",
+						shortDescription: "Other",
+						longDescription: "Other",
+						tags: [],
+						marketingCopy: "Other",
+					},
+				},
+			}),
+			name: "other",
+		};
+		const store = createMemoryStore();
+		const seo = (llm: { provider: MockProvider }) =>
+			betterShop({ llm, enrichments: { store } }).handler(
+				new Request("http://localhost/products/linen-shirt/seo", {
+					method: "POST",
+					headers: {
+						"x-shop-domain": "enrich.myshopify.com",
+						"content-type": "application/json",
+					},
+					body: "{}",
+				}),
+			);
+		await seo({ provider });
+		expect(
+			(await seo({ provider })).headers.get("x-better-shop-enrichment"),
+		).toBe("HIT");
+		const res = await seo({ provider: other });
+		expect(res.headers.get("x-better-shop-enrichment")).toBe("MISS");
+		expect(await res.json()).toMatchObject({ metaTitle: "Other" });
+	});
+
+	it("evicts results together with their index entries", async () => {
+		const enrichments = makeEnrichmentStore({ maxEntries: 2 });
+		const ref = (handle: string) => ({
+			domain: "evict.myshopify.com",
+			handle,
+			operation: "seo" as const,
+			provider: "mock",
+			options: {},
+		});
+		const save = (handle: string) =>
+			enrichments.save({
+				...ref(handle),
+				model: "default",
+				productHash: "hash",
+				createdAt: new Date().toISOString(),
+				result: handle,
+			});
+		await save("a");
+		await save("b");
+		await enrichments.get(ref("a"));
+		await save("c");
+		expect(await enrichments.get(ref("b"))).toBeUndefined();
+		expect(
+			(await enrichments.list("evict.myshopify.com"))
+				.map(({ handle }) => handle)
+				.sort(),
+		).toEqual(["a", "c"]);
+		expect(await enrichments.purge("evict.myshopify.com")).toBe(2);
+	});
+});
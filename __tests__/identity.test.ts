@@ -0,0 +1,259 @@
+import { describe, expect, it, mock } from "bun:test";
+
+const infoCalls: string[] = [];
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			domain: string;
+			constructor(domain: string) {
+				this.domain = domain;
+			}
+			getInfo() {
+				infoCalls.push(this.domain);
+				return Promise.resolve({ name: "Brand" });
+			}
+		},
+	};
+});
+
+import { makeDomainPolicy } from "../src/shop/domains";
+import { makeStoreIdentities, type StoreIdentity } from "../src/shop/identity";
+import { createMemoryStore } from "../src/shop/storage";
+import { betterShop } from "../src/shop-service";
+
+const redirect = (location: string) => () =>
+	new Response(null, { status: 301, headers: { location } });
+
+const routes: Record<string, () => Response> = {
+	"https://brand.com/meta.json": redirect("https://www.brand.com/meta.json"),
+	"https://www.brand.com/meta.json": () =>
+		Response.json({
+			myshopify_domain: "brand-store.myshopify.com",
+			domain: "www.brand.com",
+		}),
+	"https://legacy.com/": () =>
+		new Response(
+			'<script>Shopify.shop = "legacy-shop.myshopify.com";</script>',
+		),
+	"https://legacy-shop.myshopify.com/meta.json": () =>
+		Response.json({ domain: "legacy.com" }),
+	"https://brand-store.myshopify.com/meta.json": () =>
+		Response.json({ domain: "www.brand.com" }),
+	"https://blog.com/": () => new Response("<html></html>"),
+};
+
+const storefront = (requested: string[]) =>
+	(async (input: string | URL | Request) => {
+		const url = String(input);
+		requested.push(url);
+		return routes[url]?.() ?? new Response("Not found", { status: 404 });
+	}) as typeof fetch;
+
+const identitiesWith = (requested: string[]) =>
+	makeStoreIdentities({
+		domainPolicy: makeDomainPolicy({
+			lookup: async () => ["23.227.38.65"],
+			fetch: storefront(requested),
+		}),
+	});
+
+describe("Store identities", () => {
+	it("resolves a custom domain through its redirects and meta.json", async () => {
+		const requested: string[] = [];
+		const identities = identitiesWith(requested);
+		expect(await identities.resolve("https://Brand.com/")).toMatchObject({
+			myshopifyDomain: "brand-store.myshopify.com",
+			primaryDomain: "www.brand.com",
+			aliases: ["brand.com", "www.brand.com", "brand-store.myshopify.com"],
+		});
+		expect(identities.canonical("www.brand.com")).toBe(
+			"brand-store.myshopify.com",
+		);
+		expect(identities.canonical("other.com")).toBe("other.com");
+
+		const fetches = requested.length;
+		expect((await identities.resolve("www.brand.com")).myshopifyDomain).toBe(
+			"brand-store.myshopify.com",
+		);
+		expect(await identities.canonicalize("brand.com")).toBe(
+			"brand-store.myshopify.com",
+		);
+		expect(requested.length).toBe(fetches);
+	});
+
+	it("falls back to the storefront script", async () => {
+		const identities = identitiesWith([]);
+		expect(await identities.resolve("legacy.com")).toMatchObject({
+			myshopifyDomain: "legacy-shop.myshopify.com",
+			primaryDomain: "legacy.com",
+			aliases: ["legacy.com", "legacy-shop.myshopify.com"],
+		});
+	});
+
+	it("refuses domains that are not Shopify stores", async () => {
+		const identities = identitiesWith([]);
+		expect(
+			await identities.resolve("blog.com").catch((error: unknown) => error),
+		).toMatchObject({ body: { code: "SHOP_NOT_SHOPIFY" } });
+	});
+
+	it("keeps identities in the given store", async () => {
+		const store = createMemoryStore();
+		const requested: string[] = [];
+		const policy = makeDomainPolicy({
+			lookup: async () => ["23.227.38.65"],
+			fetch: storefront(requested),
+		});
+		await makeStoreIdentities({ store, domainPolicy: policy }).resolve(
+			"brand.com",
+		);
+		const fetches = requested.length;
+		const restarted = makeStoreIdentities({ store, domainPolicy: policy });
+		expect(await restarted.canonicalize("www.brand.com")).toBe(
+			"brand-store.myshopify.com",
+		);
+		expect(requested.length).toBe(fetches);
+	});
+});
+
+describe("Canonical store domains", () => {
+	const requested: string[] = [];
+	const router = betterShop({
+		cache: { store: createMemoryStore() },
+		shopDomains: {
+			lookup: async () => ["23.227.38.65"],
+			fetch: storefront(requested),
+		},
+	});
+
+	const get = async (path: string, domain: string) => {
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				headers: { "x-shop-domain": domain },
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as unknown };
+	};
+
+	it("shares clients and caches across a store's aliases", async () => {
+		infoCalls.length = 0;
+		expect((await get("/info", "brand.com")).status).toBe(200);
+		expect((await get("/info", "www.brand.com")).status).toBe(200);
+		expect((await get("/info", "brand-store.myshopify.com")).status).toBe(200);
+		expect(infoCalls).toEqual(["brand-store.myshopify.com"]);
+	});
+
+	it("reports an alias's health under its store", async () => {
+		const { body } = await get("/health/www.brand.com", "brand.com");
+		expect(body).toMatchObject({
+			domain: "brand-store.myshopify.com",
+			state: "closed",
+			lastSuccessAt: expect.any(String),
+		});
+	});
+
+	it("resolves domains on request", async () => {
+		const { status, body } = await get(
+			"/utils/resolve-domain?domain=brand.com",
+			"brand.com",
+		);
+		expect(status).toBe(200);
+		expect((body as StoreIdentity).aliases).toEqual([
+			"brand.com",
+			"www.brand.com",
+			"brand-store.myshopify.com",
+		]);
+		expect(
+			(await get("/utils/resolve-domain?domain=blog.com", "blog.com")).body,
+		).toMatchObject({ code: "SHOP_NOT_SHOPIFY" });
+	});
+
+	it("resolves no alias for endpoints that never contact a store", async () => {
+		for (const path of ["/jobs", "/enrichments", "/snapshots"]) {
+			expect((await get(path, "legacy.com")).status).toBe(200);
+		}
+		expect(requested.filter((url) => url.includes("legacy"))).toEqual([]);
+	});
+
+	it("contacts no store for requests without a valid key", async () => {
+		const contacted: string[] = [];
+		const guarded = betterShop({
+			auth: { adminKey: "admin-secret" },
+			shopDomains: {
+				lookup: async () => ["23.227.38.65"],
+				fetch: storefront(contacted),
+			},
+		});
+		const send = (headers: Record<string, string>) =>
+			guarded.handler(
+				new Request("http://localhost/info", {
+					headers: { "x-shop-domain": "brand.com", ...headers },
+				}),
+			);
+		expect((await send({})).status).toBe(401);
+		expect((await send({ "x-api-key": "bsk_made_up" })).status).toBe(401);
+		expect(contacted).toEqual([]);
+		expect((await send({ "x-api-key": "admin-secret" })).status).toBe(200);
+		expect(contacted).toContain("https://brand.com/meta.json");
+	});
+
+	it("contacts no store outside a key's domains", async () => {
+		const contacted: string[] = [];
+		const guarded = betterShop({
+			auth: { adminKey: "admin-secret" },
+			shopDomains: {
+				lookup: async () => ["23.227.38.65"],
+				fetch: storefront(contacted),
+			},
+		});
+		const issued = await guarded.handler(
+			new Request("http://localhost/auth/keys", {
+				method: "POST",
+				headers: {
+					"x-api-key": "admin-secret",
+					"content-type": "application/json",
+				},
+				body: JSON.stringify({
+					scopes: ["read"],
+					domains: ["other.myshopify.com"],
+				}),
+			}),
+		);
+		const { key } = (await issued.json()) as { key: string };
+		const res = await guarded.handler(
+			new Request("http://localhost/info", {
+				headers: { "x-api-key": key, "x-shop-domain": "brand.com" },
+			}),
+		);
+		expect(res.status).toBe(403);
+		expect(contacted).toEqual([]);
+	});
+
+	it("matches API key domains by store", async () => {
+		const guarded = betterShop({
+			auth: { adminKey: "admin-secret" },
+			shopDomains: {
+				lookup: async () => ["23.227.38.65"],
+				fetch: storefront([]),
+			},
+		});
+		const send = (path: string, key: string, init?: RequestInit) =>
+			guarded.handler(
+				new Request(`http://localhost${path}`, {
+					...init,
+					headers: {
+						authorization: `Bearer ${key}`,
+						"content-type": "application/json",
+						"x-shop-domain": "www.brand.com",
+					},
+				}),
+			);
+		const issued = await send("/auth/keys", "admin-secret", {
+			method: "POST",
+			body: JSON.stringify({ scopes: ["read"], domains: ["brand.com"] }),
+		});
+		const { key } = (await issued.json()) as { key: string };
+		expect((await send("/info", key)).status).toBe(200);
+	});
+});
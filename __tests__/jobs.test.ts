@@ -0,0 +1,246 @@
+import { describe, expect, it, mock } from "bun:test";
+
+const classified: string[] = [];
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				classify: async (handle: string) => {
+					if (handle === "broken") throw new Error("LLM request failed");
+					classified.push(handle);
+					return { audience: "generic", vertical: "clothing" };
+				},
+			};
+			collections = {
+				products: {
+					all: (handle: string) =>
+						Promise.resolve(
+							handle === "summer"
+								? [{ handle: "linen-shirt" }, { handle: "broken" }]
+								: null,
+						),
+				},
+			};
+		},
+	};
+});
+
+import { nextCronRun } from "../src/shop/cron";
+import { type Job, type JobHandler, makeJobQueue } from "../src/shop/jobs";
+import { createMemoryStore } from "../src/shop/storage";
+import { betterShop } from "../src/shop-service";
+
+const waitFor = async <T>(
+	read: () => Promise<T>,
+	done: (value: T) => boolean,
+) => {
+	for (let i = 0; i < 100; i++) {
+		const value = await read();
+		if (done(value)) return value;
+		await Bun.sleep(5);
+	}
+	throw new Error("Timed out");
+};
+
+describe("Cron expressions", () => {
+	const from = new Date("2026-10-19T10:07:30Z");
+
+	it("finds the next matching minute in UTC", () => {
+		expect(nextCronRun("*/15 * * * *", from).toISOString()).toBe(
+			"2026-10-19T10:15:00.000Z",
+		);
+		expect(nextCronRun("0 3 * * 1", from).toISOString()).toBe(
+			"2026-10-26T03:00:00.000Z",
+		);
+		expect(nextCronRun("0 0 29 2 *", from).toISOString()).toBe(
+			"2028-02-29T00:00:00.000Z",
+		);
+	});
+
+	it("matches either day field when both are restricted", () => {
+		expect(nextCronRun("30 9 1,15 * 5", from).toISOString()).toBe(
+			"2026-10-23T09:30:00.000Z",
+		);
+	});
+
+	it("rejects invalid expressions", () => {
+		expect(() => nextCronRun("61 * * * *")).toThrow("Invalid cron minute");
+		expect(() => nextCronRun("* * *")).toThrow("expected 5 fields");
+	});
+});
+
+describe("Job queue", () => {
+	const blocking =
+		(): JobHandler =>
+		async ({ signal }) =>
+			new Promise((_, reject) => {
+				signal.addEventListener("abort", () => reject(signal.reason));
+			});
+
+	const handlers = (handler: JobHandler) => ({
+		"catalog.crawl": handler,
+		"products.enrich": handler,
+		"products.classify": handler,
+		"store.type": handler,
+	});
+
+	it("limits concurrency and cancels queued and running jobs", async () => {
+		const queue = makeJobQueue(handlers(blocking()), { concurrency: 1 });
+		const first = await queue.enqueue("a.com", "store.type");
+		const second = await queue.enqueue("a.com", "store.type");
+		await waitFor(
+			() => queue.get("a.com", first.id),
+			(job) => job.status === "running",
+		);
+		expect((await queue.get("a.com", second.id)).status).toBe("queued");
+
+		expect((await queue.cancel("a.com", second.id)).status).toBe("cancelled");
+		await queue.cancel("a.com", first.id);
+		await waitFor(
+			() => queue.get("a.com", first.id),
+			(job) => job.status === "cancelled",
+		);
+		await expect(queue.cancel("a.com", first.id)).rejects.toMatchObject({
+			body: { code: "JOB_NOT_CANCELLABLE" },
+		});
+		await expect(queue.get("b.com", first.id)).rejects.toMatchObject({
+			body: { code: "JOB_NOT_FOUND" },
+		});
+	});
+
+	it("fails a job and frees its slot when the store fails", async () => {
+		const memory = createMemoryStore();
+		let failing = true;
+		const store = {
+			...memory,
+			set: async <T>(key: string, value: T, ttl?: number) => {
+				if (failing && (value as Partial<Job>).status === "running") {
+					failing = false;
+					throw new Error("store unavailable");
+				}
+				await memory.set(key, value, ttl);
+			},
+		};
+		const queue = makeJobQueue(
+			handlers(async () => "done"),
+			{ store, concurrency: 1 },
+		);
+		const first = await queue.enqueue("a.com", "store.type");
+		const second = await queue.enqueue("a.com", "store.type");
+		expect(
+			(
+				await waitFor(
+					() => queue.get("a.com", second.id),
+					(job) => job.status === "succeeded",
+				)
+			).result,
+		).toBe("done");
+		expect(await queue.get("a.com", first.id)).toMatchObject({
+			status: "failed",
+			error: { message: "store unavailable" },
+		});
+	});
+
+	it("resumes queued jobs from a shared store", async () => {
+		const store = createMemoryStore();
+		const before = makeJobQueue(handlers(blocking()), {
+			store,
+			concurrency: 1,
+		});
+		const interrupted = await before.enqueue("a.com", "store.type");
+		const pending = await before.enqueue("a.com", "store.type");
+		await waitFor(
+			() => before.get("a.com", interrupted.id),
+			(job) => job.status === "running",
+		);
+
+		const after = makeJobQueue(
+			handlers(async () => "done"),
+			{ store },
+		);
+		const resumed = await waitFor(
+			() => after.get("a.com", pending.id),
+			(job) => job.status === "succeeded",
+		);
+		expect(resumed.result).toBe("done");
+		expect((await after.get("a.com", interrupted.id)).error?.code).toBe(
+			"JOB_INTERRUPTED",
+		);
+	});
+});
+
+describe("Job endpoints", () => {
+	const router = betterShop();
+
+	const call = async <T = unknown>(
+		path: string,
+		init?: { method?: string; body?: unknown },
+	) => {
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				method: init?.method ?? "GET",
+				headers: {
+					"x-shop-domain": "jobs.myshopify.com",
+					"content-type": "application/json",
+				},
+				body: init?.body ? JSON.stringify(init.body) : undefined,
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as T };
+	};
+
+	it("classifies a collection in the background and reports progress", async () => {
+		const { body: job } = await call<Job>("/jobs", {
+			method: "POST",
+			body: { type: "products.classify", input: { collection: "summer" } },
+		});
+		expect(job.status).toBe("queued");
+
+		const done = await waitFor(
+			async () => (await call<Job>(`/jobs/${job.id}`)).body,
+			(current) => current.status === "succeeded",
+		);
+		expect(done.progress).toEqual({ completed: 2, total: 2 });
+		expect(done.result).toMatchObject({
+			items: [{ handle: "linen-shirt", result: { vertical: "clothing" } }],
+			failures: [{ handle: "broken", code: "LLM_REQUEST_FAILED" }],
+		});
+		expect(classified).toEqual(["linen-shirt"]);
+
+		const { body: jobs } = await call<Job[]>("/jobs");
+		expect(jobs.map((item) => item.id)).toEqual([job.id]);
+	});
+
+	it("fails jobs for unknown collections", async () => {
+		const { body: job } = await call<Job>("/jobs", {
+			method: "POST",
+			body: { type: "products.classify", input: { collection: "missing" } },
+		});
+		const failed = await waitFor(
+			async () => (await call<Job>(`/jobs/${job.id}`)).body,
+			(current) => current.status === "failed",
+		);
+		expect(failed.error?.code).toBe("COLLECTION_NOT_FOUND");
+	});
+
+	it("manages recurring schedules", async () => {
+		const invalid = await call<{ code: string }>("/jobs/schedules", {
+			method: "POST",
+			body: { type: "catalog.crawl", cron: "every hour" },
+		});
+		expect(invalid.status).toBe(400);
+		expect(invalid.body.code).toBe("INVALID_SCHEDULE");
+
+		const { body: schedule } = await call<{ id: string; nextRunAt: string }>(
+			"/jobs/schedules",
+			{ method: "POST", body: { type: "catalog.crawl", cron: "0 */6 * * *" } },
+		);
+		expect(new Date(schedule.nextRunAt).getUTCHours() % 6).toBe(0);
+		const listed = await call<{ id: string }[]>("/jobs/schedules");
+		expect(listed.body.map((item) => item.id)).toEqual([schedule.id]);
+
+		await call(`/jobs/schedules/${schedule.id}`, { method: "DELETE" });
+		expect((await call("/jobs/schedules")).body).toEqual([]);
+	});
+});
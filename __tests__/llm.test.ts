@@ -0,0 +1,106 @@
+import { describe, expect, it, mock } from "bun:test";
+
+type LlmCall = { handle: string; apiKey?: string; model?: string };
+const calls: LlmCall[] = [];
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				find: () => Promise.resolve({ title: "Linen Shirt" }),
+				classify: (
+					handle: string,
+					options: { apiKey?: string; model?: string },
+				) => {
+					calls.push({ handle, ...options });
+					return Promise.resolve({ audience: "adult_unisex" });
+				},
+			};
+		},
+	};
+});
+
+import { makeLlmPolicy } from "../src/shop/llm";
+import { betterShop } from "../src/shop-service";
+
+describe("LLM settings", () => {
+	const router = betterShop({
+		llm: {
+			apiKey: "server-key",
+			model: "openai/gpt-4o-mini",
+			allowedModels: ["anthropic/claude-3.5-haiku"],
+			domains: {
+				"https://Premium.myshopify.com": {
+					apiKey: "premium-key",
+					model: "openai/gpt-4o",
+				},
+			},
+		},
+	});
+
+	const classify = async (domain: string, body: Record<string, string>) => {
+		const res = await router.handler(
+			new Request("http://localhost/products/linen-shirt/classify", {
+				method: "POST",
+				headers: {
+					"x-shop-domain": domain,
+					"content-type": "application/json",
+				},
+				body: JSON.stringify(body),
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as unknown };
+	};
+
+	it("uses the server key and default model, with per-domain overrides", async () => {
+		calls.length = 0;
+		expect((await classify("basic.myshopify.com", {})).status).toBe(200);
+		expect((await classify("premium.myshopify.com", {})).status).toBe(200);
+		expect(calls).toEqual([
+			{
+				handle: "linen-shirt",
+				apiKey: "server-key",
+				model: "openai/gpt-4o-mini",
+			},
+			{ handle: "linen-shirt", apiKey: "premium-key", model: "openai/gpt-4o" },
+		]);
+	});
+
+	it("only accepts allowed models", async () => {
+		calls.length = 0;
+		const allowed = await classify("basic.myshopify.com", {
+			model: "anthropic/claude-3.5-haiku",
+		});
+		expect(allowed.status).toBe(200);
+		expect(calls[0]?.model).toBe("anthropic/claude-3.5-haiku");
+
+		const rejected = await classify("basic.myshopify.com", {
+			model: "openai/o1",
+		});
+		expect(rejected.status).toBe(400);
+		expect(rejected.body).toMatchObject({
+			code: "LLM_MODEL_NOT_ALLOWED",
+			details: { model: "openai/o1" },
+		});
+	});
+
+	it("rejects API keys in the request body by default", async () => {
+		calls.length = 0;
+		const { status, body } = await classify("basic.myshopify.com", {
+			apiKey: "browser-key",
+		});
+		expect(status).toBe(403);
+		expect((body as { code: string }).code).toBe("LLM_KEY_REJECTED");
+		expect(calls).toEqual([]);
+	});
+
+	it("passes request values through when request keys are allowed", () => {
+		expect(() => makeLlmPolicy().resolve("a.com", { apiKey: "key" })).toThrow();
+		expect(
+			makeLlmPolicy({ allowRequestApiKey: true }).resolve("a.com", {
+				apiKey: "key",
+				model: "any/model",
+			}),
+		).toEqual({ apiKey: "key", model: "any/model" });
+	});
+});
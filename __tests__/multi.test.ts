@@ -0,0 +1,200 @@
+import { describe, expect, it, mock, spyOn } from "bun:test";
+
+let inFlight = 0;
+let maxInFlight = 0;
+
+const catalogs: Record<
+	string,
+	{ handle: string; title: string; price: number }[]
+> = {
+	"a.myshopify.com": [
+		{ handle: "linen-shirt", title: "Linen Shirt", price: 40 },
+		{ handle: "wool-shirt", title: "Wool Shirt", price: 90 },
+	],
+	"b.myshopify.com": [{ handle: "silk-shirt", title: "Silk Shirt", price: 60 }],
+};
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			constructor(private domain: string) {}
+			private async call<T>(value: () => T) {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				inFlight--;
+				if (this.domain === "down.myshopify.com") {
+					throw new TypeError("fetch failed");
+				}
+				if (this.domain === "broken.myshopify.com") {
+					throw new Error("Cannot read config at /srv/app/secrets.json");
+				}
+				return value();
+			}
+			getInfo() {
+				return this.call(() => ({ name: this.domain, domain: this.domain }));
+			}
+			products = {
+				all: () =>
+					this.call(() =>
+						(catalogs[this.domain] ?? []).map((product) => ({
+							...product,
+							platformId: product.handle,
+							available: true,
+							bodyHtml: null,
+							productType: null,
+							tags: [],
+							vendor: "Acme",
+							options: [],
+						})),
+					),
+			};
+		},
+	};
+});
+
+import { betterShop } from "../src/shop-service";
+
+type MultiResponse = {
+	stores: { domain: string; info?: unknown; total?: number }[];
+	failures: {
+		domain: string;
+		status: number;
+		code: string;
+		message?: string;
+	}[];
+	items: { domain: string; handle: string }[];
+	total: number;
+};
+
+const storefront: Record<string, unknown> = {
+	"https://brand.com/meta.json": {
+		myshopify_domain: "a.myshopify.com",
+		domain: "brand.com",
+	},
+	"https://a.myshopify.com/meta.json": { domain: "brand.com" },
+};
+
+describe("Multi-store endpoints", () => {
+	const router = betterShop({
+		multiStoreConcurrency: 2,
+		shopDomains: {
+			lookup: async () => ["23.227.38.65"],
+			fetch: (async (input: string | URL) => {
+				const body = storefront[String(input)];
+				return body
+					? Response.json(body)
+					: new Response("Not found", { status: 404 });
+			}) as typeof fetch,
+		},
+	});
+
+	const post = async (path: string, body: unknown) => {
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify(body),
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as MultiResponse };
+	};
+
+	it("fetches info per store and reports failures separately", async () => {
+		const { status, body } = await post("/multi/info", {
+			domains: [
+				"https://A.myshopify.com/",
+				"a.myshopify.com",
+				"down.myshopify.com",
+			],
+		});
+		expect(status).toBe(200);
+		expect(body.stores).toEqual([
+			{
+				domain: "a.myshopify.com",
+				info: { name: "a.myshopify.com", domain: "a.myshopify.com" },
+			},
+		]);
+		expect(body.failures).toEqual([
+			expect.objectContaining({
+				domain: "down.myshopify.com",
+				status: 502,
+				code: "UPSTREAM_UNREACHABLE",
+			}),
+		]);
+	});
+
+	it("queries each store once across its aliases", async () => {
+		const { body } = await post("/multi/products/search", {
+			domains: ["brand.com", "a.myshopify.com", "blog.com"],
+			q: "shirt",
+		});
+		expect(body.stores).toEqual([{ domain: "a.myshopify.com", total: 2 }]);
+		expect(body.total).toBe(2);
+		expect(body.failures).toEqual([
+			expect.objectContaining({ domain: "blog.com", code: "SHOP_NOT_SHOPIFY" }),
+		]);
+	});
+
+	it("keeps unexpected error messages out of failures", async () => {
+		const logged = spyOn(console, "error").mockImplementation(() => {});
+		const { body } = await post("/multi/info", {
+			domains: ["broken.myshopify.com"],
+		});
+		expect(body.failures).toEqual([
+			{
+				domain: "broken.myshopify.com",
+				status: 500,
+				code: "INTERNAL_SERVER_ERROR",
+				message: "The request failed unexpectedly",
+			},
+		]);
+		expect(logged).toHaveBeenCalled();
+		logged.mockRestore();
+	});
+
+	it("bounds the number of stores queried at once", async () => {
+		maxInFlight = 0;
+		await post("/multi/info", {
+			domains: ["c.myshopify.com", "d.myshopify.com", "e.myshopify.com"],
+		});
+		expect(maxInFlight).toBe(2);
+	});
+
+	it("merges search results with domain attribution", async () => {
+		const { body } = await post("/multi/products/search", {
+			domains: ["a.myshopify.com", "b.myshopify.com", "down.myshopify.com"],
+			q: "shirt",
+			sort: "price_asc",
+		});
+		expect(body.items.map((item) => [item.domain, item.handle])).toEqual([
+			["a.myshopify.com", "linen-shirt"],
+			["b.myshopify.com", "silk-shirt"],
+			["a.myshopify.com", "wool-shirt"],
+		]);
+		expect(body.total).toBe(3);
+		expect(body.stores).toEqual([
+			{ domain: "a.myshopify.com", total: 2 },
+			{ domain: "b.myshopify.com", total: 1 },
+		]);
+		expect(body.failures.map((failure) => failure.domain)).toEqual([
+			"down.myshopify.com",
+		]);
+	});
+
+	it("interleaves relevance results by rank and applies filters", async () => {
+		const { body } = await post("/multi/products/search", {
+			domains: ["a.myshopify.com", "b.myshopify.com"],
+			filters: { maxPrice: 80 },
+		});
+		expect(body.items.map((item) => item.handle)).toEqual([
+			"linen-shirt",
+			"silk-shirt",
+		]);
+	});
+
+	it("rejects an empty domain list", async () => {
+		const { status } = await post("/multi/info", { domains: [] });
+		expect(status).toBe(400);
+	});
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "bun:test";
+import { paginate } from "../src/shop/pagination";
+
+type Item = { id: string };
+
+const makeList = (ids: string[]) => {
+	const list: Item[] = ids.map((id) => ({ id }));
+	let fetches = 0;
+	return {
+		list,
+		get fetches() {
+			return fetches;
+		},
+		fetchPage: async (page: number, limit: number) => {
+			fetches++;
+			return list.slice((page - 1) * limit, page * limit);
+		},
+		idOf: (item: Item) => item.id,
+	};
+};
+
+const ids = (page: { items: Item[] }) => page.items.map((item) => item.id);
+
+describe("paginate", () => {
+	it("reads one upstream page per page", async () => {
+		const source = makeList(["a", "b", "c"]);
+		const first = await paginate({ ...source, limit: 2 });
+		expect(ids(first)).toEqual(["a", "b"]);
+		expect(first.hasNextPage).toBe(true);
+		expect(source.fetches).toBe(1);
+		const last = await paginate({ ...source, page: 2, limit: 2 });
+		expect(ids(last)).toEqual(["c"]);
+		expect(last).toMatchObject({ hasNextPage: false, nextCursor: null });
+		expect(source.fetches).toBe(2);
+	});
+
+	it("follows cursors with the anchor's page and the next", async () => {
+		const source = makeList(["a", "b", "c", "d"]);
+		const first = await paginate({ ...source, limit: 2 });
+		const second = await paginate({
+			...source,
+			limit: 2,
+			cursor: first.nextCursor ?? undefined,
+		});
+		expect(ids(second)).toEqual(["c", "d"]);
+		expect(source.fetches).toBe(3);
+		// A full last page may have more to come; the page after it is empty.
+		const third = await paginate({
+			...source,
+			limit: 2,
+			cursor: second.nextCursor ?? undefined,
+		});
+		expect(third).toMatchObject({
+			items: [],
+			hasNextPage: false,
+			nextCursor: null,
+		});
+	});
+
+	it("keeps cursors stable when items are added before them", async () => {
+		const source = makeList(["a", "b", "c", "d", "e"]);
+		const first = await paginate({ ...source, limit: 2 });
+		source.list.unshift({ id: "new" });
+		const second = await paginate({
+			...source,
+			limit: 2,
+			cursor: first.nextCursor ?? undefined,
+		});
+		expect(ids(second)).toEqual(["c", "d"]);
+		const third = await paginate({
+			...source,
+			limit: 2,
+			cursor: second.nextCursor ?? undefined,
+		});
+		expect(ids(third)).toEqual(["e"]);
+		expect(third.hasNextPage).toBe(false);
+	});
+
+	it("keeps cursors stable when items are removed before them", async () => {
+		const source = makeList(["a", "b", "c", "d", "e"]);
+		const first = await paginate({ ...source, limit: 2 });
+		source.list.splice(0, 1);
+		const second = await paginate({
+			...source,
+			limit: 2,
+			cursor: first.nextCursor ?? undefined,
+		});
+		expect(ids(second)).toEqual(["c", "d"]);
+	});
+
+	it("resumes at the anchor's position when the anchor disappears", async () => {
+		const source = makeList(["a", "b", "c", "d", "e"]);
+		const first = await paginate({ ...source, limit: 2 });
+		source.list.splice(1, 1);
+		const second = await paginate({
+			...source,
+			limit: 2,
+			cursor: first.nextCursor ?? undefined,
+		});
+		expect(ids(second)).toEqual(["c", "d"]);
+		const third = await paginate({
+			...source,
+			limit: 2,
+			cursor: second.nextCursor ?? undefined,
+		});
+		expect(ids(third)).toEqual(["e"]);
+	});
+
+	it("keeps the rest of the page when a mid-page anchor disappears", async () => {
+		const source = makeList(["a", "b", "c", "d", "e", "f"]);
+		const first = await paginate({ ...source, limit: 2 });
+		source.list.unshift({ id: "new" });
+		const second = await paginate({
+			...source,
+			limit: 2,
+			cursor: first.nextCursor ?? undefined,
+		});
+		// "d" starts the third upstream page now.
+		expect(ids(second)).toEqual(["c", "d"]);
+		source.list.splice(4, 1);
+		const third = await paginate({
+			...source,
+			limit: 2,
+			cursor: second.nextCursor ?? undefined,
+		});
+		expect(ids(third)).toEqual(["e", "f"]);
+	});
+
+	it("rejects malformed cursors", async () => {
+		const source = makeList(["a"]);
+		await expect(
+			paginate({ ...source, limit: 2, cursor: "not-a-cursor" }),
+		).rejects.toMatchObject({ body: { code: "INVALID_PAGINATION" } });
+		await expect(
+			paginate({ ...source, limit: 2, page: Number.NaN }),
+		).rejects.toMatchObject({ body: { code: "INVALID_PAGINATION" } });
+		await expect(
+			paginate({
+				...source,
+				limit: 2,
+				cursor: Buffer.from(
+					JSON.stringify({ p: 1, l: 1000, id: "a", i: 0 }),
+				).toString("base64url"),
+			}),
+		).rejects.toMatchObject({ body: { code: "INVALID_PAGINATION" } });
+	});
+});
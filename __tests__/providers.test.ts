@@ -0,0 +1,192 @@
+import { describe, expect, it, mock } from "bun:test";
+
+const product = {
+	platformId: "p1",
+	handle: "linen-shirt",
+	title: "Linen Shirt",
+	bodyHtml: "<p>Breathable linen.</p>",
+	vendor: "Acme",
+	price: 40,
+	tags: ["summer"],
+};
+
+let finds = 0;
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				find: (handle: string) => {
+					finds++;
+					return Promise.resolve(handle === product.handle ? product : null);
+				},
+				classifyPrompts: (handle: string) =>
+					Promise.resolve({
+						system: "Classify the product.",
+						user: `Product: ${handle}`,
+					}),
+				classify: () => {
+					throw new Error("shop-client LLM calls must not be used");
+				},
+			};
+		},
+	};
+});
+
+import {
+	createMockProvider,
+	createOpenAICompatibleProvider,
+} from "../src/shop/providers";
+import { betterShop } from "../src/shop-service";
+
+const post = async (router: ReturnType<typeof betterShop>, path: string) => {
+	const res = await router.handler(
+		new Request(`http://localhost${path}`, {
+			method: "POST",
+			headers: {
+				"x-shop-domain": "providers.myshopify.com",
+				"content-type": "application/json",
+			},
+			body: JSON.stringify({ model: "local/llama" }),
+		}),
+	);
+	return { status: res.status, body: (await res.json()) as unknown };
+};
+
+describe("LLM providers", () => {
+	it("classifies and writes SEO offline with the mock provider", async () => {
+		const provider = createMockProvider();
+		const router = betterShop({ llm: { provider } });
+
+		const classification = await post(router, "/products/linen-shirt/classify");
+		expect(classification).toEqual({
+			status: 200,
+			body: {
+				audience: "generic",
+				vertical: "clothing",
+				category: null,
+				subCategory: null,
+			},
+		});
+
+		finds = 0;
+		const first = await post(router, "/products/linen-shirt/seo");
+		// The product loaded to check the stored result feeds the prompt.
+		expect(finds).toBe(1);
+		const second = await post(router, "/products/linen-shirt/seo");
+		expect(first.status).toBe(200);
+		expect(second.body).toEqual(first.body);
+		expect((first.body as { metaTitle: string }).metaTitle).toStartWith(
+			"Mock title",
+		);
+
+		// The repeated SEO call is answered from the stored result.
+		expect(provider.calls.map((call) => [call.task, call.model])).toEqual([
+			["classify", "local/llama"],
+			["seo", "local/llama"],
+		]);
+		expect(provider.calls[1]?.user).toContain("Linen Shirt");
+	});
+
+	it("reports missing products and invalid replies", async () => {
+		const router = betterShop({
+			llm: {
+				provider: createMockProvider({
+					responses: { classify: { audience: "aliens" } },
+				}),
+			},
+		});
+		expect((await post(router, "/products/missing/seo")).status).toBe(404);
+
+		const { status, body } = await post(
+			router,
+			"/products/linen-shirt/classify",
+		);
+		expect(status).toBe(502);
+		expect(body).toMatchObject({
+			code: "LLM_REQUEST_FAILED",
+			details: { provider: "mock" },
+		});
+	});
+
+	it("calls OpenAI-compatible chat completion APIs", async () => {
+		const requests: { url: string; init?: RequestInit }[] = [];
+		const provider = createOpenAICompatibleProvider({
+			baseUrl: "http://localhost:11434/v1/",
+			model: "llama3.1",
+			name: "ollama",
+			fetch: (async (url: string, init?: RequestInit) => {
+				requests.push({ url, init });
+				return Response.json({
+					choices: [{ message: { content: '{"ok":true}' } }],
+				});
+			}) as unknown as typeof fetch,
+		});
+
+		const reply = await provider.complete({
+			task: "seo",
+			system: "system",
+			user: "user",
+			apiKey: "local-key",
+			json: true,
+		});
+		expect(reply).toBe('{"ok":true}');
+		expect(requests[0]?.url).toBe("http://localhost:11434/v1/chat/completions");
+		const headers = requests[0]?.init?.headers as Record<string, string>;
+		expect(headers.authorization).toBe("Bearer local-key");
+		expect(JSON.parse(String(requests[0]?.init?.body))).toMatchObject({
+			model: "llama3.1",
+			response_format: { type: "json_object" },
+			messages: [
+				{ role: "system", content: "system" },
+				{ role: "user", content: "user" },
+			],
+		});
+	});
+
+	it("looks up the global fetch when it calls the API", async () => {
+		const provider = createOpenAICompatibleProvider({
+			baseUrl: "http://localhost:11434/v1",
+			model: "llama3.1",
+		});
+		const unpatched = globalThis.fetch;
+		const requested: string[] = [];
+		globalThis.fetch = (async (input: string | URL | Request) => {
+			requested.push(String(input));
+			return Response.json({ choices: [{ message: { content: "ok" } }] });
+		}) as typeof fetch;
+		try {
+			const reply = await provider.complete({
+				task: "seo",
+				system: "system",
+				user: "user",
+				json: false,
+			});
+			expect(reply).toBe("ok");
+			expect(requested).toEqual(["http://localhost:11434/v1/chat/completions"]);
+		} finally {
+			globalThis.fetch = unpatched;
+		}
+	});
+
+	it("turns provider HTTP errors into LLM_REQUEST_FAILED", async () => {
+		const provider = createOpenAICompatibleProvider({
+			baseUrl: "http://localhost:8080/v1",
+			model: "local",
+			fetch: (async () =>
+				new Response("model not loaded", {
+					status: 503,
+				})) as unknown as typeof fetch,
+		});
+		const error = await provider
+			.complete({ task: "classify", system: "", user: "", json: true })
+			.catch((caught: unknown) => caught);
+		expect(error).toMatchObject({
+			statusCode: 502,
+			body: {
+				code: "LLM_REQUEST_FAILED",
+				details: { status: 503, reason: "model not loaded" },
+			},
+		});
+	});
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it, mock } from "bun:test";
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				all: () => Promise.resolve([]),
+			};
+		},
+	};
+});
+
+import { makeRateLimiter } from "../src/shop/ratelimit";
+import { betterShop } from "../src/shop-service";
+
+const requestFrom = (headers: Record<string, string>, path = "/products/all") =>
+	new Request(`http://localhost${path}`, { headers });
+
+describe("Inbound rate limiting", () => {
+	it("answers with RateLimit headers and a 429 with Retry-After", async () => {
+		const router = betterShop({
+			rateLimit: {
+				caller: { capacity: 2, refillPerSecond: 0.5 },
+				domain: false,
+				trustProxy: true,
+			},
+		});
+		const headers = {
+			"x-shop-domain": "limit.myshopify.com",
+			"x-forwarded-for": "203.0.113.7, 10.0.0.1",
+		};
+		const first = await router.handler(requestFrom(headers));
+		expect(first.status).toBe(200);
+		expect(first.headers.get("RateLimit-Limit")).toBe("2");
+		expect(first.headers.get("RateLimit-Remaining")).toBe("1");
+		expect(first.headers.get("RateLimit-Reset")).toBe("2");
+		expect((await router.handler(requestFrom(headers))).status).toBe(200);
+
+		const rejected = await router.handler(requestFrom(headers));
+		expect(rejected.status).toBe(429);
+		expect(rejected.headers.get("Retry-After")).toBe("2");
+		expect(rejected.headers.get("RateLimit-Remaining")).toBe("0");
+		expect(await rejected.json()).toMatchObject({
+			code: "RATE_LIMITED",
+			details: { scope: "caller", retryAfter: 2 },
+		});
+
+		const other = await router.handler(
+			requestFrom({ ...headers, "x-forwarded-for": "203.0.113.8" }),
+		);
+		expect(other.status).toBe(200);
+	});
+
+	it("only trusts forwarded IPs behind a proxy", async () => {
+		const limiter = makeRateLimiter({ domain: false });
+		expect(
+			await limiter.take(requestFrom({ "x-forwarded-for": "203.0.113.7" })),
+		).toBeUndefined();
+	});
+
+	it("limits each accepted API key separately from its IP", async () => {
+		const limiter = makeRateLimiter({
+			caller: { capacity: 1, refillPerSecond: 1 },
+			domain: false,
+			trustProxy: true,
+			apiKeyIdOf: async (headers) => {
+				const key =
+					headers.get("x-api-key") ??
+					headers.get("authorization")?.replace("Bearer ", "");
+				return key === "bsk_a" || key === "bsk_b" ? key : undefined;
+			},
+		});
+		const ip = { "x-real-ip": "203.0.113.9" };
+		expect((await limiter.take(requestFrom(ip)))?.allowed).toBe(true);
+		expect((await limiter.take(requestFrom(ip)))?.allowed).toBe(false);
+		// Unknown keys share the IP's bucket.
+		expect(
+			(await limiter.take(requestFrom({ ...ip, "x-api-key": "bsk_made_up" })))
+				?.allowed,
+		).toBe(false);
+		expect(
+			(await limiter.take(requestFrom({ ...ip, "x-api-key": "bsk_a" })))
+				?.allowed,
+		).toBe(true);
+		expect(
+			(
+				await limiter.take(
+					requestFrom({ ...ip, authorization: "Bearer bsk_b" }),
+				)
+			)?.allowed,
+		).toBe(true);
+		expect(
+			(
+				await limiter.take(
+					requestFrom({ ...ip, authorization: "Bearer bsk_b" }),
+				)
+			)?.allowed,
+		).toBe(false);
+	});
+
+	it("shares the domain bucket between callers and refills it", async () => {
+		const limiter = makeRateLimiter({
+			caller: { capacity: 10, refillPerSecond: 10 },
+			domain: { capacity: 2, refillPerSecond: 50 },
+			trustProxy: true,
+		});
+		const caller = (ip: string) =>
+			requestFrom({ "x-shop-domain": "Busy.myshopify.com", "x-real-ip": ip });
+		expect((await limiter.take(caller("1.1.1.1")))?.allowed).toBe(true);
+		expect((await limiter.take(caller("2.2.2.2")))?.allowed).toBe(true);
+		const rejected = await limiter.take(caller("3.3.3.3"));
+		expect(rejected).toMatchObject({
+			allowed: false,
+			scope: "domain",
+			limit: 2,
+		});
+		// A rejected request takes no token from the caller's bucket.
+		expect(
+			await limiter.take(requestFrom({ "x-real-ip": "3.3.3.3" })),
+		).toMatchObject({ remaining: 9 });
+		await Bun.sleep(40);
+		expect((await limiter.take(caller("3.3.3.3")))?.allowed).toBe(true);
+	});
+
+	it("keys store buckets by canonical domain and charges each multi-store domain", async () => {
+		const limiter = makeRateLimiter({
+			caller: false,
+			domain: { capacity: 1, refillPerSecond: 0.01 },
+			canonicalDomain: (domain) =>
+				domain === "brand.com" ? "brand.myshopify.com" : domain,
+		});
+		expect(
+			(await limiter.take(requestFrom({ "x-shop-domain": "brand.com" })))
+				?.allowed,
+		).toBe(true);
+		expect(
+			await limiter.take(
+				requestFrom({ "x-shop-domain": "brand.myshopify.com" }),
+			),
+		).toMatchObject({ allowed: false, scope: "domain" });
+		const multi = (domains: string[]) =>
+			new Request("http://localhost/multi/info", {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({ domains }),
+			});
+		expect(
+			(await limiter.take(multi(["one.myshopify.com", "two.myshopify.com"])))
+				?.allowed,
+		).toBe(true);
+		expect(
+			await limiter.take(multi(["three.myshopify.com", "two.myshopify.com"])),
+		).toMatchObject({ allowed: false, scope: "domain" });
+		// The rejected request took no token from the other store.
+		expect((await limiter.take(multi(["three.myshopify.com"])))?.allowed).toBe(
+			true,
+		);
+	});
+
+	it("skips requests without a caller or domain", async () => {
+		expect(await makeRateLimiter().take(requestFrom({}))).toBeUndefined();
+	});
+});
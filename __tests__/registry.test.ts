@@ -0,0 +1,101 @@
+import { describe, expect, it, mock } from "bun:test";
+
+const created: string[] = [];
+const limits: unknown[] = [];
+
+mock.module("shop-client", () => {
+	return {
+		configureRateLimit: (options: unknown) => limits.push(options),
+		ShopClient: class MockShopClient {
+			domain: string;
+			constructor(domain: string) {
+				this.domain = domain;
+				created.push(domain);
+			}
+		},
+	};
+});
+
+import { createShopRegistry, normalizeShopDomain } from "../src/shop/registry";
+
+describe("Shop registry", () => {
+	it("normalizes domains without collapsing subdomains", () => {
+		expect(normalizeShopDomain("https://Mock.MyShopify.com/products")).toBe(
+			"mock.myshopify.com",
+		);
+		expect(normalizeShopDomain("brand.com:443")).toBe("brand.com");
+		expect(normalizeShopDomain("shop.brand.co.uk.")).toBe("shop.brand.co.uk");
+	});
+
+	it("reuses one client per domain", () => {
+		created.length = 0;
+		const registry = createShopRegistry();
+		const a = registry.get("a.myshopify.com");
+		const b = registry.get("https://A.myshopify.com/");
+		expect(a).toBe(b);
+		expect(created).toEqual(["a.myshopify.com"]);
+	});
+
+	it("evicts the least recently used client when full", () => {
+		created.length = 0;
+		const registry = createShopRegistry({ maxClients: 2 });
+		const a = registry.get("a.com");
+		registry.get("b.com");
+		registry.get("a.com");
+		registry.get("c.com");
+		expect(registry.size()).toBe(2);
+		expect(registry.get("a.com")).toBe(a);
+		registry.get("b.com");
+		expect(created).toEqual(["a.com", "b.com", "c.com", "b.com"]);
+	});
+
+	it("evicts a single domain on demand", () => {
+		const registry = createShopRegistry();
+		const a = registry.get("a.com");
+		expect(registry.evict("A.com")).toBe(true);
+		expect(registry.evict("a.com")).toBe(false);
+		expect(registry.get("a.com")).not.toBe(a);
+	});
+
+	it("gives every store its own upstream limiter", () => {
+		limits.length = 0;
+		const registry = createShopRegistry({
+			upstreamLimit: { maxConcurrency: 1 },
+		});
+		registry.get("a.com");
+		registry.get("a.com");
+		registry.get("b.com");
+		expect(limits).toEqual([
+			{
+				perHost: {
+					"a.com": {
+						maxConcurrency: 1,
+						maxRequestsPerInterval: 5,
+						intervalMs: 1000,
+					},
+				},
+			},
+			{
+				perHost: {
+					"b.com": {
+						maxConcurrency: 1,
+						maxRequestsPerInterval: 5,
+						intervalMs: 1000,
+					},
+				},
+			},
+		]);
+
+		limits.length = 0;
+		createShopRegistry({ upstreamLimit: false }).get("c.com");
+		expect(limits).toEqual([]);
+	});
+
+	it("drops idle clients", async () => {
+		const registry = createShopRegistry({ clientIdleTTL: 5 });
+		const a = registry.get("a.com");
+		await Bun.sleep(15);
+		expect(registry.size()).toBe(0);
+		expect(registry.get("a.com")).not.toBe(a);
+	});
+});
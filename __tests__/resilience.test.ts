@@ -0,0 +1,212 @@
+import { describe, expect, it, mock } from "bun:test";
+
+let infoCalls = 0;
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			getInfo() {
+				infoCalls++;
+				return Promise.reject(new TypeError("fetch failed"));
+			}
+		},
+	};
+});
+
+import { isShopError } from "../src/shop/errors";
+import { makeUpstreamGuard, type StoreHealth } from "../src/shop/resilience";
+import { betterShop } from "../src/shop-service";
+
+const outage = () => Promise.reject(new Error("ECONNREFUSED"));
+
+describe("Upstream guard", () => {
+	it("retries outages of reads with jitter", async () => {
+		const guard = makeUpstreamGuard({ retries: 2, retryDelay: 1 });
+		let attempts = 0;
+		const result = await guard.call("a.com", async () => {
+			attempts++;
+			if (attempts < 3) throw new Error("ECONNRESET");
+			return "ok";
+		});
+		expect(result).toBe("ok");
+		expect(attempts).toBe(3);
+		expect(guard.health("a.com")).toMatchObject({
+			state: "closed",
+			failures: 0,
+		});
+	});
+
+	it("does not retry or count errors the store answered with", async () => {
+		const guard = makeUpstreamGuard({ retries: 2, failureThreshold: 1 });
+		let attempts = 0;
+		const invalid = guard.call("a.com", async () => {
+			attempts++;
+			throw new Error("Invalid product handle");
+		});
+		expect(await invalid.catch((error) => error)).toSatisfy((error) =>
+			isShopError(error, "INVALID_HANDLE"),
+		);
+		expect(attempts).toBe(1);
+		expect(guard.health("a.com").state).toBe("closed");
+	});
+
+	it("times out slow calls and aborts their signal", async () => {
+		const guard = makeUpstreamGuard({ timeout: 10, retries: 0 });
+		let aborted = false;
+		const error = await guard
+			.call(
+				"slow.com",
+				(signal) =>
+					new Promise((resolve) => {
+						signal.addEventListener("abort", () => {
+							aborted = true;
+						});
+						setTimeout(resolve, 200);
+					}),
+			)
+			.catch((error: unknown) => error);
+		expect(isShopError(error, "UPSTREAM_TIMEOUT")).toBe(true);
+		expect(aborted).toBe(true);
+		expect(guard.health("slow.com").lastError?.code).toBe("UPSTREAM_TIMEOUT");
+	});
+
+	it("times out each request of a wrapped call and aborts it", async () => {
+		const unpatched = globalThis.fetch;
+		let inFlight = 0;
+		let overlapped = false;
+		let aborted = 0;
+		globalThis.fetch = (async (input: string | URL | Request, init) => {
+			inFlight++;
+			if (inFlight > 1) overlapped = true;
+			try {
+				return await new Promise<Response>((resolve, reject) => {
+					const delay = String(input).includes("slow") ? 200 : 15;
+					const timer = setTimeout(() => resolve(new Response("[]")), delay);
+					init?.signal?.addEventListener("abort", () => {
+						aborted++;
+						clearTimeout(timer);
+						reject(new Error("aborted"));
+					});
+				});
+			} finally {
+				inFlight--;
+			}
+		}) as typeof fetch;
+		try {
+			const guard = makeUpstreamGuard({
+				timeout: 25,
+				retries: 1,
+				retryDelay: 1,
+			});
+			const client = guard.wrap(
+				{
+					products: {
+						// Three pages take longer than the timeout together.
+						all: async () => {
+							for (const page of [1, 2, 3]) {
+								await fetch(`https://a.com/products.json?page=${page}`);
+							}
+							return "crawled";
+						},
+						find: async () => {
+							await fetch("https://a.com/slow");
+						},
+					},
+				},
+				"a.com",
+			);
+			expect(await client.products.all()).toBe("crawled");
+			const error = await client.products.find().catch((error) => error);
+			expect(isShopError(error, "UPSTREAM_TIMEOUT")).toBe(true);
+			expect(aborted).toBe(2);
+			expect(overlapped).toBe(false);
+		} finally {
+			globalThis.fetch = unpatched;
+		}
+	});
+
+	it("keeps a bounded number of circuits", async () => {
+		const guard = makeUpstreamGuard({ retries: 0 });
+		await guard.call("first.com", outage).catch(() => {});
+		expect(guard.health("first.com").failures).toBe(1);
+		for (let i = 0; i < 10_000; i++) {
+			await guard.call(`store-${i}.com`, async () => {});
+		}
+		expect(guard.health("first.com").failures).toBe(0);
+	});
+
+	it("opens the circuit, fails fast and closes after a good trial call", async () => {
+		const guard = makeUpstreamGuard({
+			retries: 0,
+			failureThreshold: 2,
+			resetTimeout: 30,
+		});
+		for (let i = 0; i < 2; i++) {
+			await guard.call("down.com", outage).catch(() => {});
+		}
+		let called = false;
+		const fast = await guard
+			.call("down.com", async () => {
+				called = true;
+			})
+			.catch((error: unknown) => error);
+		expect(isShopError(fast, "UPSTREAM_CIRCUIT_OPEN")).toBe(true);
+		expect(called).toBe(false);
+		expect(guard.health("down.com")).toMatchObject({
+			state: "open",
+			failures: 2,
+		});
+		expect(guard.health("other.com").state).toBe("closed");
+
+		await new Promise((resolve) => setTimeout(resolve, 40));
+		expect(guard.health("down.com").state).toBe("half-open");
+		await guard.call("down.com", outage).catch(() => {});
+		expect(guard.health("down.com").state).toBe("open");
+
+		await new Promise((resolve) => setTimeout(resolve, 40));
+		expect(await guard.call("down.com", async () => "back")).toBe("back");
+		expect(guard.health("down.com")).toMatchObject({
+			state: "closed",
+			failures: 0,
+		});
+	});
+});
+
+describe("Store health", () => {
+	it("reports the breaker state of a failing store", async () => {
+		const router = betterShop({
+			resilience: { retries: 1, retryDelay: 1, failureThreshold: 2 },
+		});
+		const info = () =>
+			router.handler(
+				new Request("http://localhost/info", {
+					headers: { "x-shop-domain": "flaky.myshopify.com" },
+				}),
+			);
+		infoCalls = 0;
+		expect((await info()).status).toBe(502);
+		expect((await info()).status).toBe(502);
+		expect(infoCalls).toBe(4);
+
+		const paused = await info();
+		expect(paused.status).toBe(503);
+		expect(await paused.json()).toMatchObject({
+			code: "UPSTREAM_CIRCUIT_OPEN",
+			details: { domain: "flaky.myshopify.com" },
+		});
+		expect(infoCalls).toBe(4);
+
+		const res = await router.handler(
+			new Request("http://localhost/health/Flaky.myshopify.com"),
+		);
+		expect(res.status).toBe(200);
+		const health = (await res.json()) as StoreHealth;
+		expect(health).toMatchObject({
+			domain: "flaky.myshopify.com",
+			state: "open",
+			failures: 2,
+			lastError: { code: "UPSTREAM_UNREACHABLE" },
+		});
+		expect(Date.parse(health.retryAt ?? "")).toBeGreaterThan(Date.now());
+	});
+});
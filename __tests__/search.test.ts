@@ -0,0 +1,245 @@
+import { describe, expect, it, mock } from "bun:test";
+
+let catalogLoads = 0;
+
+const product = (overrides: Record<string, unknown>) => ({
+	available: true,
+	bodyHtml: null,
+	productType: null,
+	tags: [] as string[],
+	vendor: "Acme",
+	options: [],
+	publishedAt: "2024-01-01T00:00:00Z",
+	...overrides,
+	platformId: String(overrides.handle),
+});
+
+const catalog = () => [
+	product({
+		handle: "linen-shirt",
+		title: "Linen Shirt",
+		price: 40,
+		productType: "Shirts",
+		tags: ["summer"],
+		options: [{ key: "color", name: "Color", values: ["Red", "Blue"] }],
+	}),
+	product({
+		handle: "wool-sweater",
+		title: "Wool Sweater",
+		price: 90,
+		vendor: "Nordic",
+		bodyHtml: "<p>Pairs well with a <b>shirt</b></p>",
+		options: [{ key: "color", name: "Color", values: ["Grey"] }],
+		publishedAt: "2024-03-01T00:00:00Z",
+	}),
+	product({
+		handle: "shirt-dress",
+		title: "Shirt Dress",
+		price: 60,
+		available: false,
+		tags: ["summer"],
+		options: [{ key: "color", name: "Color", values: ["Red"] }],
+		publishedAt: "2024-02-01T00:00:00Z",
+	}),
+];
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				all: () => {
+					catalogLoads++;
+					return Promise.resolve(catalog());
+				},
+				paginated: () => Promise.resolve(catalog().slice(0, 1)),
+			};
+			collections = {
+				products: {
+					all: (handle: string) =>
+						Promise.resolve(
+							handle === "summer"
+								? catalog().filter((p) => p.tags.includes("summer"))
+								: null,
+						),
+				},
+			};
+		},
+	};
+});
+
+import { betterShop } from "../src/shop-service";
+
+type SearchResponse = {
+	items: { handle: string }[];
+	total: number;
+	page: number;
+	limit: number;
+};
+
+describe("Product search", () => {
+	const router = betterShop();
+
+	const search = async (query: string) => {
+		const res = await router.handler(
+			new Request(`http://localhost/products/search?${query}`, {
+				headers: { "x-shop-domain": "search.myshopify.com" },
+			}),
+		);
+		expect(res.status).toBe(200);
+		return (await res.json()) as SearchResponse;
+	};
+
+	const handles = (res: SearchResponse) => res.items.map((item) => item.handle);
+
+	it("ranks title matches above description matches", async () => {
+		const res = await search("q=shirt");
+		expect(handles(res)).toEqual([
+			"linen-shirt",
+			"shirt-dress",
+			"wool-sweater",
+		]);
+		expect(res.total).toBe(3);
+	});
+
+	it("requires every query term and matches prefixes", async () => {
+		expect(handles(await search("q=lin shi"))).toEqual(["linen-shirt"]);
+		expect(handles(await search("q=nordic"))).toEqual(["wool-sweater"]);
+		expect((await search("q=sh")).total).toBe(3);
+		expect((await search("q=shirts")).total).toBe(1);
+	});
+
+	it("applies price, availability, tag and option filters", async () => {
+		expect(handles(await search("minPrice=50&maxPrice=100"))).toEqual([
+			"wool-sweater",
+			"shirt-dress",
+		]);
+		expect(handles(await search("tag=summer&available=true"))).toEqual([
+			"linen-shirt",
+		]);
+		expect(handles(await search("option.color=red"))).toEqual([
+			"linen-shirt",
+			"shirt-dress",
+		]);
+		expect(handles(await search("option.color=grey,blue"))).toEqual([
+			"linen-shirt",
+			"wool-sweater",
+		]);
+	});
+
+	it("sorts and paginates results", async () => {
+		expect(handles(await search("sort=price_desc"))).toEqual([
+			"wool-sweater",
+			"shirt-dress",
+			"linen-shirt",
+		]);
+		const page = await search("sort=newest&limit=1&page=2");
+		expect(handles(page)).toEqual(["shirt-dress"]);
+		expect(page).toMatchObject({ total: 3, page: 2, limit: 1 });
+	});
+
+	it("reuses the index for the domain", async () => {
+		catalogLoads = 0;
+		await search("q=wool");
+		await search("q=linen");
+		expect(catalogLoads).toBe(0);
+	});
+});
+
+type FacetedPage = {
+	items: { handle: string }[];
+	totalCount: number;
+	hasNextPage: boolean;
+	nextCursor: string | null;
+	facets: {
+		vendor: Record<string, number>;
+		tag: Record<string, number>;
+		options: Record<string, Record<string, number>>;
+		available: { true: number; false: number };
+		price: { min: number; max: number } | null;
+	};
+};
+
+describe("Faceted product lists", () => {
+	const router = betterShop();
+
+	const list = async (path: string) => {
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				headers: { "x-shop-domain": "facets.myshopify.com" },
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as unknown };
+	};
+
+	it("pages the upstream catalog without filters", async () => {
+		const { body } = await list("/products/paginated?page=1&limit=1");
+		expect((body as FacetedPage).facets).toBeUndefined();
+	});
+
+	it("filters the page and counts facets over the other selections", async () => {
+		const { body } = await list(
+			"/products/paginated?option.Color=Red&vendor=acme&limit=1",
+		);
+		const page = body as FacetedPage;
+		expect(page.items.map((item) => item.handle)).toEqual(["linen-shirt"]);
+		expect(page.totalCount).toBe(2);
+		// Color counts ignore the color selection, so siblings stay visible.
+		expect(page.facets.options.color).toEqual({ red: 2, blue: 1 });
+		// Vendor counts ignore the vendor selection.
+		expect(page.facets.vendor).toEqual({ Acme: 2 });
+		expect(page.facets.tag).toEqual({ summer: 2 });
+		expect(page.facets.available).toEqual({ true: 1, false: 1 });
+		expect(page.facets.price).toEqual({ min: 40, max: 60 });
+
+		expect(page.hasNextPage).toBe(true);
+		const next = (
+			await list(
+				`/products/paginated?option.Color=Red&vendor=acme&cursor=${page.nextCursor}`,
+			)
+		).body as FacetedPage;
+		expect(next.items.map((item) => item.handle)).toEqual(["shirt-dress"]);
+		expect(next.hasNextPage).toBe(false);
+	});
+
+	it("filters collection products", async () => {
+		const { body } = await list(
+			"/collections/summer/products/paginated?available=true",
+		);
+		const page = body as FacetedPage;
+		expect(page.items.map((item) => item.handle)).toEqual(["linen-shirt"]);
+		expect(page.facets.available).toEqual({ true: 1, false: 1 });
+	});
+
+	it("returns facets without filters when asked", async () => {
+		const { body } = await list(
+			"/collections/summer/products/paginated?facets=true",
+		);
+		expect((body as FacetedPage).totalCount).toBe(2);
+	});
+
+	it("rejects malformed page, limit and price values", async () => {
+		for (const query of [
+			"page=abc",
+			"page=1.5",
+			"limit=NaN",
+			"limit=251&facets=true",
+			"minPrice=cheap",
+			"maxPrice=-1&vendor=acme",
+		]) {
+			expect((await list(`/products/paginated?${query}`)).status).toBe(400);
+		}
+		expect((await list("/products/search?page=abc")).status).toBe(400);
+		expect((await list("/products/search?minPrice=cheap")).status).toBe(400);
+		expect(
+			(await list("/products/paginated?minPrice=&facets=true")).status,
+		).toBe(200);
+	});
+
+	it("reports unknown collections", async () => {
+		const { status, body } = await list(
+			"/collections/missing/products/paginated?tag=summer",
+		);
+		expect(status).toBe(404);
+		expect((body as { code: string }).code).toBe("COLLECTION_NOT_FOUND");
+	});
+});
@@ -20,7 +20,17 @@ mock.module("shop-client", () => {
 				});
 			}
 			products = {
-				all: () => Promise.resolve([{ id: "1", title: "Product 1" }]),
+				all: () =>
+					Promise.resolve([
+						{
+							id: "1",
+							handle: "product-1",
+							title: "Product 1",
+							variants: [
+								{ id: "123", platformId: "123", title: "M", available: true },
+							],
+						},
+					]),
 				paginated: (opts: { page?: number }) =>
 					Promise.resolve([{ id: "1", title: "Product 1", page: opts.page }]),
 				showcased: () =>
@@ -44,20 +54,43 @@ mock.module("shop-client", () => {
 				paginated: () => Promise.resolve([{ id: "c1", title: "Collection 1" }]),
 				showcased: () =>
 					Promise.resolve([{ id: "c2", title: "Showcased Collection" }]),
-				find: (handle: string) =>
-					handle === "exists"
-						? Promise.resolve({ id: "c3", title: "Collection 3" })
-						: Promise.resolve(null),
+				find: (handle: string) => {
+					if (handle === "exists") {
+						return Promise.resolve({ id: "c3", title: "Collection 3" });
+					}
+					if (handle === "throttled") {
+						return Promise.reject(
+							Object.assign(new Error("HTTP error! status: 429"), {
+								statusCode: 429,
+							}),
+						);
+					}
+					if (handle === "down") {
+						return Promise.reject(new TypeError("fetch failed"));
+					}
+					if (handle === "slow") {
+						return Promise.reject(
+							new DOMException("The operation timed out.", "TimeoutError"),
+						);
+					}
+					return Promise.resolve(null);
+				},
 				products: {
-					all: () => Promise.resolve([{ id: "p1", title: "Col Product 1" }]),
-					paginated: () =>
-						Promise.resolve([{ id: "p1", title: "Col Product 1" }]),
+					all: (handle: string) =>
+						Promise.resolve(
+							handle === "missing"
+								? null
+								: [{ id: "p1", title: "Col Product 1" }],
+						),
+					paginated: (handle: string) =>
+						Promise.resolve(
+							handle === "missing"
+								? null
+								: [{ id: "p1", title: "Col Product 1" }],
+						),
 					slugs: () => Promise.resolve(["p1-slug"]),
 				},
 			};
-			checkout = {
-				createUrl: () => "https://checkout.url",
-			};
 		},
 	};
 });
@@ -99,12 +132,15 @@ describe("Shop Router", () => {
 		return await res.json();
 	};
 
-	it("should throw error if x-shop-domain header is missing", async () => {
+	it("should reject requests without x-shop-domain header", async () => {
 		const req = new Request("http://localhost/info", {
 			method: "GET",
 		});
 		const res = await router.handler(req);
-		expect(res.status).toBe(500);
+		expect(res.status).toBe(400);
+		expect(((await res.json()) as { code: string }).code).toBe(
+			"SHOP_DOMAIN_MISSING",
+		);
 	});
 
 	it("should fetch store info", async () => {
@@ -113,15 +149,83 @@ describe("Shop Router", () => {
 	});
 
 	it("should fetch paginated products", async () => {
-		const res = (await callEndpoint(
-			"/products/paginated?page=2&limit=10",
-		)) as Array<{ page: number }>;
-		expect(res[0]?.page).toBe(2);
+		const res = (await callEndpoint("/products/paginated?page=2&limit=10")) as {
+			items: Array<{ page: number }>;
+			page: number;
+			hasNextPage: boolean;
+			nextCursor: string | null;
+		};
+		expect(res.items[0]?.page).toBe(2);
+		expect(res).toMatchObject({
+			page: 2,
+			hasNextPage: false,
+			nextCursor: null,
+		});
+	});
+
+	it("should reject malformed pagination cursors", async () => {
+		const res = (await callEndpoint("/collections/paginated?cursor=nope")) as {
+			status: number;
+			error: { code: string };
+		};
+		expect(res.status).toBe(400);
+		expect(res.error.code).toBe("INVALID_PAGINATION");
 	});
 
 	it("should handle product not found", async () => {
-		const res = (await callEndpoint("/products/missing")) as { status: number };
-		expect(res.status).toBe(500); // Or 404 depending on how better-call handles thrown errors, usually 500 for generic Error unless caught
+		const res = (await callEndpoint("/products/missing")) as {
+			status: number;
+			error: { code: string; details: { handle: string } };
+		};
+		expect(res.status).toBe(404);
+		expect(res.error.code).toBe("PRODUCT_NOT_FOUND");
+		expect(res.error.details.handle).toBe("missing");
+	});
+
+	it("should map upstream rate limiting to 429", async () => {
+		const res = (await callEndpoint("/collections/throttled")) as {
+			status: number;
+			error: { code: string };
+		};
+		expect(res.status).toBe(429);
+		expect(res.error.code).toBe("UPSTREAM_RATE_LIMITED");
+	});
+
+	it("should map unreachable stores to 502", async () => {
+		const res = (await callEndpoint("/collections/down")) as {
+			status: number;
+			error: { code: string };
+		};
+		expect(res.status).toBe(502);
+		expect(res.error.code).toBe("UPSTREAM_UNREACHABLE");
+		// The upstream error is not serialized into the body.
+		expect(Object.keys(res.error).sort()).toEqual(["code", "message"]);
+	});
+
+	it("should map upstream timeouts to 504", async () => {
+		const res = (await callEndpoint("/collections/slow")) as {
+			status: number;
+			error: { code: string };
+		};
+		expect(res.status).toBe(504);
+		expect(res.error.code).toBe("UPSTREAM_TIMEOUT");
+	});
+
+	it("should report missing collections when listing their products", async () => {
+		for (const path of [
+			"/collections/missing/products/all",
+			"/collections/missing/products/paginated",
+		]) {
+			const res = (await callEndpoint(path)) as {
+				status: number;
+				error: { code: string; details: { handle: string } };
+			};
+			expect(res.status).toBe(404);
+			expect(res.error).toMatchObject({
+				code: "COLLECTION_NOT_FOUND",
+				details: { handle: "missing" },
+			});
+		}
 	});
 
 	it("should find existing product", async () => {
@@ -147,7 +251,9 @@ describe("Shop Router", () => {
 		const res = (await callEndpoint("/checkout/url", "POST", payload)) as {
 			url: string;
 		};
-		expect(res.url).toBe("https://checkout.url");
+		expect(res.url).toStartWith(
+			"https://mock.myshopify.com/cart/123:1?checkout%5Bemail%5D=test%40example.com",
+		);
 	});
 
 	it("should validate checkout payload", async () => {
@@ -160,4 +266,38 @@ describe("Shop Router", () => {
 		};
 		expect(res.status).toBe(400); // Zod validation error
 	});
+
+	it("should publish component schemas in the OpenAPI spec", async () => {
+		type Content = Record<string, { schema: unknown }>;
+		type Operation = {
+			requestBody?: { content: Content };
+			responses: Record<string, { content?: Content }>;
+		};
+		const spec = (await callEndpoint("/api/reference/openapi.json")) as {
+			components: { schemas: Record<string, { properties?: object }> };
+			paths: Record<string, Record<string, Operation>>;
+		};
+		expect(Object.keys(spec.components.schemas)).toEqual(
+			expect.arrayContaining(["Product", "Variant", "Collection", "StoreInfo"]),
+		);
+		expect(spec.components.schemas.Product?.properties).toMatchObject({
+			images: { items: { $ref: "#/components/schemas/Image" } },
+		});
+		const product = spec.paths["/products/{handle}"]?.get;
+		expect(product?.responses[200]?.content?.["application/json"]).toEqual({
+			schema: { $ref: "#/components/schemas/Product" },
+		});
+		const checkout = spec.paths["/checkout/url"]?.post;
+		expect(checkout?.requestBody?.content["application/json"]).toEqual({
+			schema: { $ref: "#/components/schemas/CheckoutBody" },
+		});
+	});
+
+	it("should serve the API reference page", async () => {
+		const res = await router.handler(
+			new Request("http://localhost/api/reference"),
+		);
+		expect(res.headers.get("content-type")).toContain("text/html");
+		expect(await res.text()).toContain("#/components/schemas/Product");
+	});
 });
@@ -0,0 +1,141 @@
+import { afterAll, describe, expect, it, mock } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const variant = (id: string, price: number, available = true) => ({
+	platformId: id,
+	title: `Variant ${id}`,
+	price,
+	available,
+});
+
+let products = [
+	{
+		platformId: "p1",
+		handle: "linen-shirt",
+		title: "Linen Shirt",
+		price: 40,
+		available: true,
+		variants: [variant("v1", 40), variant("v2", 40)],
+	},
+	{
+		platformId: "p2",
+		handle: "wool-sweater",
+		title: "Wool Sweater",
+		price: 90,
+		available: true,
+		variants: [variant("v3", 90)],
+	},
+];
+let collections = [{ id: "c1", handle: "summer", title: "Summer" }];
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = { all: () => Promise.resolve(products) };
+			collections = { all: () => Promise.resolve(collections) };
+		},
+	};
+});
+
+import { makeSnapshotStore } from "../src/shop/snapshots";
+import { createFileStore } from "../src/shop/storage";
+import { betterShop } from "../src/shop-service";
+
+describe("Catalog snapshots", () => {
+	const router = betterShop();
+
+	const call = async (path: string, method = "GET") => {
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				method,
+				headers: { "x-shop-domain": "snapshots.myshopify.com" },
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as unknown };
+	};
+
+	it("diffs the latest snapshot against the previous one", async () => {
+		const first = await call("/snapshots", "POST");
+		expect(first.body).toMatchObject({
+			domain: "snapshots.myshopify.com",
+			version: 1,
+			productCount: 2,
+			collectionCount: 1,
+		});
+
+		products = [
+			{
+				...(products[0] as (typeof products)[number]),
+				variants: [variant("v1", 35), variant("v2", 40, false)],
+			},
+			{
+				platformId: "p3",
+				handle: "silk-scarf",
+				title: "Silk Scarf",
+				price: 25,
+				available: true,
+				variants: [variant("v4", 25)],
+			},
+		];
+		collections = [...collections, { id: "c2", handle: "sale", title: "Sale" }];
+		await call("/snapshots", "POST");
+
+		const { status, body } = await call("/snapshots/diff");
+		expect(status).toBe(200);
+		expect(body).toMatchObject({
+			from: { version: 1 },
+			to: { version: 2 },
+			products: {
+				added: [{ id: "p3", handle: "silk-scarf", title: "Silk Scarf" }],
+				removed: [{ id: "p2", handle: "wool-sweater", title: "Wool Sweater" }],
+			},
+			priceChanges: [{ productId: "p1", variantId: "v1", from: 40, to: 35 }],
+			stock: {
+				outOfStock: [{ productId: "p1", variantId: "v2" }],
+				backInStock: [],
+			},
+			collections: {
+				added: [{ id: "c2", handle: "sale", title: "Sale" }],
+				removed: [],
+				updated: [],
+			},
+		});
+
+		const versions = (await call("/snapshots")).body as { version: number }[];
+		expect(versions.map((summary) => summary.version)).toEqual([1, 2]);
+	});
+
+	it("reports missing snapshot versions", async () => {
+		const { status, body } = await call("/snapshots/diff?from=1&to=9");
+		expect(status).toBe(404);
+		expect((body as { code: string }).code).toBe("SNAPSHOT_NOT_FOUND");
+	});
+
+	const dirs: string[] = [];
+	afterAll(async () => {
+		for (const dir of dirs) await rm(dir, { recursive: true, force: true });
+	});
+
+	it("keeps the newest snapshots in a file store", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "better-shop-snapshots-"));
+		dirs.push(dir);
+		const catalog = { products: [], collections: [] };
+		const snapshots = makeSnapshotStore({
+			store: createFileStore({ dir }),
+			maxSnapshots: 2,
+		});
+		await Promise.all([
+			snapshots.save("a.com", catalog),
+			snapshots.save("a.com", catalog),
+			snapshots.save("a.com", catalog),
+		]);
+
+		const reopened = makeSnapshotStore({ store: createFileStore({ dir }) });
+		const versions = await reopened.list("a.com");
+		expect(versions.map((summary) => summary.version)).toEqual([2, 3]);
+		expect(await reopened.get("a.com", 1)).toBeUndefined();
+		expect((await reopened.get("a.com", 3))?.products).toEqual([]);
+	});
+});
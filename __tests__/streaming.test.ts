@@ -0,0 +1,177 @@
+import { describe, expect, it, mock } from "bun:test";
+
+const product = {
+	platformId: "p1",
+	handle: "linen-shirt",
+	title: "Linen Shirt",
+	bodyHtml: "<p>Breathable linen.</p>",
+	vendor: "Acme",
+	price: 40,
+	tags: ["summer"],
+	variants: [],
+};
+
+const seo = {
+	metaTitle: "Linen Shirt",
+	metaDescription: "Breathable linen.",
+	shortDescription: "Linen.",
+	longDescription: "Breathable linen.",
+	tags: ["linen"],
+	marketingCopy: "Stay cool.",
+};
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = {
+				find: (handle: string) =>
+					Promise.resolve(handle === product.handle ? product : null),
+				enrichedPrompts: (handle: string) =>
+					Promise.resolve({ system: "Enrich.", user: handle }),
+				generateSEOContent: () => Promise.resolve(seo),
+			};
+		},
+	};
+});
+
+import { createStreamingClient, type LlmStreamEventOf } from "../src/client";
+import {
+	createMockProvider,
+	createOpenAICompatibleProvider,
+	type LlmProvider,
+} from "../src/shop/providers";
+import { betterShop } from "../src/shop-service";
+
+const clientFor = (router: ReturnType<typeof betterShop>) =>
+	createStreamingClient({
+		baseURL: "http://localhost/",
+		headers: { "x-shop-domain": "stream.myshopify.com" },
+		customFetchImpl: ((input: string | URL, init?: RequestInit) =>
+			router.handler(new Request(String(input), init))) as typeof fetch,
+	});
+
+const collect = async <T>(events: AsyncIterable<LlmStreamEventOf<T>>) => {
+	const all: LlmStreamEventOf<T>[] = [];
+	for await (const event of events) all.push(event);
+	return all;
+};
+
+const deltas = <T>(events: LlmStreamEventOf<T>[]) =>
+	events.flatMap((event) => (event.type === "delta" ? [event.text] : []));
+
+describe("Streaming LLM endpoints", () => {
+	const provider = createMockProvider();
+	const client = clientFor(
+		betterShop({ llm: { provider, allowedModels: ["mock/small"] } }),
+	);
+
+	it("streams the partial JSON and ends with the structured result", async () => {
+		const events = await collect(client.streamProductSEO("linen-shirt"));
+		const result = events.at(-1);
+		if (result?.type !== "result") throw new Error("no result event");
+		const { data } = result;
+		expect(result.cached).toBe(false);
+		expect(deltas(events).length).toBeGreaterThan(1);
+		expect(JSON.parse(deltas(events).join(""))).toEqual(data);
+
+		const again = await collect(client.streamProductSEO("linen-shirt"));
+		expect(again).toEqual([{ type: "result", data, cached: true }]);
+	});
+
+	it("streams enriched text", async () => {
+		const events = await collect(
+			client.streamEnrichedProduct("linen-shirt", { outputFormat: "markdown" }),
+		);
+		const result = events.at(-1);
+		expect(result?.type).toBe("result");
+		expect(
+			result?.type === "result" ? result.data.enriched_content : undefined,
+		).toBe(deltas(events).join(""));
+		expect(result?.type === "result" && result.data.title).toBe("Linen Shirt");
+	});
+
+	it("reports errors as events", async () => {
+		expect(await collect(client.streamProductSEO("missing"))).toMatchObject([
+			{ type: "error", error: { status: 404, code: "PRODUCT_NOT_FOUND" } },
+		]);
+		expect(
+			await collect(client.streamProductSEO("linen-shirt", { model: "big" })),
+		).toMatchObject([
+			{ type: "error", error: { status: 400, code: "LLM_MODEL_NOT_ALLOWED" } },
+		]);
+	});
+
+	it("aborts the completion when the client disconnects", async () => {
+		const signals: AbortSignal[] = [];
+		const hanging: LlmProvider = {
+			name: "hanging",
+			complete: () => Promise.resolve(""),
+			stream: async function* (request) {
+				if (request.signal) signals.push(request.signal);
+				yield "Lin";
+				await new Promise((resolve) =>
+					request.signal?.addEventListener("abort", resolve),
+				);
+				yield "en";
+			},
+		};
+		const router = betterShop({ llm: { provider: hanging } });
+		const res = await router.handler(
+			new Request("http://localhost/products/linen-shirt/enriched/stream", {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					"x-shop-domain": "stream.myshopify.com",
+				},
+				body: "{}",
+			}),
+		);
+		const reader = res.body?.getReader();
+		expect(new TextDecoder().decode((await reader?.read())?.value)).toContain(
+			"event: delta",
+		);
+		await reader?.cancel();
+		expect(signals).toHaveLength(1);
+		expect(signals[0]?.aborted).toBe(true);
+	});
+
+	it("sends only the result when the provider cannot stream", async () => {
+		const events = await collect(
+			clientFor(betterShop()).streamProductSEO("linen-shirt"),
+		);
+		expect(events).toEqual([{ type: "result", data: seo, cached: false }]);
+	});
+
+	it("reads OpenAI-compatible token streams", async () => {
+		const chunks = ["Lin", "en ", "Shirt"].map(
+			(content) =>
+				`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`,
+		);
+		let sent: unknown;
+		let signal: AbortSignal | null | undefined;
+		const openai = createOpenAICompatibleProvider({
+			baseUrl: "http://localhost:8080/v1",
+			model: "local",
+			fetch: (async (_url: string, init?: RequestInit) => {
+				sent = JSON.parse(String(init?.body));
+				signal = init?.signal;
+				return new Response([...chunks, "data: [DONE]\n\n"].join(""));
+			}) as unknown as typeof fetch,
+		});
+		const disconnect = new AbortController();
+		const pieces: string[] = [];
+		for await (const piece of openai.stream?.({
+			task: "enrich",
+			system: "",
+			user: "",
+			json: false,
+			signal: disconnect.signal,
+		}) ?? []) {
+			pieces.push(piece);
+		}
+		expect(pieces).toEqual(["Lin", "en ", "Shirt"]);
+		expect(sent).toMatchObject({ model: "local", stream: true });
+		disconnect.abort();
+		expect(signal?.aborted).toBe(true);
+	});
+});
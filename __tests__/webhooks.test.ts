@@ -0,0 +1,226 @@
+import { describe, expect, it, mock } from "bun:test";
+
+let products = [
+	{
+		platformId: "p1",
+		handle: "linen-shirt",
+		title: "Linen Shirt",
+		price: 40,
+		available: false,
+		variants: [{ platformId: "v1", title: "M", price: 40, available: false }],
+	},
+];
+
+mock.module("shop-client", () => {
+	return {
+		ShopClient: class MockShopClient {
+			products = { all: () => Promise.resolve(products) };
+			collections = { all: () => Promise.resolve([]) };
+		},
+	};
+});
+
+import { signWebhookPayload } from "../src/shop/webhooks";
+import { betterShop } from "../src/shop-service";
+
+type Sent = { url: string; headers: Headers; body: string };
+
+type Subscription = { id: string; secret?: string };
+
+type Delivery = {
+	attempt: number;
+	status: string;
+	responseStatus?: number;
+	nextAttemptAt?: string;
+};
+
+describe("Webhooks", () => {
+	const sent: Sent[] = [];
+	let failures = 1;
+	const router = betterShop({
+		webhooks: {
+			retryDelay: 5,
+			maxAttempts: 3,
+			lookup: async (hostname) =>
+				hostname.endsWith(".internal.example.com")
+					? ["10.0.0.7"]
+					: ["93.184.215.14"],
+			fetch: (async (url: string | URL, init: RequestInit) => {
+				if (String(url) === "https://moved.example.com/hooks") {
+					return Response.redirect("https://admin.internal.example.com/", 302);
+				}
+				sent.push({
+					url: String(url),
+					headers: new Headers(init.headers),
+					body: String(init.body),
+				});
+				return new Response(null, { status: failures-- > 0 ? 500 : 204 });
+			}) as unknown as typeof fetch,
+		},
+	});
+
+	const call = async <T = unknown>(
+		path: string,
+		init?: { method?: string; body?: unknown; domain?: string },
+	) => {
+		const res = await router.handler(
+			new Request(`http://localhost${path}`, {
+				method: init?.method ?? "GET",
+				headers: {
+					"x-shop-domain": init?.domain ?? "hooks.myshopify.com",
+					"content-type": "application/json",
+				},
+				body: init?.body ? JSON.stringify(init.body) : undefined,
+			}),
+		);
+		return { status: res.status, body: (await res.json()) as T };
+	};
+
+	it("signs deliveries and retries failed attempts", async () => {
+		const { body: subscription } = await call<Subscription>("/webhooks", {
+			method: "POST",
+			body: {
+				url: "https://example.com/hooks",
+				secret: "restock-secret",
+				events: ["variant.back_in_stock"],
+			},
+		});
+		expect(subscription.secret).toBeUndefined();
+
+		const baseline = await call("/webhooks/poll", { method: "POST" });
+		expect(baseline.body).toMatchObject({ events: 0, deliveries: 0 });
+
+		products = [
+			{
+				...(products[0] as (typeof products)[number]),
+				price: 35,
+				variants: [
+					{ platformId: "v1", title: "M", price: 35, available: true },
+				],
+			},
+		];
+		const poll = await call("/webhooks/poll", { method: "POST" });
+		// The price change has no subscriber, the restock does.
+		expect(poll.body).toMatchObject({ events: 2, deliveries: 1 });
+
+		await Bun.sleep(50);
+		expect(sent).toHaveLength(2);
+		const [first, second] = sent as [Sent, Sent];
+		expect(first.body).toBe(second.body);
+		expect(JSON.parse(second.body)).toMatchObject({
+			type: "variant.back_in_stock",
+			domain: "hooks.myshopify.com",
+			data: { productId: "p1", variantId: "v1" },
+		});
+		const signature = second.headers.get("x-webhook-signature") ?? "";
+		const timestamp = Number(signature.match(/^t=(\d+)/)?.[1]);
+		expect(signature).toBe(
+			signWebhookPayload("restock-secret", second.body, timestamp),
+		);
+
+		const { body: deliveries } = await call<Delivery[]>(
+			`/webhooks/${subscription.id}/deliveries`,
+		);
+		expect(deliveries.map((d) => [d.attempt, d.status])).toEqual([
+			[1, "failed"],
+			[2, "succeeded"],
+		]);
+		expect(deliveries[0]?.responseStatus).toBe(500);
+		expect(deliveries[0]?.nextAttemptAt).toBeString();
+	});
+
+	it("scopes subscriptions to their domain", async () => {
+		const { body: subscriptions } = await call<Subscription[]>("/webhooks");
+		const id = subscriptions[0]?.id;
+		const other = await call<{ code: string }>(`/webhooks/${id}/deliveries`, {
+			domain: "other.myshopify.com",
+		});
+		expect(other.status).toBe(404);
+		expect(other.body.code).toBe("WEBHOOK_NOT_FOUND");
+
+		expect((await call(`/webhooks/${id}`, { method: "DELETE" })).status).toBe(
+			200,
+		);
+		expect((await call("/webhooks")).body).toEqual([]);
+	});
+
+	it("validates subscriptions", async () => {
+		const { status } = await call("/webhooks", {
+			method: "POST",
+			body: { url: "not a url", secret: "restock-secret", events: [] },
+		});
+		expect(status).toBe(400);
+	});
+
+	it("refuses targets that are not public https URLs", async () => {
+		for (const [url, reason] of [
+			["http://example.com/hooks", "url"],
+			["https://example.com:8443/hooks", "url"],
+			["https://admin.internal.example.com/hooks", "private-address"],
+		]) {
+			const { status, body } = await call("/webhooks", {
+				method: "POST",
+				body: { url, secret: "restock-secret", events: ["product.created"] },
+			});
+			expect(status).toBe(400);
+			expect(body).toMatchObject({
+				code: "WEBHOOK_URL_FORBIDDEN",
+				details: { reason },
+			});
+		}
+	});
+
+	it("keeps every concurrent subscription of a domain", async () => {
+		const domain = "busy.myshopify.com";
+		await Promise.all(
+			[1, 2, 3].map((n) =>
+				call("/webhooks", {
+					method: "POST",
+					domain,
+					body: {
+						url: `https://example.com/hooks/${n}`,
+						secret: "restock-secret",
+						events: ["product.created"],
+					},
+				}),
+			),
+		);
+		expect(
+			(await call<Subscription[]>("/webhooks", { domain })).body,
+		).toHaveLength(3);
+	});
+
+	it("does not follow redirects", async () => {
+		const domain = "moved.myshopify.com";
+		const { body: subscription } = await call<Subscription>("/webhooks", {
+			method: "POST",
+			domain,
+			body: {
+				url: "https://moved.example.com/hooks",
+				secret: "restock-secret",
+				events: ["product.created"],
+			},
+		});
+		await call("/webhooks/poll", { method: "POST", domain });
+		products = [
+			...products,
+			{
+				...(products[0] as (typeof products)[number]),
+				platformId: "p2",
+				handle: "new",
+			},
+		];
+		const poll = await call("/webhooks/poll", { method: "POST", domain });
+		expect(poll.body).toMatchObject({ deliveries: 1 });
+		await Bun.sleep(20);
+		const { body: deliveries } = await call<(Delivery & { error?: string })[]>(
+			`/webhooks/${subscription.id}/deliveries`,
+			{ domain },
+		);
+		expect(deliveries[0]).toMatchObject({
+			status: "failed",
+			error: "Target is not allowed (redirect)",
+		});
+		expect(deliveries[0]?.responseStatus).toBeUndefined();
+	});
+});
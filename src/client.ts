@@ -0,0 +1,117 @@
+import { type ClientOptions, createClient } from "better-call/client";
+import type {
+	EnrichBodySchema,
+	LlmBodySchema,
+	ProductSchema,
+	SEOContentSchema,
+} from "./shop/schemas";
+import { type LlmStreamEvent, readEventData } from "./shop/streaming";
+import type { betterShop } from "./shop-service";
+
+/** A streaming LLM event whose `result` carries `T`. */
+export type LlmStreamEventOf<T> =
+	| Exclude<LlmStreamEvent, { type: "result" }>
+	| { type: "result"; data: T; cached: boolean };
+
+/**
+ * The options of `createClient`, e.g. `headers` with `x-shop-domain` or
+ * `customFetchImpl`.
+ */
+export type StreamingClientOptions = ClientOptions;
+
+/**
+ * Typed helpers for the streaming LLM endpoints, built on `createClient`
+ * from `better-call/client` with the same options. That client reads every
+ * successful response as a whole, so the event stream is taken from the
+ * response before it does, and each call yields the events as they arrive.
+ * A request rejected before the stream starts, e.g. with
+ * `LLM_MODEL_NOT_ALLOWED`, yields a single `error` event.
+ */
+export const createStreamingClient = (options: StreamingClientOptions) => {
+	const client = createClient<ReturnType<typeof betterShop>>(options);
+
+	async function* stream<T>(
+		path:
+			| "@post/products/:handle/enriched/stream"
+			| "@post/products/:handle/seo/stream",
+		handle: string,
+		body: typeof EnrichBodySchema.infer,
+		signal?: AbortSignal,
+	): AsyncGenerator<LlmStreamEventOf<T>> {
+		const headers = new Headers(options.headers);
+		headers.set("accept", "text/event-stream");
+		let events: ReadableStream<Uint8Array> | null = null;
+		const { error } = await client(path, {
+			params: { handle },
+			body,
+			headers,
+			signal,
+			throw: false,
+			onResponse: async (context) => {
+				const replaced = await options.onResponse?.(context);
+				const response =
+					replaced instanceof Response
+						? replaced
+						: (replaced?.response ?? context.response);
+				if (!response.ok || !response.body) return response;
+				events = response.body;
+				return new Response(null, {
+					status: response.status,
+					headers: { "content-type": "application/json" },
+				});
+			},
+		});
+		if (error || !events) {
+			const { status, statusText, code, message, details } = (error ?? {
+				status: 500,
+				statusText: "The response has no body",
+			}) as {
+				status: number;
+				statusText: string;
+				code?: string;
+				message?: string;
+				details?: Record<string, unknown>;
+			};
+			yield {
+				type: "error",
+				error: {
+					status,
+					code: code ?? "INTERNAL_SERVER_ERROR",
+					message: message ?? statusText,
+					...(details ? { details } : {}),
+				},
+			};
+			return;
+		}
+		for await (const data of readEventData(events)) {
+			yield JSON.parse(data) as LlmStreamEventOf<T>;
+		}
+	}
+
+	return {
+		/** `POST /products/:handle/enriched/stream` */
+		streamEnrichedProduct: (
+			handle: string,
+			body: typeof EnrichBodySchema.infer = {},
+			init?: { signal?: AbortSignal },
+		) =>
+			stream<typeof ProductSchema.infer & { enriched_content?: unknown }>(
+				"@post/products/:handle/enriched/stream",
+				handle,
+				body,
+				init?.signal,
+			),
+		/** `POST /products/:handle/seo/stream` */
+		streamProductSEO: (
+			handle: string,
+			body: typeof LlmBodySchema.infer = {},
+			init?: { signal?: AbortSignal },
+		) =>
+			stream<typeof SEOContentSchema.infer>(
+				"@post/products/:handle/seo/stream",
+				handle,
+				body,
+				init?.signal,
+			),
+	};
+};
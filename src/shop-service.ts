@@ -1,35 +1,610 @@
-import { createRouter } from "better-call";
+import { createRouter, type Endpoint } from "better-call";
 import type { ShopClientOptions } from "shop-client";
+import {
+	type AuthOptions,
+	buildAuthEndpoints,
+	type EndpointScope,
+	type EndpointScopeRule,
+	guardEndpoints,
+	makeApiKeys,
+} from "./shop/auth";
+import { buildBulkEndpoints } from "./shop/bulk";
+import { makeResponseCache, type ResponseCacheOptions } from "./shop/cache";
+import { buildCartEndpoints } from "./shop/cart";
+import {
+	buildCartStoreEndpoints,
+	type CartStoreOptions,
+	makeCartStore,
+} from "./shop/carts";
 import { buildCheckoutEndpoints } from "./shop/checkout";
 import { buildCollectionEndpoints } from "./shop/collections";
+import {
+	buildEnrichmentEndpoints,
+	type EnrichmentStoreOptions,
+	makeEnrichmentStore,
+} from "./shop/enrichments";
 import { makeGetShop } from "./shop/getShop";
+import { buildHealthEndpoints } from "./shop/health";
+import { canonicalDomains, type StoreIdentityOptions } from "./shop/identity";
+import {
+	buildJobEndpoints,
+	catalogJobHandlers,
+	type JobQueueOptions,
+	makeJobQueue,
+} from "./shop/jobs";
+import { type LlmOptions, makeLlmPolicy } from "./shop/llm";
+import { buildMultiStoreEndpoints } from "./shop/multi";
+import { buildOpenAPIEndpoints } from "./shop/openapi";
 import { buildProductEndpoints } from "./shop/products";
+import {
+	limitRequests,
+	makeRateLimiter,
+	type RateLimitOptions,
+} from "./shop/ratelimit";
+import type { ShopRegistryOptions } from "./shop/registry";
+import { makeProductSearch, type ProductSearchOptions } from "./shop/search";
+import {
+	buildSnapshotEndpoints,
+	makeSnapshotStore,
+	type SnapshotStoreOptions,
+} from "./shop/snapshots";
 import { buildStoreEndpoints } from "./shop/store";
 import { buildUtilsEndpoints } from "./shop/utils";
+import {
+	buildWebhookEndpoints,
+	makeWebhooks,
+	type WebhookOptions,
+} from "./shop/webhooks";
 
 export { configureRateLimit } from "shop-client";
-export { buildCheckoutEndpoints } from "./shop/checkout";
+export {
+	type ApiKey,
+	type ApiKeyDetails,
+	type ApiKeyScope,
+	type ApiKeys,
+	type AuthOptions,
+	apiKeyOf,
+	buildAuthEndpoints,
+	type EndpointScope,
+	type EndpointScopeRule,
+	type GuardedRequest,
+	guardEndpoints,
+	type IssuedApiKey,
+	makeApiKeys,
+} from "./shop/auth";
+export {
+	type BulkLine,
+	type BulkOperation,
+	buildBulkEndpoints,
+	streamBulk,
+} from "./shop/bulk";
+export {
+	type CachedResponse,
+	makeResponseCache,
+	type ResponseCache,
+	type ResponseCacheOptions,
+} from "./shop/cache";
+export {
+	buildCartEndpoints,
+	type CartIssue,
+	type CartItem,
+	type CartLine,
+	type CartOptions,
+	type CartValidation,
+	resolveCart,
+	variantIdOf,
+} from "./shop/cart";
+export {
+	buildCartStoreEndpoints,
+	type Cart,
+	type CartLineUpdate,
+	type CartStore,
+	type CartStoreOptions,
+	makeCartStore,
+	type StoredCart,
+} from "./shop/carts";
+export {
+	buildCheckoutEndpoints,
+	buildCheckoutUrl,
+	type CheckoutLinkOptions,
+	createCheckout,
+} from "./shop/checkout";
 export { buildCollectionEndpoints } from "./shop/collections";
-export { makeGetShop } from "./shop/getShop";
+export { forEachConcurrent, mapSettled } from "./shop/concurrency";
+export { type CronSchedule, nextCronRun, parseCron } from "./shop/cron";
+export {
+	type DomainPolicy,
+	type DomainPolicyOptions,
+	isPrivateAddress,
+	makeDomainPolicy,
+} from "./shop/domains";
+export {
+	buildEnrichmentEndpoints,
+	type EnrichmentFilter,
+	type EnrichmentOperation,
+	type EnrichmentStore,
+	type EnrichmentStoreOptions,
+	type EnrichmentSummary,
+	makeEnrichmentStore,
+	productContentHash,
+	type StoredEnrichment,
+} from "./shop/enrichments";
+export {
+	callUpstream,
+	describeError,
+	errorResponses,
+	isShopError,
+	type ShopErrorBody,
+	type ShopErrorCode,
+	shopError,
+	shopErrors,
+	toShopError,
+} from "./shop/errors";
+export { type GetShop, makeGetShop, shopDomainOf } from "./shop/getShop";
+export { buildHealthEndpoints } from "./shop/health";
+export {
+	canonicalDomains,
+	makeStoreIdentities,
+	type StoreIdentities,
+	type StoreIdentity,
+	type StoreIdentityOptions,
+} from "./shop/identity";
+export {
+	buildJobEndpoints,
+	catalogJobHandlers,
+	type Job,
+	type JobContext,
+	type JobHandler,
+	type JobInput,
+	type JobQueue,
+	type JobQueueOptions,
+	type JobSchedule,
+	type JobStatus,
+	type JobType,
+	makeJobQueue,
+} from "./shop/jobs";
+export {
+	type LlmCredentials,
+	type LlmOptions,
+	type LlmPolicy,
+	type LlmSettings,
+	makeLlmPolicy,
+} from "./shop/llm";
+export { buildMultiStoreEndpoints, type StoreFailure } from "./shop/multi";
+export {
+	buildOpenAPIEndpoints,
+	generateOpenAPISpec,
+	type OpenAPIOptions,
+} from "./shop/openapi";
+export {
+	decodeCursor,
+	encodeCursor,
+	type Page,
+	paginate,
+} from "./shop/pagination";
 export { buildProductEndpoints } from "./shop/products";
+export {
+	createMockProvider,
+	createOpenAICompatibleProvider,
+	type LlmOperations,
+	type LlmProvider,
+	type LlmRequest,
+	type LlmStream,
+	type LlmTask,
+	type MockProvider,
+	type OpenAICompatibleProviderOptions,
+	providerOperations,
+} from "./shop/providers";
+export {
+	limitRequests,
+	makeRateLimiter,
+	type RateLimitDecision,
+	type RateLimiter,
+	type RateLimitOptions,
+	type TokenBucketOptions,
+} from "./shop/ratelimit";
+export {
+	createShopRegistry,
+	normalizeShopDomain,
+	type ShopRegistry,
+	type ShopRegistryOptions,
+	type UpstreamLimit,
+} from "./shop/registry";
+export {
+	type CircuitState,
+	makeUpstreamGuard,
+	type ResilienceOptions,
+	type StoreHealth,
+	type UpstreamGuard,
+} from "./shop/resilience";
+export {
+	ApiKeyBodySchema,
+	ApiKeySchema,
+	arrayOf,
+	BatchEnrichBodySchema,
+	BatchLlmBodySchema,
+	BulkEnrichBodySchema,
+	BulkLineSchema,
+	BulkLlmBodySchema,
+	CartBodySchema,
+	CartIssueSchema,
+	CartSchema,
+	CartValidationSchema,
+	CheckoutBodySchema,
+	CollectionSchema,
+	EnrichBodySchema,
+	EnrichmentSummarySchema,
+	LlmBodySchema,
+	LlmStreamEventSchema,
+	MultiProductSearchBodySchema,
+	MultiStoreBodySchema,
+	type OpenAPISchemaName,
+	openAPIComponents,
+	openAPISchemas,
+	ProductSchema,
+	StoreInfoSchema,
+	StoreTypeBodySchema,
+	schemaRef,
+} from "./shop/schemas";
+export {
+	buildSearchIndex,
+	computeFacets,
+	type FacetedProductResult,
+	loadCatalogIndex,
+	makeProductSearch,
+	type ProductFacets,
+	type ProductFilters,
+	type ProductSearch,
+	type ProductSearchOptions,
+	type ProductSearchQuery,
+	type ProductSearchResult,
+	parseProductFilters,
+	searchProducts,
+	searchWithFacets,
+} from "./shop/search";
+export {
+	buildSnapshotEndpoints,
+	type CatalogDiff,
+	type CatalogSnapshot,
+	captureCatalog,
+	diffSnapshots,
+	makeSnapshotStore,
+	recordSnapshot,
+	type SnapshotStore,
+	type SnapshotStoreOptions,
+	type SnapshotSummary,
+} from "./shop/snapshots";
+export {
+	createFileStore,
+	createMemoryStore,
+	type KeyValueStore,
+} from "./shop/storage";
 export { buildStoreEndpoints } from "./shop/store";
+export {
+	eventStream,
+	type LlmStreamEvent,
+	readEventData,
+} from "./shop/streaming";
 export { buildUtilsEndpoints } from "./shop/utils";
+export {
+	buildWebhookEndpoints,
+	catalogEvents,
+	makeWebhooks,
+	pollCatalog,
+	signWebhookPayload,
+	type WebhookDelivery,
+	type WebhookEvent,
+	type WebhookEventType,
+	type WebhookOptions,
+	type WebhookSubscription,
+	type Webhooks,
+} from "./shop/webhooks";
 
-export const betterShop = (options?: ShopClientOptions) => {
-	const getShop = makeGetShop(options);
-	const { getInfo, clearInfoCache, determineStoreType } =
-		buildStoreEndpoints(getShop);
+export type BetterShopOptions = ShopClientOptions &
+	ShopRegistryOptions & {
+		/** Response cache for the read endpoints, e.g. `{ store: createMemoryStore() }`. */
+		cache?: ResponseCacheOptions;
+		/** Server-side LLM key, default model, allowed models and per-domain overrides. */
+		llm?: LlmOptions;
+		/** Where LLM results are stored for reuse, e.g. `{ store: createFileStore({ dir }) }`. */
+		enrichments?: EnrichmentStoreOptions;
+		/** Per-domain product search index settings for `/products/search`. */
+		search?: ProductSearchOptions;
+		/** Maximum number of stores the `/multi/*` endpoints query at once. */
+		multiStoreConcurrency?: number;
+		/** Default number of products the bulk LLM endpoints process at once. */
+		bulkConcurrency?: number;
+		/** Largest quantity per cart line; `/cart/validate` and `/checkout/url` clamp to it. */
+		maxCartQuantity?: number;
+		/** Storage and lifetime of the `/carts` carts, e.g. `{ store: createFileStore({ dir }), ttl }`. */
+		carts?: CartStoreOptions;
+		/** Where `/snapshots` keeps catalog snapshots, e.g. `{ store: createFileStore({ dir }) }`. */
+		snapshots?: SnapshotStoreOptions;
+		/** Subscription store and delivery settings for `/webhooks`. */
+		webhooks?: WebhookOptions;
+		/** Store and concurrency of the `/jobs` queue. */
+		jobs?: JobQueueOptions;
+		/** Require API keys, issued with `adminKey` through `/auth/keys`. Without it every endpoint is open. */
+		auth?: AuthOptions;
+		/** Token buckets per caller and per `x-shop-domain`. Without it inbound requests are not limited. */
+		rateLimit?: RateLimitOptions;
+		/** Storage and lifetime of the store identities `x-shop-domain` aliases are resolved to. */
+		identity?: StoreIdentityOptions;
+	};
+
+/**
+ * Crawls snapshot the catalog and dispatch webhooks, so they need `write`;
+ * the other job types call the LLM.
+ */
+const jobScope = (request: { body?: unknown }): EndpointScope =>
+	(request.body as { type?: unknown } | undefined)?.type === "catalog.crawl"
+		? "write"
+		: "llm";
+
+/** The API key scope each endpoint requires when `auth` is set. */
+const endpointScopes = {
+	getInfo: "read",
+	clearInfoCache: "write",
+	determineStoreType: "llm",
+	detectCountry: "read",
+	getStoreSlug: "read",
+	getProductSlug: "read",
+	resolveDomain: "read",
+	getAllProducts: "read",
+	getPaginatedProducts: "read",
+	getShowcasedProducts: "read",
+	getProductFilters: "read",
+	searchProducts: "read",
+	getProduct: "read",
+	getEnrichedProduct: "llm",
+	classifyProduct: "llm",
+	generateProductSEO: "llm",
+	streamEnrichedProduct: "llm",
+	streamProductSEO: "llm",
+	getAllCollections: "read",
+	getPaginatedCollections: "read",
+	getShowcasedCollections: "read",
+	getCollection: "read",
+	getCollectionProductsAll: "read",
+	getCollectionProductsPaginated: "read",
+	getCollectionProductSlugs: "read",
+	enrichCollectionProducts: "llm",
+	classifyCollectionProducts: "llm",
+	generateCollectionSEO: "llm",
+	enrichProducts: "llm",
+	classifyProducts: "llm",
+	generateProductsSEO: "llm",
+	listEnrichments: "read",
+	purgeEnrichments: "llm",
+	validateCart: "checkout",
+	createCheckoutUrl: "checkout",
+	createCart: "checkout",
+	getCart: "checkout",
+	updateCartLines: "checkout",
+	deleteCart: "checkout",
+	checkoutCart: "checkout",
+	getMultiStoreInfo: "read",
+	searchMultiStoreProducts: "read",
+	getStoreHealth: "read",
+	createSnapshot: "write",
+	listSnapshots: "read",
+	diffSnapshotVersions: "read",
+	createWebhook: "write",
+	listWebhooks: "read",
+	deleteWebhook: "write",
+	getWebhookDeliveries: "read",
+	pollWebhooks: "write",
+	createJob: jobScope,
+	listJobs: "read",
+	createJobSchedule: jobScope,
+	listJobSchedules: "read",
+	deleteJobSchedule: "llm",
+	getJob: "read",
+	cancelJob: "llm",
+	createApiKey: "admin",
+	listApiKeys: "admin",
+	getApiKey: "admin",
+	revokeApiKey: "admin",
+} as const satisfies Record<string, EndpointScopeRule>;
+
+/**
+ * Endpoints that answer from the service's own state, or resolve domains
+ * themselves, so an unknown `x-shop-domain` alias is not resolved for them.
+ */
+const localEndpoints = new Set([
+	"getStoreSlug",
+	"getProductSlug",
+	"resolveDomain",
+	"listEnrichments",
+	"purgeEnrichments",
+	"getCart",
+	"deleteCart",
+	"getStoreHealth",
+	"listSnapshots",
+	"diffSnapshotVersions",
+	"listWebhooks",
+	"deleteWebhook",
+	"getWebhookDeliveries",
+	"listJobs",
+	"listJobSchedules",
+	"deleteJobSchedule",
+	"getJob",
+	"cancelJob",
+	"createApiKey",
+	"listApiKeys",
+	"getApiKey",
+	"revokeApiKey",
+	"getOpenAPISpec",
+	"getOpenAPIReference",
+]);
+
+/** Whether a request is routed to `endpoint`, by method and path. */
+const routesTo = (endpoint: Endpoint) => {
+	const path = new RegExp(`^${endpoint.path.replace(/:[^/]+/g, "[^/]+")}$`);
+	const methods = [endpoint.options.method].flat();
+	return (request: Request) =>
+		(methods.includes("*") || methods.includes(request.method as never)) &&
+		path.test(new URL(request.url).pathname);
+};
+
+export const betterShop = (options?: BetterShopOptions) => {
+	const {
+		cache: cacheOptions,
+		llm: llmOptions,
+		enrichments: enrichmentOptions,
+		search: searchOptions,
+		multiStoreConcurrency,
+		bulkConcurrency,
+		maxCartQuantity,
+		carts: cartStoreOptions,
+		snapshots: snapshotOptions,
+		webhooks: webhookOptions,
+		jobs: jobOptions,
+		auth: authOptions,
+		rateLimit: rateLimitOptions,
+		...shopOptions
+	} = options ?? {};
+	const getShop = makeGetShop(shopOptions);
+	const cache = makeResponseCache(cacheOptions);
+	const search = makeProductSearch(searchOptions);
+	const apiKeys = authOptions
+		? makeApiKeys({
+				...authOptions,
+				canonicalDomain: getShop.identities.canonicalize,
+				knownDomain: getShop.identities.canonical,
+			})
+		: undefined;
+	const llm = makeLlmPolicy({
+		...llmOptions,
+		canonicalDomain: getShop.identities.canonical,
+		chargeCall: apiKeys?.chargeLlmCall,
+	});
+	const enrichments = makeEnrichmentStore(enrichmentOptions);
+	const { getInfo, clearInfoCache, determineStoreType } = buildStoreEndpoints(
+		getShop,
+		{ cache, llm },
+	);
 	const {
 		getAllProducts,
 		getPaginatedProducts,
 		getShowcasedProducts,
 		getProductFilters,
+		searchProducts,
 		getProduct,
 		getEnrichedProduct,
 		classifyProduct,
 		generateProductSEO,
-	} = buildProductEndpoints(getShop);
+		streamEnrichedProduct,
+		streamProductSEO,
+	} = buildProductEndpoints(getShop, {
+		cache,
+		search,
+		llm,
+		enrichments,
+	});
+	const {
+		getAllCollections,
+		getPaginatedCollections,
+		getShowcasedCollections,
+		getCollection,
+		getCollectionProductsAll,
+		getCollectionProductsPaginated,
+		getCollectionProductSlugs,
+	} = buildCollectionEndpoints(getShop, { cache, search });
+	const { validateCart } = buildCartEndpoints(getShop, {
+		search,
+		maxQuantity: maxCartQuantity,
+	});
+	const { createCheckoutUrl } = buildCheckoutEndpoints(getShop, {
+		search,
+		maxQuantity: maxCartQuantity,
+	});
+	const { createCart, getCart, updateCartLines, deleteCart, checkoutCart } =
+		buildCartStoreEndpoints(getShop, {
+			search,
+			maxQuantity: maxCartQuantity,
+			carts: makeCartStore(cartStoreOptions),
+		});
+	const { detectCountry, getStoreSlug, getProductSlug, resolveDomain } =
+		buildUtilsEndpoints(getShop, {
+			upstream: getShop.registry.upstream,
+			domainPolicy: getShop.registry.domainPolicy,
+			identities: getShop.identities,
+		});
+	const { getStoreHealth } = buildHealthEndpoints({
+		upstream: getShop.registry.upstream,
+		identities: getShop.identities,
+	});
+	const {
+		enrichCollectionProducts,
+		classifyCollectionProducts,
+		generateCollectionSEO,
+		enrichProducts,
+		classifyProducts,
+		generateProductsSEO,
+	} = buildBulkEndpoints(getShop, {
+		concurrency: bulkConcurrency,
+		llm,
+		enrichments,
+	});
+	const { listEnrichments, purgeEnrichments } = buildEnrichmentEndpoints({
+		enrichments,
+	});
+	const { getMultiStoreInfo, searchMultiStoreProducts } =
+		buildMultiStoreEndpoints(getShop, {
+			search,
+			concurrency: multiStoreConcurrency,
+		});
+	const snapshots = makeSnapshotStore(snapshotOptions);
+	const webhooks = makeWebhooks(webhookOptions);
+	const { createSnapshot, listSnapshots, diffSnapshotVersions } =
+		buildSnapshotEndpoints(getShop, { snapshots });
+	const {
+		createWebhook,
+		listWebhooks,
+		deleteWebhook,
+		getWebhookDeliveries,
+		pollWebhooks,
+	} = buildWebhookEndpoints(getShop, { webhooks, snapshots });
 	const {
+		createJob,
+		listJobs,
+		createJobSchedule,
+		listJobSchedules,
+		deleteJobSchedule,
+		getJob,
+		cancelJob,
+	} = buildJobEndpoints(getShop, {
+		jobs: makeJobQueue(
+			catalogJobHandlers({
+				shopFor: getShop.registry.get,
+				snapshots,
+				webhooks,
+				llm,
+			}),
+			jobOptions,
+		),
+	});
+
+	const endpoints = {
+		getInfo,
+		clearInfoCache,
+		determineStoreType,
+		detectCountry,
+		getStoreSlug,
+		getProductSlug,
+		resolveDomain,
+		getAllProducts,
+		getPaginatedProducts,
+		getShowcasedProducts,
+		getProductFilters,
+		searchProducts,
+		getProduct,
+		getEnrichedProduct,
+		classifyProduct,
+		generateProductSEO,
+		streamEnrichedProduct,
+		streamProductSEO,
 		getAllCollections,
 		getPaginatedCollections,
 		getShowcasedCollections,
@@ -37,48 +612,84 @@ export const betterShop = (options?: ShopClientOptions) => {
 		getCollectionProductsAll,
 		getCollectionProductsPaginated,
 		getCollectionProductSlugs,
-	} = buildCollectionEndpoints(getShop);
-	const { createCheckoutUrl } = buildCheckoutEndpoints(getShop);
-	const { detectCountry, getStoreSlug, getProductSlug } =
-		buildUtilsEndpoints(getShop);
+		enrichCollectionProducts,
+		classifyCollectionProducts,
+		generateCollectionSEO,
+		enrichProducts,
+		classifyProducts,
+		generateProductsSEO,
+		listEnrichments,
+		purgeEnrichments,
+		validateCart,
+		createCheckoutUrl,
+		createCart,
+		getCart,
+		updateCartLines,
+		deleteCart,
+		checkoutCart,
+		getMultiStoreInfo,
+		searchMultiStoreProducts,
+		getStoreHealth,
+		createSnapshot,
+		listSnapshots,
+		diffSnapshotVersions,
+		createWebhook,
+		listWebhooks,
+		deleteWebhook,
+		getWebhookDeliveries,
+		pollWebhooks,
+		createJob,
+		listJobs,
+		createJobSchedule,
+		listJobSchedules,
+		deleteJobSchedule,
+		getJob,
+		cancelJob,
+	};
+	const routed = apiKeys
+		? guardEndpoints(
+				{ ...endpoints, ...buildAuthEndpoints({ apiKeys }) },
+				apiKeys,
+				endpointScopes,
+			)
+		: endpoints;
+	const { getOpenAPISpec, getOpenAPIReference } = buildOpenAPIEndpoints(
+		routed,
+		{ path: "/api/reference" },
+	);
 
-	return createRouter(
-		{
-			getInfo,
-			clearInfoCache,
-			determineStoreType,
-			detectCountry,
-			getStoreSlug,
-			getProductSlug,
-			getAllProducts,
-			getPaginatedProducts,
-			getShowcasedProducts,
-			getProductFilters,
-			getProduct,
-			getEnrichedProduct,
-			classifyProduct,
-			generateProductSEO,
-			getAllCollections,
-			getPaginatedCollections,
-			getShowcasedCollections,
-			getCollection,
-			getCollectionProductsAll,
-			getCollectionProductsPaginated,
-			getCollectionProductSlugs,
-			createCheckoutUrl,
-		},
-		{
-			openapi: {
-				disabled: false,
-				path: "/api/reference",
-				scalar: {
-					title: "Better Shop API",
-					version: "1.0.0",
-					description:
-						"Type-safe endpoints for Shopify products, collections, store info, and checkout",
-					theme: "dark",
-				},
-			},
-		},
+	const routes = { ...routed, getOpenAPISpec, getOpenAPIReference };
+	const router = createRouter(
+		routes,
+		// The reference is served by buildOpenAPIEndpoints, which adds the
+		// component schemas the built-in generator leaves out.
+		{ openapi: { disabled: true } },
 	);
+	const local = Object.entries(routes)
+		.filter(([name]) => localEndpoints.has(name))
+		.map(([, endpoint]) => routesTo(endpoint as Endpoint));
+	// Only requests that reach a store may resolve a new alias, and with
+	// `auth` only when their key may reach the domain.
+	const handler = canonicalDomains(router.handler, getShop.identities, {
+		accepts: async (request) =>
+			!local.some((matches) => matches(request)) &&
+			(!apiKeys ||
+				(await apiKeys.admits(
+					request.headers,
+					request.headers.get("x-shop-domain") ?? "",
+				))),
+	});
+	return {
+		...router,
+		handler: rateLimitOptions
+			? limitRequests(
+					handler,
+					makeRateLimiter({
+						apiKeyIdOf: apiKeys?.identify,
+						canonicalDomain: getShop.identities.canonical,
+						...rateLimitOptions,
+					}),
+				)
+			: handler,
+	};
 };
@@ -0,0 +1,477 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { createEndpoint, type Endpoint } from "better-call";
+import { errorResponses, shopError } from "./errors";
+import { normalizeShopDomain } from "./registry";
+import {
+	ApiKeyBodySchema,
+	type ApiKeyDetailsSchema,
+	type ApiKeySchema,
+	arrayOf,
+	type IssuedApiKeySchema,
+	jsonRequestBody,
+	jsonResponse,
+	schemaRef,
+} from "./schemas";
+import { createMemoryStore, type KeyValueStore } from "./storage";
+
+export type ApiKey = typeof ApiKeySchema.infer;
+export type ApiKeyScope = ApiKey["scopes"][number];
+export type IssuedApiKey = typeof IssuedApiKeySchema.infer;
+export type ApiKeyDetails = typeof ApiKeyDetailsSchema.infer;
+
+/**
+ * What an endpoint requires: an API key scope, the admin key (`admin`) or
+ * nothing (`public`).
+ */
+export type EndpointScope = ApiKeyScope | "admin" | "public";
+
+/** The parts of an endpoint call a guard looks at. */
+export type GuardedRequest = {
+	headers?: Headers;
+	params?: Record<string, string>;
+	body?: unknown;
+};
+
+/**
+ * An endpoint's scope, or a function that picks it per request, e.g. from
+ * the body.
+ */
+export type EndpointScopeRule =
+	| EndpointScope
+	| ((request: GuardedRequest) => EndpointScope);
+
+export type AuthOptions = {
+	/**
+	 * Secret for the `/auth/keys` endpoints. It is also accepted by every
+	 * other endpoint, without domain or quota limits.
+	 */
+	adminKey: string;
+	/** Where keys and their daily usage are kept, e.g. `createFileStore({ dir })`. */
+	store?: KeyValueStore;
+	/**
+	 * Maps a key's allowlisted domains to their store's canonical domain, so
+	 * a key limited to `brand.com` also covers `brand.myshopify.com`. Domains
+	 * it fails for are compared as they are.
+	 */
+	canonicalDomain?: (domain: string) => string | Promise<string>;
+	/**
+	 * Maps a request's domain to its store's canonical domain from what is
+	 * already known, without contacting the store. Keys limited to domains
+	 * are matched through it, so they cannot make the service resolve
+	 * domains outside their allowlist.
+	 */
+	knownDomain?: (domain: string) => string;
+};
+
+export type ApiKeys = {
+	/** The returned `key` is the only time the secret is available. */
+	issue: (input: typeof ApiKeyBodySchema.infer) => Promise<IssuedApiKey>;
+	list: () => Promise<ApiKey[]>;
+	/** The key with today's usage; throws `API_KEY_NOT_FOUND`. */
+	get: (id: string) => Promise<ApiKeyDetails>;
+	revoke: (id: string) => Promise<boolean>;
+	/**
+	 * Check the key sent with `headers` against `scope`, its domain allowlist
+	 * and its daily quotas, and count the request. Resolves to the key, or
+	 * `undefined` for the admin key and public endpoints.
+	 */
+	authorize: (
+		headers: Headers | undefined,
+		scope: EndpointScope,
+		domains: string[],
+	) => Promise<ApiKey | undefined>;
+	/**
+	 * The id of the key sent with `headers`, `"admin"` for the admin key, or
+	 * `undefined` when none or an invalid one is sent.
+	 */
+	identify: (headers?: Headers) => Promise<string | undefined>;
+	/**
+	 * Whether the key sent with `headers` is valid and its domain allowlist
+	 * covers `domain`. Does not count the request.
+	 */
+	admits: (headers: Headers | undefined, domain: string) => Promise<boolean>;
+	/**
+	 * Count one LLM call against a key's `llmCallsPerDay` quota, or throw
+	 * `API_KEY_QUOTA_EXCEEDED` when it is used up.
+	 */
+	chargeLlmCall: (id: string) => Promise<void>;
+};
+
+type StoredApiKey = ApiKey & { secretHash: string };
+
+type StoredUsage = { requests: number; llmCalls: number };
+
+const USAGE_TTL = 2 * 24 * 60 * 60_000;
+
+const keyPrefix = "bsk_";
+const keyPattern = /^bsk_([a-f\d]{16})_([a-f\d]{48})$/;
+
+const apiKeyKey = (id: string) => `apikey|key|${id}`;
+const indexKey = "apikey|index";
+const usageKey = (id: string, date: string) => `apikey|usage|${id}|${date}`;
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest();
+
+const sameSecret = (a: string, b: string) =>
+	timingSafeEqual(sha256(a), sha256(b));
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const nextUtcMidnight = () => {
+	const now = new Date();
+	return new Date(
+		Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+	).toISOString();
+};
+
+/** The key sent as `authorization: Bearer <key>` or `x-api-key`. */
+export const apiKeyOf = (headers?: Headers) => {
+	const bearer = headers?.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+	return bearer ?? headers?.get("x-api-key") ?? undefined;
+};
+
+const publicKey = ({ secretHash: _, ...key }: StoredApiKey): ApiKey => key;
+
+/**
+ * Create the API key store. Secrets are kept as SHA-256 hashes, and usage
+ * is counted per key and UTC day.
+ */
+export const makeApiKeys = (options: AuthOptions): ApiKeys => {
+	const store = options.store ?? createMemoryStore();
+	const canonical = async (domain: string) => {
+		try {
+			return (await options.canonicalDomain?.(domain)) ?? domain;
+		} catch {
+			return domain;
+		}
+	};
+	const pending = new Map<string, Promise<unknown>>();
+
+	const serial = <T>(id: string, fn: () => Promise<T>) => {
+		const next = (pending.get(id) ?? Promise.resolve())
+			.catch(() => {})
+			.then(fn);
+		pending.set(id, next);
+		return next.finally(() => {
+			if (pending.get(id) === next) pending.delete(id);
+		});
+	};
+
+	const load = (id: string) => store.get<StoredApiKey>(apiKeyKey(id));
+
+	const found = async (id: string) => {
+		const key = await load(id);
+		if (!key) throw shopError("API_KEY_NOT_FOUND", { details: { id } });
+		return key;
+	};
+
+	const usageOf = async (id: string, date: string) =>
+		(await store.get<StoredUsage>(usageKey(id, date))) ?? {
+			requests: 0,
+			llmCalls: 0,
+		};
+
+	/**
+	 * Count a request or an LLM call, or throw when it would exceed a daily
+	 * quota. `llm` requests are refused once the LLM quota is used up, but
+	 * their LLM calls are counted one by one with `counter: "llmCalls"`.
+	 */
+	const consume = (
+		key: StoredApiKey,
+		counter: "requests" | "llmCalls",
+		llm: boolean,
+	) =>
+		serial(key.id, async () => {
+			const date = today();
+			const usage = await usageOf(key.id, date);
+			const exceeded = (
+				quota: "requestsPerDay" | "llmCallsPerDay",
+				used: number,
+			) => {
+				const limit = key.quotas?.[quota];
+				if (limit !== undefined && used >= limit) {
+					throw shopError("API_KEY_QUOTA_EXCEEDED", {
+						details: { quota, limit, resetAt: nextUtcMidnight() },
+					});
+				}
+			};
+			if (counter === "requests") {
+				exceeded("requestsPerDay", usage.requests);
+			}
+			if (llm) exceeded("llmCallsPerDay", usage.llmCalls);
+			await store.set(
+				usageKey(key.id, date),
+				{ ...usage, [counter]: usage[counter] + 1 },
+				USAGE_TTL,
+			);
+		});
+
+	/** Whether `key`'s allowlist covers `domain`, matched by store. */
+	const allows = async (key: StoredApiKey, domain: string) => {
+		if (!key.domains) return true;
+		// Resolving the allowlist first makes its stores' aliases known.
+		const allowed = await Promise.all(key.domains.map(canonical));
+		const target = normalizeShopDomain(domain);
+		return (
+			key.domains.includes(target) ||
+			allowed.includes(options.knownDomain?.(target) ?? target)
+		);
+	};
+
+	/** The stored key for a `bsk_<id>_<secret>` token. */
+	const verify = async (token: string) => {
+		const [, id, secret] = token.match(keyPattern) ?? [];
+		const key = id && secret ? await load(id) : undefined;
+		if (
+			!key ||
+			!secret ||
+			!timingSafeEqual(sha256(secret), Buffer.from(key.secretHash, "hex"))
+		) {
+			throw shopError("API_KEY_INVALID");
+		}
+		return key;
+	};
+
+	return {
+		issue: async ({ domains, ...input }) => {
+			const id = randomBytes(8).toString("hex");
+			const secret = randomBytes(24).toString("hex");
+			const key: StoredApiKey = {
+				id,
+				...input,
+				scopes: [...new Set(input.scopes)],
+				...(domains
+					? { domains: [...new Set(domains.map(normalizeShopDomain))] }
+					: {}),
+				createdAt: new Date().toISOString(),
+				secretHash: sha256(secret).toString("hex"),
+			};
+			await store.set(apiKeyKey(id), key);
+			await serial(indexKey, async () => {
+				const ids = (await store.get<string[]>(indexKey)) ?? [];
+				await store.set(indexKey, [...ids, id]);
+			});
+			return { ...publicKey(key), key: `${keyPrefix}${id}_${secret}` };
+		},
+		list: async () => {
+			const ids = (await store.get<string[]>(indexKey)) ?? [];
+			const keys = await Promise.all(ids.map(load));
+			return keys
+				.filter((key): key is StoredApiKey => key !== undefined)
+				.map(publicKey);
+		},
+		get: async (id) => {
+			const key = await found(id);
+			const date = today();
+			return {
+				...publicKey(key),
+				usage: { date, ...(await usageOf(id, date)) },
+			};
+		},
+		revoke: async (id) => {
+			await found(id);
+			await serial(indexKey, async () => {
+				const ids = (await store.get<string[]>(indexKey)) ?? [];
+				await store.set(
+					indexKey,
+					ids.filter((other) => other !== id),
+				);
+			});
+			await store.delete(apiKeyKey(id));
+			return true;
+		},
+		authorize: async (headers, scope, domains) => {
+			if (scope === "public") return;
+			const token = apiKeyOf(headers);
+			if (!token) throw shopError("API_KEY_MISSING");
+			if (sameSecret(token, options.adminKey)) return;
+			const key = await verify(token);
+			if (scope === "admin" || !key.scopes.includes(scope)) {
+				throw shopError("API_KEY_FORBIDDEN", { details: { scope } });
+			}
+			for (const domain of domains) {
+				if (!(await allows(key, domain))) {
+					throw shopError("API_KEY_FORBIDDEN", { details: { domain } });
+				}
+			}
+			await consume(key, "requests", scope === "llm");
+			return publicKey(key);
+		},
+		identify: async (headers) => {
+			const token = apiKeyOf(headers);
+			if (!token) return undefined;
+			if (sameSecret(token, options.adminKey)) return "admin";
+			return (await verify(token).catch(() => undefined))?.id;
+		},
+		admits: async (headers, domain) => {
+			const token = apiKeyOf(headers);
+			if (!token) return false;
+			if (sameSecret(token, options.adminKey)) return true;
+			const key = await verify(token).catch(() => undefined);
+			return key ? await allows(key, domain) : false;
+		},
+		chargeLlmCall: async (id) => {
+			const key = await load(id);
+			if (!key) throw shopError("API_KEY_INVALID");
+			await consume(key, "llmCalls", true);
+		},
+	};
+};
+
+const requestApiKeys = new AsyncLocalStorage<string>();
+
+/**
+ * The id of the API key the current request was authorized with, so LLM
+ * calls made while handling it are charged to that key.
+ */
+export const currentApiKeyId = () => requestApiKeys.getStore();
+
+/** Run `fn` on behalf of API key `id`, e.g. a job the key enqueued. */
+export const runAsApiKey = <T>(id: string | undefined, fn: () => T): T =>
+	id === undefined ? fn() : requestApiKeys.run(id, fn);
+
+/**
+ * The stores a request targets: `x-shop-domain`, a `:domain` path parameter
+ * and the `domains` of `/multi/*` bodies.
+ */
+const requestDomains = (ctx?: GuardedRequest) => {
+	const domains: string[] = [];
+	const header = ctx?.headers?.get("x-shop-domain");
+	if (header) domains.push(header);
+	if (ctx?.params?.domain) domains.push(ctx.params.domain);
+	const body = ctx?.body as { domains?: unknown } | undefined;
+	if (Array.isArray(body?.domains)) {
+		domains.push(
+			...body.domains.filter(
+				(domain): domain is string => typeof domain === "string",
+			),
+		);
+	}
+	return domains.map(normalizeShopDomain);
+};
+
+/**
+ * Wrap each endpoint so it only runs for requests whose API key grants
+ * `scopes[name]`, or the scope it picks for the request, and runs as that
+ * key for `currentApiKeyId`. The wrapped endpoints keep their path and options, so they
+ * can be passed to `createRouter` in place of the originals.
+ */
+export const guardEndpoints = <E extends Record<string, Endpoint>>(
+	endpoints: E,
+	apiKeys: ApiKeys,
+	scopes: Record<keyof E, EndpointScopeRule>,
+): E =>
+	Object.fromEntries(
+		Object.entries(endpoints).map(([name, endpoint]) => {
+			const rule = scopes[name as keyof E];
+			const guarded = async (ctx?: GuardedRequest) => {
+				const key = await apiKeys.authorize(
+					ctx?.headers,
+					typeof rule === "function" ? rule(ctx ?? {}) : rule,
+					requestDomains(ctx),
+				);
+				return await runAsApiKey(key?.id, () => endpoint(ctx));
+			};
+			return [
+				name,
+				Object.assign(guarded, {
+					path: endpoint.path,
+					options: endpoint.options,
+				}),
+			];
+		}),
+	) as E;
+
+export const buildAuthEndpoints = (options: { apiKeys: ApiKeys }) => {
+	const { apiKeys } = options;
+
+	const idParameter = {
+		in: "path" as const,
+		name: "id",
+		required: true,
+		schema: { type: "string" as const },
+	};
+
+	const adminErrors = [
+		"API_KEY_MISSING",
+		"API_KEY_INVALID",
+		"API_KEY_FORBIDDEN",
+	] as const;
+
+	const createApiKey = createEndpoint(
+		"/auth/keys",
+		{
+			method: "POST",
+			body: ApiKeyBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Issue an API key",
+					description:
+						"Requires the admin key. The response's `key` is the only time the secret is returned. Omit `domains` to allow every store and a quota to leave it unlimited.",
+					requestBody: jsonRequestBody("ApiKeyBody"),
+					responses: {
+						200: jsonResponse(schemaRef("IssuedApiKey")),
+						...errorResponses(...adminErrors),
+					},
+				},
+			},
+		},
+		async (ctx) => await apiKeys.issue(ctx.body),
+	);
+
+	const listApiKeys = createEndpoint(
+		"/auth/keys",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "List API keys",
+					responses: {
+						200: jsonResponse(arrayOf("ApiKey")),
+						...errorResponses(...adminErrors),
+					},
+				},
+			},
+		},
+		async () => await apiKeys.list(),
+	);
+
+	const getApiKey = createEndpoint(
+		"/auth/keys/:id",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "Get an API key with today's usage",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(schemaRef("ApiKeyDetails")),
+						...errorResponses(...adminErrors, "API_KEY_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) => await apiKeys.get(ctx.params.id),
+	);
+
+	const revokeApiKey = createEndpoint(
+		"/auth/keys/:id",
+		{
+			method: "DELETE",
+			metadata: {
+				openapi: {
+					summary: "Revoke an API key",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(schemaRef("Success")),
+						...errorResponses(...adminErrors, "API_KEY_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) => ({ success: await apiKeys.revoke(ctx.params.id) }),
+	);
+
+	return { createApiKey, listApiKeys, getApiKey, revokeApiKey };
+};
@@ -0,0 +1,268 @@
+import { createEndpoint } from "better-call";
+import type { ShopClient } from "shop-client";
+import { forEachConcurrent } from "./concurrency";
+import {
+	type EnrichmentStore,
+	enrichmentOperations,
+	enrichmentOptions,
+	makeEnrichmentStore,
+	withStoredEnrichment,
+} from "./enrichments";
+import {
+	callUpstream,
+	describeError,
+	errorResponses,
+	shopError,
+	upstreamErrors,
+} from "./errors";
+import { shopDomainOf } from "./getShop";
+import { type LlmPolicy, makeLlmPolicy } from "./llm";
+import {
+	BatchEnrichBodySchema,
+	BatchLlmBodySchema,
+	BulkEnrichBodySchema,
+	type BulkLineSchema,
+	BulkLlmBodySchema,
+	type EnrichBodySchema,
+	jsonRequestBody,
+	ndjsonResponse,
+} from "./schemas";
+
+export type BulkOperation = "enrich" | "classify" | "seo";
+
+export type BulkLine = typeof BulkLineSchema.infer;
+
+type BulkOptions = typeof EnrichBodySchema.infer;
+
+const DEFAULT_BULK_CONCURRENCY = 4;
+
+/**
+ * Run `run` for every handle and stream one NDJSON line per product as
+ * soon as it settles, in completion order, then a `summary` line. Failures
+ * become `error` lines and never end the stream. No new products are started
+ * once the client disconnects.
+ */
+export const streamBulk = (
+	handles: string[],
+	concurrency: number,
+	run: (handle: string) => Promise<unknown>,
+) => {
+	const encoder = new TextEncoder();
+	const disconnected = new AbortController();
+	const body = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const write = (line: BulkLine) => {
+				if (disconnected.signal.aborted) return;
+				controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+			};
+			let failed = 0;
+			await forEachConcurrent(
+				handles,
+				concurrency,
+				async (handle) => {
+					try {
+						const data = await callUpstream(() => run(handle));
+						if (data == null) {
+							throw shopError("PRODUCT_NOT_FOUND", { details: { handle } });
+						}
+						write({ type: "result", handle, data });
+					} catch (error) {
+						failed++;
+						write({ type: "error", handle, error: describeError(error) });
+					}
+				},
+				disconnected.signal,
+			);
+			write({
+				type: "summary",
+				total: handles.length,
+				succeeded: handles.length - failed,
+				failed,
+			});
+			if (!disconnected.signal.aborted) controller.close();
+		},
+		cancel() {
+			disconnected.abort();
+		},
+	});
+	return new Response(body, {
+		headers: {
+			"content-type": "application/x-ndjson",
+			"cache-control": "no-cache",
+		},
+	});
+};
+
+const operationDocs: Record<
+	BulkOperation,
+	{ collection: string; products: string }
+> = {
+	enrich: {
+		collection: "Enrich collection products",
+		products: "Enrich products",
+	},
+	classify: {
+		collection: "Classify collection products",
+		products: "Classify products",
+	},
+	seo: {
+		collection: "Generate SEO content for collection products",
+		products: "Generate SEO content for products",
+	},
+};
+
+export const buildBulkEndpoints = (
+	getShop: (headers?: Headers) => ShopClient,
+	options?: {
+		concurrency?: number;
+		llm?: LlmPolicy;
+		enrichments?: EnrichmentStore;
+	},
+) => {
+	const defaultConcurrency = options?.concurrency ?? DEFAULT_BULK_CONCURRENCY;
+	const llm = options?.llm ?? makeLlmPolicy();
+	const enrichments = options?.enrichments ?? makeEnrichmentStore();
+
+	/**
+	 * The runner for one product, reusing stored results. The LLM settings are
+	 * checked here, before the stream starts, so policy errors stay plain JSON.
+	 */
+	const storedRunner = (
+		operation: BulkOperation,
+		shop: ShopClient,
+		domain: string,
+		{ force, ...body }: BulkOptions,
+	) => {
+		const credentials = llm.resolve(domain, body);
+		const operations = llm.operations(shop, domain);
+		return async (handle: string) => {
+			const { result } = await withStoredEnrichment<unknown>(
+				enrichments,
+				shop,
+				{
+					domain,
+					handle,
+					operation,
+					provider: llm.provider(domain),
+					model: credentials.model,
+					options: enrichmentOptions(operation, body),
+				},
+				force,
+				(product) =>
+					enrichmentOperations[operation](
+						operations,
+						handle,
+						{ ...body, ...credentials },
+						product,
+					),
+			);
+			return result;
+		};
+	};
+
+	const collectionEndpoint = (operation: BulkOperation) =>
+		createEndpoint(
+			`/collections/:handle/${operation}`,
+			{
+				method: "POST",
+				body: operation === "enrich" ? BulkEnrichBodySchema : BulkLlmBodySchema,
+				metadata: {
+					openapi: {
+						summary: operationDocs[operation].collection,
+						description:
+							"Runs over every product in the collection and streams one NDJSON line per product as it finishes, followed by a summary line. Failed products are reported as `error` lines.",
+						parameters: [
+							{
+								in: "path",
+								name: "handle",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						requestBody: jsonRequestBody(
+							operation === "enrich" ? "BulkEnrichBody" : "BulkLlmBody",
+						),
+						responses: {
+							200: ndjsonResponse("BulkLine"),
+							...errorResponses(
+								...upstreamErrors,
+								"COLLECTION_NOT_FOUND",
+								"INVALID_HANDLE",
+								"LLM_KEY_REJECTED",
+								"LLM_MODEL_NOT_ALLOWED",
+							),
+						},
+					},
+				},
+			},
+			async (ctx) => {
+				const shop = getShop(ctx.headers);
+				const { handle } = ctx.params;
+				const { concurrency = defaultConcurrency, ...body } = ctx.body;
+				const run = storedRunner(
+					operation,
+					shop,
+					shopDomainOf(ctx.headers),
+					body,
+				);
+				// Resolve the collection first so a bad handle is a plain JSON error.
+				const products = await callUpstream(() =>
+					shop.collections.products.all(handle),
+				);
+				if (!products) {
+					throw shopError("COLLECTION_NOT_FOUND", { details: { handle } });
+				}
+				return streamBulk(
+					products.map((product) => product.handle),
+					concurrency,
+					run,
+				);
+			},
+		);
+
+	const productsEndpoint = (operation: BulkOperation) =>
+		createEndpoint(
+			`/products/${operation}`,
+			{
+				method: "POST",
+				body:
+					operation === "enrich" ? BatchEnrichBodySchema : BatchLlmBodySchema,
+				metadata: {
+					openapi: {
+						summary: operationDocs[operation].products,
+						description:
+							"Runs over the listed product handles and streams one NDJSON line per product as it finishes, followed by a summary line. Failed products, e.g. `PRODUCT_NOT_FOUND` or `LLM_REQUEST_FAILED`, are reported as `error` lines.",
+						requestBody: jsonRequestBody(
+							operation === "enrich" ? "BatchEnrichBody" : "BatchLlmBody",
+						),
+						responses: {
+							200: ndjsonResponse("BulkLine"),
+							...errorResponses(
+								"SHOP_DOMAIN_MISSING",
+								"LLM_KEY_REJECTED",
+								"LLM_MODEL_NOT_ALLOWED",
+							),
+						},
+					},
+				},
+			},
+			async (ctx) => {
+				const shop = getShop(ctx.headers);
+				const { handles, concurrency = defaultConcurrency, ...body } = ctx.body;
+				return streamBulk(
+					[...new Set(handles)],
+					concurrency,
+					storedRunner(operation, shop, shopDomainOf(ctx.headers), body),
+				);
+			},
+		);
+
+	return {
+		enrichCollectionProducts: collectionEndpoint("enrich"),
+		classifyCollectionProducts: collectionEndpoint("classify"),
+		generateCollectionSEO: collectionEndpoint("seo"),
+		enrichProducts: productsEndpoint("enrich"),
+		classifyProducts: productsEndpoint("classify"),
+		generateProductsSEO: productsEndpoint("seo"),
+	};
+};
@@ -0,0 +1,193 @@
+import { createHash } from "node:crypto";
+import { APIError } from "better-call";
+import { normalizeShopDomain } from "./registry";
+import type { KeyValueStore } from "./storage";
+
+export type ResponseCacheOptions = {
+	store: KeyValueStore;
+	/** Freshness lifetime of a cached response in milliseconds. */
+	ttl?: number;
+	/**
+	 * For endpoints that opt in, keep serving a response for this many
+	 * milliseconds after it went stale while it is refreshed in the background.
+	 */
+	staleWhileRevalidate?: number;
+	/**
+	 * For endpoints that opt in, serve a stale response for this many
+	 * milliseconds after it went stale when the upstream store errors.
+	 */
+	staleIfError?: number;
+};
+
+export type CacheableContext = {
+	path: string;
+	headers?: Headers;
+	params?: Record<string, unknown>;
+	query?: Record<string, unknown>;
+	setHeader: (key: string, value: string) => void;
+};
+
+export type CachedResponse<T = unknown> = {
+	body: T;
+	etag: string;
+	storedAt: number;
+};
+
+export type ResponseCacheCallOptions = {
+	/** Skip the cached value and reload (the fresh response is still stored). */
+	bypass?: boolean;
+	/** Enable stale-while-revalidate and stale-if-error for this endpoint. */
+	staleWhileRevalidate?: boolean;
+};
+
+export type ResponseCache = {
+	<T>(
+		ctx: CacheableContext,
+		load: () => Promise<T>,
+		options?: ResponseCacheCallOptions,
+	): Promise<T>;
+	/** Drop the cached response `ctx` would be served. */
+	purge: (ctx: CacheableContext) => Promise<void>;
+};
+
+const DEFAULT_RESPONSE_TTL = 60_000;
+
+const computeETag = (body: unknown) =>
+	`"${createHash("sha1")
+		.update(JSON.stringify(body) ?? "")
+		.digest("base64url")}"`;
+
+const matchesETag = (header: string | null | undefined, etag: string) => {
+	if (!header) return false;
+	return header
+		.split(",")
+		.map((tag) => tag.trim().replace(/^W\//, ""))
+		.some((tag) => tag === "*" || tag === etag);
+};
+
+const serializeValues = (values?: Record<string, unknown>) =>
+	Object.entries(values ?? {})
+		.filter(([key, value]) => value !== undefined && key !== "currency")
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+		.join("&");
+
+export const responseCacheKey = (ctx: CacheableContext) => {
+	const domain = ctx.headers?.get("x-shop-domain");
+	const currency = ctx.query?.currency;
+	return [
+		"response",
+		domain ? normalizeShopDomain(domain) : "-",
+		ctx.path,
+		// Called outside the router, `path` is the route template.
+		serializeValues(ctx.params),
+		typeof currency === "string" ? currency.toUpperCase() : "-",
+		serializeValues(ctx.query),
+	].join("|");
+};
+
+/**
+ * Create the response cache used by the read endpoints.
+ *
+ * Without a store the loader is called directly. With a store, responses
+ * are cached per domain, path, params, query and currency, tagged with `ETag`,
+ * `Cache-Control` and `Age`, and a matching `If-None-Match` is answered with
+ * a 304. Endpoints that opt into `staleWhileRevalidate` keep serving the last
+ * good response while it is refreshed, or while the upstream store errors.
+ */
+export const makeResponseCache = (
+	options?: ResponseCacheOptions,
+): ResponseCache => {
+	if (!options?.store) {
+		return Object.assign(
+			<T>(_ctx: CacheableContext, load: () => Promise<T>) => load(),
+			{ purge: async () => {} },
+		);
+	}
+	const {
+		store,
+		ttl = DEFAULT_RESPONSE_TTL,
+		staleWhileRevalidate = 0,
+		staleIfError = 0,
+	} = options;
+	const inFlight = new Map<string, Promise<CachedResponse>>();
+
+	const respond = <T>(
+		ctx: CacheableContext,
+		entry: CachedResponse<T>,
+		state: { hit: boolean; swr: boolean },
+	) => {
+		const age = Math.max(0, Date.now() - entry.storedAt);
+		const maxAge = Math.max(0, Math.floor((ttl - age) / 1000));
+		const directives = ["public", `max-age=${maxAge}`];
+		if (state.swr && staleWhileRevalidate > 0) {
+			directives.push(
+				`stale-while-revalidate=${Math.floor(staleWhileRevalidate / 1000)}`,
+			);
+		}
+		if (state.swr && staleIfError > 0) {
+			directives.push(`stale-if-error=${Math.floor(staleIfError / 1000)}`);
+		}
+		ctx.setHeader("ETag", entry.etag);
+		ctx.setHeader("Cache-Control", directives.join(", "));
+		ctx.setHeader("Age", String(Math.floor(age / 1000)));
+		ctx.setHeader("x-better-shop-cache", state.hit ? "HIT" : "MISS");
+		ctx.setHeader("x-better-shop-stale", age > ttl ? "true" : "false");
+		if (matchesETag(ctx.headers?.get("if-none-match"), entry.etag)) {
+			throw new APIError("NOT_MODIFIED");
+		}
+		return entry.body;
+	};
+
+	// Concurrent loads of the same key share one upstream call.
+	const refresh = <T>(key: string, load: () => Promise<T>, retain: number) => {
+		const pending = inFlight.get(key);
+		if (pending) return pending as Promise<CachedResponse<T>>;
+		const next = (async () => {
+			const body = await load();
+			const entry = { body, etag: computeETag(body), storedAt: Date.now() };
+			await store.set(key, entry, retain);
+			return entry;
+		})().finally(() => inFlight.delete(key));
+		inFlight.set(key, next);
+		return next;
+	};
+
+	const cache = async <T>(
+		ctx: CacheableContext,
+		load: () => Promise<T>,
+		cacheOptions?: ResponseCacheCallOptions,
+	) => {
+		const key = responseCacheKey(ctx);
+		const swr = cacheOptions?.staleWhileRevalidate === true;
+		const retain = swr
+			? ttl + Math.max(staleWhileRevalidate, staleIfError)
+			: ttl;
+		const cached = cacheOptions?.bypass
+			? undefined
+			: await store.get<CachedResponse<T>>(key);
+		if (cached) {
+			const age = Date.now() - cached.storedAt;
+			if (age <= ttl) return respond(ctx, cached, { hit: true, swr });
+			if (swr && age <= ttl + staleWhileRevalidate) {
+				refresh(key, load, retain).catch(() => {});
+				return respond(ctx, cached, { hit: true, swr });
+			}
+		}
+		try {
+			const entry = await refresh(key, load, retain);
+			return respond(ctx, entry, { hit: false, swr });
+		} catch (error) {
+			if (swr && cached && Date.now() - cached.storedAt <= ttl + staleIfError) {
+				return respond(ctx, cached, { hit: true, swr });
+			}
+			throw error;
+		}
+	};
+
+	return Object.assign(cache, {
+		purge: async (ctx: CacheableContext) => {
+			await store.delete(responseCacheKey(ctx));
+		},
+	});
+};
@@ -0,0 +1,170 @@
+import { createEndpoint } from "better-call";
+import type { ShopClient } from "shop-client";
+import { errorResponses, upstreamErrors } from "./errors";
+import { shopDomainOf } from "./getShop";
+import {
+	CartBodySchema,
+	type CartIssueSchema,
+	type CartLineSchema,
+	jsonRequestBody,
+	jsonResponse,
+	schemaRef,
+} from "./schemas";
+import {
+	loadCatalogIndex,
+	makeProductSearch,
+	type ProductSearch,
+	type SearchableProduct,
+} from "./search";
+
+export type CartItem = (typeof CartBodySchema.infer)["items"][number];
+export type CartLine = typeof CartLineSchema.infer;
+export type CartIssue = typeof CartIssueSchema.infer;
+
+export type CartValidation = {
+	/** `false` when an item is unknown or unavailable. */
+	valid: boolean;
+	currency: string | null;
+	/** The items that can be checked out, with clamped quantities. */
+	lines: CartLine[];
+	subtotal: number;
+	issues: CartIssue[];
+};
+
+export type CartOptions = {
+	/** The catalog index cache, shared with `/products/search`. */
+	search?: ProductSearch;
+	/** Largest quantity per line; larger quantities are clamped. */
+	maxQuantity?: number;
+};
+
+const DEFAULT_MAX_QUANTITY = 99;
+
+type CatalogVariant = NonNullable<SearchableProduct["variants"]>[number];
+
+/** The numeric id of a variant given as an id or `gid://shopify/ProductVariant/<id>`. */
+export const variantIdOf = (productVariantId: string) =>
+	productVariantId.replace(/^gid:\/\/shopify\/ProductVariant\//, "");
+
+const variantLookup = (products: SearchableProduct[]) => {
+	const variants = new Map<
+		string,
+		{ product: SearchableProduct; variant: CatalogVariant }
+	>();
+	for (const product of products) {
+		for (const variant of product.variants ?? []) {
+			variants.set(variant.id, { product, variant });
+			variants.set(variant.platformId, { product, variant });
+		}
+	}
+	return variants;
+};
+
+/**
+ * Resolve every item against the store's catalog index by `variantIdOf`.
+ * Unknown and unavailable variants are reported and left out of `lines`;
+ * quantities are clamped to `1..maxQuantity`. Prices are in the catalog's
+ * units for `currency`, as returned by `/products/all`.
+ */
+export const resolveCart = async (
+	shop: ShopClient,
+	domain: string,
+	cart: { items: CartItem[]; currency?: string },
+	options?: CartOptions,
+): Promise<CartValidation> => {
+	const search = options?.search ?? makeProductSearch();
+	const maxQuantity = options?.maxQuantity ?? DEFAULT_MAX_QUANTITY;
+	const index = await loadCatalogIndex(search, shop, domain, cart.currency);
+	const variants = variantLookup(index.products.map(({ product }) => product));
+
+	const lines: CartLine[] = [];
+	const issues: CartIssue[] = [];
+	let currency = cart.currency ?? null;
+	for (const {
+		productVariantId,
+		quantity: requested,
+		properties,
+	} of cart.items) {
+		const match = variants.get(variantIdOf(productVariantId));
+		if (!match) {
+			issues.push({
+				code: "VARIANT_NOT_FOUND",
+				productVariantId,
+				message: `Variant ${productVariantId} is not in the catalog`,
+			});
+			continue;
+		}
+		const { product, variant } = match;
+		if (!variant.available) {
+			issues.push({
+				code: "VARIANT_UNAVAILABLE",
+				productVariantId,
+				message: `${product.title} (${variant.title}) is sold out`,
+			});
+			continue;
+		}
+		const quantity = Math.min(Math.max(requested, 1), maxQuantity);
+		if (quantity !== requested) {
+			issues.push({
+				code: "QUANTITY_CLAMPED",
+				productVariantId,
+				message: `Quantity ${requested} was changed to ${quantity}`,
+				requested,
+				quantity,
+			});
+		}
+		currency ??= product.currency ?? null;
+		lines.push({
+			productVariantId,
+			productHandle: product.handle,
+			productTitle: product.title,
+			variantTitle: variant.title,
+			quantity,
+			unitPrice: variant.price,
+			linePrice: variant.price * quantity,
+			...(properties ? { properties } : {}),
+		});
+	}
+
+	return {
+		valid: issues.every((issue) => issue.code === "QUANTITY_CLAMPED"),
+		currency,
+		lines,
+		subtotal: lines.reduce((sum, line) => sum + line.linePrice, 0),
+		issues,
+	};
+};
+
+export const buildCartEndpoints = (
+	getShop: (headers?: Headers) => ShopClient,
+	options?: CartOptions,
+) => {
+	const search = options?.search ?? makeProductSearch();
+
+	const validateCart = createEndpoint(
+		"/cart/validate",
+		{
+			method: "POST",
+			body: CartBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Validate cart",
+					description:
+						"Resolves every `productVariantId` against the catalog, clamps quantities and prices the lines in the requested currency. Problems are listed in `issues`; `valid` is `false` when a variant is unknown or unavailable.",
+					requestBody: jsonRequestBody("CartBody"),
+					responses: {
+						200: jsonResponse(schemaRef("CartValidation")),
+						...errorResponses(...upstreamErrors),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			resolveCart(getShop(ctx.headers), shopDomainOf(ctx.headers), ctx.body, {
+				search,
+				maxQuantity: options?.maxQuantity,
+			}),
+	);
+
+	return { validateCart };
+};
@@ -0,0 +1,315 @@
+import { randomUUID } from "node:crypto";
+import { createEndpoint } from "better-call";
+import type { ShopClient } from "shop-client";
+import {
+	type CartItem,
+	type CartOptions,
+	resolveCart,
+	variantIdOf,
+} from "./cart";
+import { createCheckout } from "./checkout";
+import { errorResponses, shopError, upstreamErrors } from "./errors";
+import { shopDomainOf } from "./getShop";
+import {
+	CartCheckoutBodySchema,
+	CartCreateBodySchema,
+	CartLinesBodySchema,
+	type CartSchema,
+	jsonRequestBody,
+	jsonResponse,
+	schemaRef,
+} from "./schemas";
+import { makeProductSearch } from "./search";
+import { createMemoryStore, type KeyValueStore } from "./storage";
+
+export type StoredCart = {
+	id: string;
+	domain: string;
+	items: CartItem[];
+	currency?: string;
+	note?: string;
+	attributes?: Record<string, string>;
+	createdAt: string;
+	updatedAt: string;
+	expiresAt: string;
+};
+
+export type Cart = typeof CartSchema.infer;
+
+export type CartLineUpdate =
+	(typeof CartLinesBodySchema.infer)["lines"][number];
+
+export type CartStoreOptions = {
+	/** Where carts are kept, e.g. `createFileStore({ dir })`. */
+	store?: KeyValueStore;
+	/** Lifetime of a cart in milliseconds, renewed by every change. */
+	ttl?: number;
+};
+
+export type CartStore = {
+	create: (
+		domain: string,
+		input: Pick<StoredCart, "items" | "currency" | "note" | "attributes">,
+	) => Promise<StoredCart>;
+	/** Throws `CART_NOT_FOUND` for unknown, expired or foreign carts. */
+	get: (domain: string, id: string) => Promise<StoredCart>;
+	/** Set the quantity of each variant; `0` removes it, new variants are appended. */
+	updateLines: (
+		domain: string,
+		id: string,
+		lines: CartLineUpdate[],
+	) => Promise<StoredCart>;
+	delete: (domain: string, id: string) => Promise<boolean>;
+};
+
+const DEFAULT_CART_TTL = 30 * 24 * 60 * 60_000;
+
+const cartKey = (id: string) => `cart|${id}`;
+
+/**
+ * Create the cart store. Every write renews the cart's expiry, and writes
+ * to one cart are serialized so concurrent line updates are not lost.
+ */
+export const makeCartStore = (options?: CartStoreOptions): CartStore => {
+	const store = options?.store ?? createMemoryStore();
+	const ttl = options?.ttl ?? DEFAULT_CART_TTL;
+	const pending = new Map<string, Promise<unknown>>();
+
+	const serial = <T>(id: string, fn: () => Promise<T>) => {
+		const next = (pending.get(id) ?? Promise.resolve())
+			.catch(() => {})
+			.then(fn);
+		pending.set(id, next);
+		return next.finally(() => {
+			if (pending.get(id) === next) pending.delete(id);
+		});
+	};
+
+	const save = async (cart: Omit<StoredCart, "updatedAt" | "expiresAt">) => {
+		const now = Date.now();
+		const saved: StoredCart = {
+			...cart,
+			updatedAt: new Date(now).toISOString(),
+			expiresAt: new Date(now + ttl).toISOString(),
+		};
+		await store.set(cartKey(cart.id), saved, ttl);
+		return saved;
+	};
+
+	const get = async (domain: string, id: string) => {
+		const cart = await store.get<StoredCart>(cartKey(id));
+		if (!cart || cart.domain !== domain) {
+			throw shopError("CART_NOT_FOUND", { details: { id } });
+		}
+		return cart;
+	};
+
+	return {
+		create: (domain, input) =>
+			save({
+				id: randomUUID(),
+				domain,
+				...input,
+				createdAt: new Date().toISOString(),
+			}),
+		get,
+		updateLines: (domain, id, lines) =>
+			serial(id, async () => {
+				const cart = await get(domain, id);
+				const items = [...cart.items];
+				for (const line of lines) {
+					const position = items.findIndex(
+						(item) =>
+							variantIdOf(item.productVariantId) ===
+							variantIdOf(line.productVariantId),
+					);
+					if (line.quantity === 0) {
+						if (position !== -1) items.splice(position, 1);
+					} else if (position === -1) {
+						items.push(line);
+					} else {
+						items[position] = line;
+					}
+				}
+				return save({ ...cart, items });
+			}),
+		delete: (domain, id) =>
+			serial(id, async () => {
+				await get(domain, id);
+				await store.delete(cartKey(id));
+				return true;
+			}),
+	};
+};
+
+export const buildCartStoreEndpoints = (
+	getShop: (headers?: Headers) => ShopClient,
+	options?: CartOptions & { carts?: CartStore },
+) => {
+	const carts = options?.carts ?? makeCartStore();
+	const cartOptions = {
+		search: options?.search ?? makeProductSearch(),
+		maxQuantity: options?.maxQuantity,
+	};
+
+	const idParameter = {
+		in: "path" as const,
+		name: "id",
+		required: true,
+		schema: { type: "string" as const },
+	};
+
+	/** The stored cart priced against the current catalog. */
+	const priced = async (
+		headers: Headers | undefined,
+		{ domain, ...cart }: StoredCart,
+	): Promise<Cart> => ({
+		...cart,
+		...(await resolveCart(getShop(headers), domain, cart, cartOptions)),
+	});
+
+	const createCart = createEndpoint(
+		"/carts",
+		{
+			method: "POST",
+			body: CartCreateBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Create a cart",
+					description:
+						"Stores a cart on the server so it can be read from any device by its `id`. Carts expire after the configured TTL, renewed by every change.",
+					requestBody: jsonRequestBody("CartCreateBody"),
+					responses: {
+						200: jsonResponse(schemaRef("Cart")),
+						...errorResponses(...upstreamErrors),
+					},
+				},
+			},
+		},
+		async (ctx) => {
+			const { items = [], ...input } = ctx.body;
+			const cart = await carts.create(shopDomainOf(ctx.headers), {
+				items,
+				...input,
+			});
+			return await priced(ctx.headers, cart);
+		},
+	);
+
+	const getCart = createEndpoint(
+		"/carts/:id",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "Get a cart",
+					description:
+						"Returns the cart re-priced against the current catalog. Variants that became unknown or unavailable are listed in `issues`.",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(schemaRef("Cart")),
+						...errorResponses(...upstreamErrors, "CART_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			await priced(
+				ctx.headers,
+				await carts.get(shopDomainOf(ctx.headers), ctx.params.id),
+			),
+	);
+
+	const updateCartLines = createEndpoint(
+		"/carts/:id/lines",
+		{
+			method: "PATCH",
+			body: CartLinesBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Update cart lines",
+					description:
+						"Sets the quantity of each listed variant. Quantity `0` removes the line and unknown variants are added.",
+					parameters: [idParameter],
+					requestBody: jsonRequestBody("CartLinesBody"),
+					responses: {
+						200: jsonResponse(schemaRef("Cart")),
+						...errorResponses(...upstreamErrors, "CART_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			await priced(
+				ctx.headers,
+				await carts.updateLines(
+					shopDomainOf(ctx.headers),
+					ctx.params.id,
+					ctx.body.lines,
+				),
+			),
+	);
+
+	const deleteCart = createEndpoint(
+		"/carts/:id",
+		{
+			method: "DELETE",
+			metadata: {
+				openapi: {
+					summary: "Delete a cart",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(schemaRef("Success")),
+						...errorResponses("SHOP_DOMAIN_MISSING", "CART_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) => ({
+			success: await carts.delete(shopDomainOf(ctx.headers), ctx.params.id),
+		}),
+	);
+
+	const checkoutCart = createEndpoint(
+		"/carts/:id/checkout",
+		{
+			method: "POST",
+			body: CartCheckoutBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Check out a cart",
+					description:
+						"Creates the checkout URL of `POST /checkout/url` from the cart's items. The cart's `note` and `attributes` are used unless the body sets them. The cart is kept.",
+					parameters: [idParameter],
+					requestBody: jsonRequestBody("CartCheckoutBody"),
+					responses: {
+						200: jsonResponse(schemaRef("CheckoutUrl")),
+						...errorResponses(
+							...upstreamErrors,
+							"CART_NOT_FOUND",
+							"CART_INVALID",
+							"CHECKOUT_INVALID",
+						),
+					},
+				},
+			},
+		},
+		async (ctx) => {
+			const domain = shopDomainOf(ctx.headers);
+			const cart = await carts.get(domain, ctx.params.id);
+			return await createCheckout(
+				getShop(ctx.headers),
+				domain,
+				cart,
+				{
+					...ctx.body,
+					note: ctx.body.note ?? cart.note,
+					attributes: ctx.body.attributes ?? cart.attributes,
+				},
+				cartOptions,
+			);
+		},
+	);
+
+	return { createCart, getCart, updateCartLines, deleteCart, checkoutCart };
+};
@@ -1,53 +1,152 @@
-import { type } from "arktype";
 import { createEndpoint } from "better-call";
 import type { ShopClient } from "shop-client";
+import {
+	type CartItem,
+	type CartLine,
+	type CartOptions,
+	resolveCart,
+	variantIdOf,
+} from "./cart";
+import { errorResponses, shopError, upstreamErrors } from "./errors";
+import { shopDomainOf } from "./getShop";
+import {
+	CheckoutBodySchema,
+	jsonRequestBody,
+	jsonResponse,
+	schemaRef,
+} from "./schemas";
+import { makeProductSearch } from "./search";
+
+type CheckoutBody = typeof CheckoutBodySchema.infer;
+
+export type CheckoutLinkOptions = Omit<CheckoutBody, "items" | "currency">;
+
+const addressParams = {
+	firstName: "first_name",
+	lastName: "last_name",
+	address1: "address1",
+	address2: "address2",
+	city: "city",
+	zip: "zip",
+	country: "country",
+	province: "province",
+	phone: "phone",
+} as const;
+
+/**
+ * Build a Shopify cart permalink, `https://<domain>/cart/<variant>:<qty>,...`.
+ * `mode: "checkout"` (the default) opens checkout, `"cart"` the storefront
+ * cart. Customer fields are only added when given. Cart permalinks carry a
+ * single set of line item properties, so every line must use the same.
+ */
+export const buildCheckoutUrl = (
+	domain: string,
+	lines: Pick<CartLine, "productVariantId" | "quantity" | "properties">[],
+	options: CheckoutLinkOptions = {},
+) => {
+	const path = lines
+		.map(
+			({ productVariantId, quantity }) =>
+				`${encodeURIComponent(variantIdOf(productVariantId))}:${quantity}`,
+		)
+		.join(",");
+	const params = new URLSearchParams();
+	if (options.mode === "cart") params.set("storefront", "true");
+	if (options.email) params.set("checkout[email]", options.email);
+	for (const [field, param] of Object.entries(addressParams)) {
+		const value = options.address?.[field as keyof typeof addressParams];
+		if (value) params.set(`checkout[shipping_address][${param}]`, value);
+	}
+	const discounts = [options.discount ?? []].flat().filter(Boolean);
+	if (discounts.length) params.set("discount", discounts.join(","));
+	if (options.note) params.set("note", options.note);
+	for (const [key, value] of Object.entries(options.attributes ?? {})) {
+		params.set(`attributes[${key}]`, value);
+	}
+	const properties = new Set(
+		lines.map(({ properties }) => JSON.stringify(properties ?? {})),
+	);
+	if (properties.size > 1) {
+		throw shopError("CHECKOUT_INVALID", {
+			message: "Every line of a cart permalink must have the same properties",
+		});
+	}
+	const [encoded = "{}"] = properties;
+	if (encoded !== "{}") {
+		params.set("properties", Buffer.from(encoded).toString("base64"));
+	}
+	if (options.ref) params.set("ref", options.ref);
+	for (const [key, value] of Object.entries(options.utm ?? {})) {
+		if (value) params.set(`utm_${key}`, value);
+	}
+	const query = params.toString();
+	return `https://${domain}/cart/${path}${query ? `?${query}` : ""}`;
+};
+
+/**
+ * Validate `cart` with `resolveCart` and build its checkout URL. Throws
+ * `CART_INVALID` when a variant is unknown or unavailable or the cart is
+ * empty.
+ */
+export const createCheckout = async (
+	shop: ShopClient,
+	domain: string,
+	cart: { items: CartItem[]; currency?: string },
+	link: CheckoutLinkOptions,
+	options?: CartOptions,
+) => {
+	const validation = await resolveCart(shop, domain, cart, options);
+	if (!validation.valid) {
+		throw shopError("CART_INVALID", {
+			details: { issues: validation.issues },
+		});
+	}
+	if (!validation.lines.length) {
+		throw shopError("CART_INVALID", { message: "The cart is empty" });
+	}
+	return {
+		url: buildCheckoutUrl(domain, validation.lines, link),
+		cart: validation,
+	};
+};
 
 export const buildCheckoutEndpoints = (
 	getShop: (headers?: Headers) => ShopClient,
+	options?: CartOptions,
 ) => {
+	const search = options?.search ?? makeProductSearch();
+
 	const createCheckoutUrl = createEndpoint(
 		"/checkout/url",
 		{
 			method: "POST",
-			body: type({
-				email: "string.email",
-				items: type({ productVariantId: "string", quantity: "string" }).array(),
-				address: {
-					firstName: "string",
-					lastName: "string",
-					address1: "string",
-					city: "string",
-					zip: "string",
-					country: "string",
-					province: "string",
-					phone: "string",
-				},
-			}),
+			body: CheckoutBodySchema,
 			metadata: {
 				openapi: {
 					summary: "Create checkout URL",
-					requestBody: {
-						content: { "application/json": { schema: { type: "object" } } },
-					},
+					description:
+						'Validates the items like `POST /cart/validate` first. Unknown or unavailable variants fail with `CART_INVALID` and the issues in `details`; clamped quantities are used as clamped. Returns a cart permalink that opens checkout, or the cart with `mode: "cart"`. Email, address, discount codes, note, cart attributes, `ref` and UTM parameters are all optional.',
+					requestBody: jsonRequestBody("CheckoutBody"),
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: {
-										type: "object",
-										properties: { url: { type: "string" } },
-									},
-								},
-							},
-						},
+						200: jsonResponse(schemaRef("CheckoutUrl")),
+						...errorResponses(
+							...upstreamErrors,
+							"CART_INVALID",
+							"CHECKOUT_INVALID",
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
-			const shop = getShop(ctx.headers);
-			return { url: shop.checkout.createUrl(ctx.body) };
+			const { items, currency, ...link } = ctx.body;
+			return await createCheckout(
+				getShop(ctx.headers),
+				shopDomainOf(ctx.headers),
+				{ items, currency },
+				link,
+				{ search, maxQuantity: options?.maxQuantity },
+			);
 		},
 	);
 
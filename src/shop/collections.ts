@@ -1,10 +1,43 @@
 import { type } from "arktype";
 import { createEndpoint } from "better-call";
 import type { ShopClient } from "shop-client";
+import { makeResponseCache, type ResponseCache } from "./cache";
+import {
+	callUpstream,
+	errorResponses,
+	shopError,
+	upstreamErrors,
+} from "./errors";
+import { paginate, paginationParameters, parsePagination } from "./pagination";
+import { normalizeShopDomain } from "./registry";
+import {
+	arrayOf,
+	jsonResponse,
+	PaginationQuerySchema,
+	ProductFilterQuerySchema,
+	schemaRef,
+} from "./schemas";
+import {
+	computeFacets,
+	DEFAULT_PAGE_LIMIT,
+	filterProducts,
+	hasProductFilters,
+	makeProductSearch,
+	type ProductSearch,
+	parseProductFilters,
+	productFilterParameters,
+} from "./search";
+
+/** shop-client's default page size for paginated collections. */
+const DEFAULT_COLLECTION_PAGE_LIMIT = 10;
 
 export const buildCollectionEndpoints = (
 	getShop: (headers?: Headers) => ShopClient,
+	options?: { cache?: ResponseCache; search?: ProductSearch },
 ) => {
+	const cached = options?.cache ?? makeResponseCache();
+	const search = options?.search ?? makeProductSearch();
+
 	const getAllCollections = createEndpoint(
 		"/collections/all",
 		{
@@ -13,21 +46,17 @@ export const buildCollectionEndpoints = (
 				openapi: {
 					summary: "Get all collections",
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: { type: "array", items: { type: "object" } },
-								},
-							},
-						},
+						200: jsonResponse(arrayOf("Collection")),
+						...errorResponses(...upstreamErrors),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.collections.all();
+			return await cached(ctx, () =>
+				callUpstream(() => shop.collections.all()),
+			);
 		},
 	);
 
@@ -35,47 +64,42 @@ export const buildCollectionEndpoints = (
 		"/collections/paginated",
 		{
 			method: "GET",
-			query: type({ "page?": "string|number", "limit?": "string|number" }).pipe(
-				(v) => ({
-					page: v.page ? Number(v.page) : undefined,
-					limit: v.limit ? Number(v.limit) : undefined,
-				}),
-			),
+			query: PaginationQuerySchema.pipe(parsePagination),
 			metadata: {
 				openapi: {
 					summary: "Get paginated collections",
-					parameters: [
-						{
-							in: "query",
-							name: "page",
-							required: false,
-							schema: { type: "integer", minimum: 1 },
-						},
-						{
-							in: "query",
-							name: "limit",
-							required: false,
-							schema: { type: "integer", minimum: 1, maximum: 250 },
-						},
-					],
+					description:
+						"Returns a page envelope; follow `nextCursor` for stable infinite scroll.",
+					parameters: paginationParameters,
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: { type: "array", items: { type: "object" } },
-								},
-							},
-						},
+						200: jsonResponse(schemaRef("CollectionPage")),
+						...errorResponses(...upstreamErrors, "INVALID_PAGINATION"),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.collections.paginated({
-				page: ctx.query.page,
-				limit: ctx.query.limit,
+			const {
+				page,
+				limit = DEFAULT_COLLECTION_PAGE_LIMIT,
+				cursor,
+				withTotal,
+			} = ctx.query;
+			return await cached(ctx, async () => {
+				const result = await paginate({
+					fetchPage: (n, size) =>
+						callUpstream(() =>
+							shop.collections.paginated({ page: n, limit: size }),
+						),
+					idOf: (collection) => collection.id,
+					page,
+					limit,
+					cursor,
+				});
+				if (!withTotal) return result;
+				const all = await callUpstream(() => shop.collections.all());
+				return { ...result, totalCount: all?.length ?? 0 };
 			});
 		},
 	);
@@ -88,21 +112,17 @@ export const buildCollectionEndpoints = (
 				openapi: {
 					summary: "Get showcased collections",
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: { type: "array", items: { type: "object" } },
-								},
-							},
-						},
+						200: jsonResponse(arrayOf("Collection")),
+						...errorResponses(...upstreamErrors),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.collections.showcased();
+			return await cached(ctx, () =>
+				callUpstream(() => shop.collections.showcased()),
+			);
 		},
 	);
 
@@ -122,19 +142,29 @@ export const buildCollectionEndpoints = (
 						},
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: { "application/json": { schema: { type: "object" } } },
-						},
+						200: jsonResponse(schemaRef("Collection")),
+						...errorResponses(
+							...upstreamErrors,
+							"COLLECTION_NOT_FOUND",
+							"INVALID_HANDLE",
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			const collection = await shop.collections.find(ctx.params.handle);
-			if (!collection) throw new Error("Collection not found");
-			return collection;
+			return await cached(ctx, async () => {
+				const collection = await callUpstream(() =>
+					shop.collections.find(ctx.params.handle),
+				);
+				if (!collection) {
+					throw shopError("COLLECTION_NOT_FOUND", {
+						details: { handle: ctx.params.handle },
+					});
+				}
+				return collection;
+			});
 		},
 	);
 
@@ -161,23 +191,36 @@ export const buildCollectionEndpoints = (
 						},
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: { type: "array", items: { type: "object" } },
-								},
-							},
-						},
+						200: jsonResponse(arrayOf("Product")),
+						...errorResponses(
+							...upstreamErrors,
+							"COLLECTION_NOT_FOUND",
+							"INVALID_HANDLE",
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.collections.products.all(ctx.params.handle, {
-				currency: ctx.query?.currency,
-			});
+			const { handle } = ctx.params;
+			return await cached(
+				ctx,
+				async () => {
+					const products = await callUpstream(() =>
+						shop.collections.products.all(handle, {
+							currency: ctx.query?.currency,
+						}),
+					);
+					// shop-client answers upstream errors with `null`; throwing keeps
+					// the last good catalog cached and served while stale.
+					if (!products) {
+						throw shopError("COLLECTION_NOT_FOUND", { details: { handle } });
+					}
+					return products;
+				},
+				{ staleWhileRevalidate: true },
+			);
 		},
 	);
 
@@ -185,18 +228,19 @@ export const buildCollectionEndpoints = (
 		"/collections/:handle/products/paginated",
 		{
 			method: "GET",
-			query: type({
-				"page?": "string|number",
-				"limit?": "string|number",
-				"currency?": "string",
-			}).pipe((v) => ({
-				page: v.page ? Number(v.page) : undefined,
-				limit: v.limit ? Number(v.limit) : undefined,
-				currency: v.currency,
-			})),
+			query: PaginationQuerySchema.merge(ProductFilterQuerySchema)
+				.merge({ "currency?": "string" })
+				.pipe((v) => ({
+					...parsePagination(v),
+					currency: v.currency,
+					filters: parseProductFilters(v),
+					facets: v.facets === "true",
+				})),
 			metadata: {
 				openapi: {
 					summary: "Get paginated products in collection",
+					description:
+						"Returns a page envelope; follow `nextCursor` for stable infinite scroll. With filters or `facets=true`, the page is filtered and includes facet counts. Option filters use the keys returned by `/products/filters`, e.g. `option.size=m`.",
 					parameters: [
 						{
 							in: "path",
@@ -204,44 +248,101 @@ export const buildCollectionEndpoints = (
 							required: true,
 							schema: { type: "string" },
 						},
-						{
-							in: "query",
-							name: "page",
-							required: false,
-							schema: { type: "integer", minimum: 1 },
-						},
-						{
-							in: "query",
-							name: "limit",
-							required: false,
-							schema: { type: "integer", minimum: 1, maximum: 250 },
-						},
+						...paginationParameters,
 						{
 							in: "query",
 							name: "currency",
 							required: false,
 							schema: { type: "string" },
 						},
+						...productFilterParameters,
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: { type: "array", items: { type: "object" } },
-								},
-							},
-						},
+						200: jsonResponse(schemaRef("ProductPage")),
+						...errorResponses(
+							...upstreamErrors,
+							"COLLECTION_NOT_FOUND",
+							"INVALID_HANDLE",
+							"INVALID_PAGINATION",
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.collections.products.paginated(ctx.params.handle, {
-				page: ctx.query.page,
-				limit: ctx.query.limit,
-				currency: ctx.query.currency,
+			const { handle } = ctx.params;
+			const {
+				page,
+				limit = DEFAULT_PAGE_LIMIT,
+				cursor,
+				withTotal,
+				currency,
+				filters,
+				facets,
+			} = ctx.query;
+			const notFound = () =>
+				shopError("COLLECTION_NOT_FOUND", { details: { handle } });
+			if (facets || hasProductFilters(filters)) {
+				// Facets need the whole collection, so filter the indexed collection.
+				const domain = normalizeShopDomain(
+					ctx.headers?.get("x-shop-domain") ?? "",
+				);
+				return await cached(ctx, async () => {
+					const index = await search.index(
+						`${domain}|collection:${handle}|${currency ?? "-"}`,
+						async () => {
+							const products = await callUpstream(() =>
+								shop.collections.products.all(handle, {
+									currency,
+									columns: { mode: "full", images: "full", options: "full" },
+								}),
+							);
+							if (!products) throw notFound();
+							return products;
+						},
+					);
+					const matches = filterProducts(index, filters);
+					const result = await paginate({
+						fetchPage: async (n, size) =>
+							matches.slice((n - 1) * size, n * size),
+						idOf: (product) => product.platformId,
+						page,
+						limit,
+						cursor,
+						total: matches.length,
+					});
+					return {
+						...result,
+						totalCount: matches.length,
+						facets: computeFacets(index, filters),
+					};
+				});
+			}
+			return await cached(ctx, async () => {
+				const result = await paginate({
+					fetchPage: async (n, size) => {
+						const products = await callUpstream(() =>
+							shop.collections.products.paginated(handle, {
+								page: n,
+								limit: size,
+								currency,
+							}),
+						);
+						if (!products) throw notFound();
+						return products;
+					},
+					idOf: (product) => product.platformId,
+					page,
+					limit,
+					cursor,
+				});
+				if (!withTotal) return result;
+				const collection = await callUpstream(() =>
+					shop.collections.find(handle),
+				);
+				if (!collection) throw notFound();
+				return { ...result, totalCount: collection.productsCount };
 			});
 		},
 	);
@@ -270,13 +371,20 @@ export const buildCollectionEndpoints = (
 								},
 							},
 						},
+						...errorResponses(
+							...upstreamErrors,
+							"COLLECTION_NOT_FOUND",
+							"INVALID_HANDLE",
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.collections.products.slugs(ctx.params.handle);
+			return await cached(ctx, () =>
+				callUpstream(() => shop.collections.products.slugs(ctx.params.handle)),
+			);
 		},
 	);
 
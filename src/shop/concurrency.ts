@@ -0,0 +1,45 @@
+/**
+ * Run `fn` over `items` with at most `concurrency` calls in flight, in item
+ * order. No new calls start once `signal` is aborted. `fn` should handle its
+ * own errors; a rejection stops its worker and rejects the whole run.
+ */
+export const forEachConcurrent = async <T>(
+	items: readonly T[],
+	concurrency: number,
+	fn: (item: T, position: number) => Promise<void>,
+	signal?: AbortSignal,
+) => {
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length && !signal?.aborted) {
+			const position = next++;
+			await fn(items[position] as T, position);
+		}
+	};
+	await Promise.all(
+		Array.from(
+			{ length: Math.max(1, Math.min(concurrency, items.length)) },
+			worker,
+		),
+	);
+};
+
+/**
+ * Run `fn` over `items` with at most `concurrency` calls in flight. Results
+ * keep the order of `items` and failures are returned, not thrown.
+ */
+export const mapSettled = async <T, R>(
+	items: readonly T[],
+	concurrency: number,
+	fn: (item: T) => Promise<R>,
+) => {
+	const results: PromiseSettledResult<R>[] = new Array(items.length);
+	await forEachConcurrent(items, concurrency, async (item, position) => {
+		try {
+			results[position] = { status: "fulfilled", value: await fn(item) };
+		} catch (reason) {
+			results[position] = { status: "rejected", reason };
+		}
+	});
+	return results;
+};
@@ -0,0 +1,111 @@
+/**
+ * Five-field cron expressions (`minute hour day-of-month month day-of-week`)
+ * evaluated in UTC. Fields accept `*`, numbers, ranges (`1-5`), steps
+ * (`*\/15`, `0-30/10`) and comma-separated lists. Day-of-week is 0-7 with
+ * both 0 and 7 meaning Sunday. As in classic cron, when both day fields are
+ * restricted a time matches if either of them does.
+ */
+export type CronSchedule = {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	anyDayOfMonth: boolean;
+	anyDayOfWeek: boolean;
+};
+
+const FIELDS = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day of month", min: 1, max: 31 },
+	{ name: "month", min: 1, max: 12 },
+	{ name: "day of week", min: 0, max: 7 },
+] as const;
+
+const parseField = (
+	value: string,
+	{ name, min, max }: (typeof FIELDS)[number],
+) => {
+	const values = new Set<number>();
+	for (const part of value.split(",")) {
+		const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+		if (!match) throw new Error(`Invalid cron ${name}: "${part}"`);
+		const [, range, start, end, step] = match;
+		const from = range === "*" ? min : Number(start);
+		const to =
+			range === "*" ? max : end !== undefined ? Number(end) : step ? max : from;
+		const increment = step ? Number(step) : 1;
+		if (from < min || to > max || from > to || increment < 1) {
+			throw new Error(`Invalid cron ${name}: "${part}"`);
+		}
+		for (let n = from; n <= to; n += increment) values.add(n);
+	}
+	return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+	const parts = expression.trim().split(/\s+/);
+	if (parts.length !== FIELDS.length) {
+		throw new Error(
+			`Invalid cron expression "${expression}": expected 5 fields`,
+		);
+	}
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map(
+		(field, position) => parseField(parts[position] ?? "", field),
+	) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+	if (daysOfWeek.has(7)) daysOfWeek.add(0);
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		anyDayOfMonth: parts[2] === "*",
+		anyDayOfWeek: parts[4] === "*",
+	};
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date) => {
+	const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+	const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+	if (schedule.anyDayOfMonth) return dayOfWeek;
+	if (schedule.anyDayOfWeek) return dayOfMonth;
+	return dayOfMonth || dayOfWeek;
+};
+
+// Far enough ahead for any valid expression, e.g. `0 0 29 2 *` in a leap year.
+const MAX_SEARCH_DAYS = 366 * 8;
+
+/** The first time strictly after `from` that matches the expression. */
+export const nextCronRun = (
+	expression: string | CronSchedule,
+	from = new Date(),
+) => {
+	const schedule =
+		typeof expression === "string" ? parseCron(expression) : expression;
+	const next = new Date(from);
+	next.setUTCSeconds(0, 0);
+	next.setUTCMinutes(next.getUTCMinutes() + 1);
+	const limit = from.getTime() + MAX_SEARCH_DAYS * 86_400_000;
+	while (next.getTime() <= limit) {
+		if (
+			!schedule.months.has(next.getUTCMonth() + 1) ||
+			!matchesDay(schedule, next)
+		) {
+			next.setUTCDate(next.getUTCDate() + 1);
+			next.setUTCHours(0, 0);
+			continue;
+		}
+		if (!schedule.hours.has(next.getUTCHours())) {
+			next.setUTCHours(next.getUTCHours() + 1, 0);
+			continue;
+		}
+		if (!schedule.minutes.has(next.getUTCMinutes())) {
+			next.setUTCMinutes(next.getUTCMinutes() + 1);
+			continue;
+		}
+		return next;
+	}
+	throw new Error("Cron expression never matches");
+};
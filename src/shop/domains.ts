@@ -0,0 +1,450 @@
+import { lookup } from "node:dns/promises";
+import { Agent, request } from "node:https";
+import { BlockList, isIP } from "node:net";
+import { Readable } from "node:stream";
+import { isShopError, shopError } from "./errors";
+import { scopedTimeout, withFetchScope } from "./fetchscope";
+import { aroundClientCalls } from "./resilience";
+
+export type DomainPolicyOptions = {
+	/**
+	 * Only serve these stores. `brand.com` matches the domain itself and
+	 * `*.brand.com` its subdomains.
+	 */
+	allow?: string[];
+	/** Never serve these stores; same patterns as `allow`, checked first. */
+	deny?: string[];
+	/** Refuse domains that resolve to private, loopback or link-local addresses. Defaults to `true`. */
+	checkAddresses?: boolean;
+	/**
+	 * Check that a custom domain is a Shopify store before its first call:
+	 * its `/meta.json` names a myshopify domain whose own `/meta.json`, served
+	 * by Shopify, names it as the primary domain. Defaults to `true`.
+	 */
+	verifyStore?: boolean;
+	/** How long a domain's verdict is remembered, in milliseconds. */
+	verifyTTL?: number;
+	/** Resolve a hostname to its addresses. Defaults to `dns.lookup`. */
+	lookup?: (hostname: string) => Promise<string[]>;
+	/**
+	 * Sends the requests instead of `node:https`. The default connects only
+	 * to the addresses that passed the check; a custom `fetch` resolves hosts
+	 * again on its own.
+	 */
+	fetch?: typeof fetch;
+};
+
+export type DomainPolicy = {
+	/**
+	 * Validate a store domain against the syntax rules and the allow and deny
+	 * lists, and return it normalized. Throws `SHOP_DOMAIN_INVALID` or
+	 * `SHOP_DOMAIN_FORBIDDEN`.
+	 */
+	check: (input: string) => string;
+	/**
+	 * Check the addresses of a checked domain and that it is a Shopify store.
+	 * Verdicts are cached for `verifyTTL`.
+	 */
+	verify: (domain: string) => Promise<void>;
+	/**
+	 * Check that `url` is https on the default port and its host resolves
+	 * only to public addresses. Throws `SHOP_DOMAIN_FORBIDDEN`.
+	 */
+	checkUrl: (url: string | URL) => Promise<void>;
+	/**
+	 * `fetch` with redirects followed only to public https hosts, or refused
+	 * with `redirect: "error"`. `onRedirect` receives every URL redirected to.
+	 */
+	fetch: (
+		url: string,
+		init?: RequestInit & { onRedirect?: (url: URL) => void },
+	) => Promise<Response>;
+	/**
+	 * Proxy a client so its store calls wait for `verify` and send their
+	 * requests through `fetch`.
+	 */
+	gate: <C extends object>(client: C, domain: string) => C;
+};
+
+type Verdict = { result: Promise<void>; expiresAt: number };
+
+const DEFAULT_VERIFY_TTL = 60 * 60_000;
+const MAX_VERDICTS = 1000;
+const MAX_REDIRECTS = 5;
+
+const hostnamePattern =
+	/^(?=.{1,253}$)(?:[a-z\d](?:[a-z\d-]{0,61}[a-z\d])?\.)+(?:[a-z]{2,63}|xn--[a-z\d-]{1,59})$/;
+
+/** Names that never resolve to a public store. */
+const reservedSuffixes = [
+	"localhost",
+	"local",
+	"internal",
+	"intranet",
+	"lan",
+	"home",
+	"corp",
+	"arpa",
+	"test",
+	"invalid",
+	"example",
+];
+
+/** `Shopify.shop = "brand.myshopify.com";` in storefront HTML. */
+export const shopScriptPattern =
+	/Shopify\.shop\s*=\s*["']([a-z\d][a-z\d-]*\.myshopify\.com)["']/i;
+
+/** Shopify runs `*.myshopify.com`, so it cannot point at private addresses. */
+const isShopifyHosted = (domain: string) => domain.endsWith(".myshopify.com");
+
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.0.2.0", 24],
+	["192.168.0.0", 16],
+	["198.18.0.0", 15],
+	["198.51.100.0", 24],
+	["203.0.113.0", 24],
+	["224.0.0.0", 4],
+	["240.0.0.0", 4],
+] as const) {
+	privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+	["::", 128],
+	["::1", 128],
+	["64:ff9b::", 96],
+	["100::", 64],
+	["2001:db8::", 32],
+	["2002::", 16],
+	["fc00::", 7],
+	["fe80::", 10],
+	["ff00::", 8],
+] as const) {
+	privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an address is private, loopback, link-local or otherwise not
+ * public. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+ */
+export const isPrivateAddress = (address: string) => {
+	const family = isIP(address);
+	if (family === 0) return true;
+	return privateAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+const bareHost = (input: string) =>
+	input
+		.trim()
+		.toLowerCase()
+		.replace(/^https?:\/\//, "")
+		.replace(/\/$/, "")
+		.replace(/\.$/, "");
+
+const matches = (domain: string, pattern: string) => {
+	const host = bareHost(pattern);
+	return host.startsWith("*.")
+		? domain.endsWith(host.slice(1))
+		: domain === host;
+};
+
+/** Statuses whose responses have no body. */
+const nullBodyStatuses = [101, 204, 205, 304];
+
+/** Headers that describe a request body, dropped when a redirect drops the body. */
+const bodyHeaders = [
+	"content-encoding",
+	"content-language",
+	"content-length",
+	"content-location",
+	"content-type",
+];
+
+/**
+ * `fetch` over `node:https` that connects to the addresses `resolve`
+ * returns for the host, so the address that was checked is the one
+ * connected to. Its agent keeps connections for this resolver only.
+ */
+const pinnedFetch = (resolve: (hostname: string) => Promise<string[]>) => {
+	const agent = new Agent({
+		keepAlive: true,
+		lookup: (hostname, options, callback) => {
+			resolve(hostname).then(
+				(addresses) => {
+					const entries = addresses.map((address) => ({
+						address,
+						family: isIP(address),
+					}));
+					const [first] = entries;
+					if (options.all) callback(null, entries);
+					else if (first) callback(null, first.address, first.family);
+					else callback(new Error(`${hostname} has no address`), "");
+				},
+				(error: Error) => callback(error, ""),
+			);
+		},
+	});
+	return async (url: URL, init?: RequestInit) => {
+		const body =
+			init?.body == null
+				? undefined
+				: Buffer.from(await new Response(init.body).arrayBuffer());
+		return await new Promise<Response>((done, fail) => {
+			const req = request(
+				url,
+				{
+					agent,
+					method: init?.method ?? "GET",
+					headers: Object.fromEntries(new Headers(init?.headers)),
+					signal: init?.signal ?? undefined,
+				},
+				(res) => {
+					const headers = new Headers();
+					for (const [name, value] of Object.entries(res.headers)) {
+						for (const item of [value ?? []].flat()) {
+							headers.append(name, item);
+						}
+					}
+					const status = res.statusCode ?? 502;
+					const stream = nullBodyStatuses.includes(status)
+						? (res.resume(), null)
+						: (Readable.toWeb(res) as ReadableStream);
+					done(
+						new Response(stream, {
+							status,
+							statusText: res.statusMessage,
+							headers,
+						}),
+					);
+				},
+			);
+			req.on("error", fail);
+			req.end(body);
+		});
+	};
+};
+
+const defaultLookup = async (hostname: string) =>
+	(await lookup(hostname, { all: true, verbatim: true })).map(
+		({ address }) => address,
+	);
+
+/** Parse `input` as a bare hostname, allowing an http(s) scheme and a trailing slash. */
+const hostnameOf = (input: string) => {
+	const host = bareHost(input);
+	if (isIP(host) || isIP(host.replace(/^\[|\]$/g, ""))) {
+		throw shopError("SHOP_DOMAIN_INVALID", {
+			details: { domain: input, reason: "Use the store's hostname, not an IP" },
+		});
+	}
+	if (!hostnamePattern.test(host)) {
+		throw shopError("SHOP_DOMAIN_INVALID", { details: { domain: input } });
+	}
+	return host;
+};
+
+/**
+ * Create the rules for which store domains the service may call. Domains
+ * are validated when a client is requested; addresses and the Shopify
+ * storefront are checked once before the first call to the store.
+ */
+export const makeDomainPolicy = (
+	options?: DomainPolicyOptions,
+): DomainPolicy => {
+	const {
+		allow,
+		deny,
+		checkAddresses = true,
+		verifyStore = true,
+		verifyTTL = DEFAULT_VERIFY_TTL,
+	} = options ?? {};
+	const resolve = options?.lookup ?? defaultLookup;
+	const verdicts = new Map<string, Verdict>();
+
+	const forbidden = (domain: string, reason: string) =>
+		shopError("SHOP_DOMAIN_FORBIDDEN", { details: { domain, reason } });
+
+	const check = (input: string) => {
+		const domain = hostnameOf(input);
+		const tld = domain.slice(domain.lastIndexOf(".") + 1);
+		if (reservedSuffixes.includes(tld)) {
+			throw forbidden(domain, "reserved");
+		}
+		if (deny?.some((pattern) => matches(domain, pattern))) {
+			throw forbidden(domain, "denied");
+		}
+		if (allow && !allow.some((pattern) => matches(domain, pattern))) {
+			throw forbidden(domain, "not-allowed");
+		}
+		return domain;
+	};
+
+	/** Resolve `domain`, throwing when it should be checked and is not public. */
+	const addressesOf = async (domain: string) => {
+		const addresses = await resolve(domain);
+		if (
+			checkAddresses &&
+			!isShopifyHosted(domain) &&
+			(addresses.length === 0 || addresses.some(isPrivateAddress))
+		) {
+			throw forbidden(domain, "private-address");
+		}
+		return addresses;
+	};
+
+	const checkAddressesOf = async (domain: string) => {
+		if (!checkAddresses || isShopifyHosted(domain)) return;
+		await addressesOf(domain);
+	};
+
+	const send = options?.fetch ?? scopedTimeout(pinnedFetch(addressesOf));
+
+	const checkTarget = async (url: URL, reason: string) => {
+		const host = url.hostname.replace(/\.$/, "");
+		if (url.protocol !== "https:" || url.port || !hostnamePattern.test(host)) {
+			throw forbidden(url.host, reason);
+		}
+		await checkAddressesOf(host);
+	};
+
+	const safeFetch: DomainPolicy["fetch"] = async (
+		url,
+		{ onRedirect, redirect, ...init } = {},
+	) => {
+		let current = new URL(url);
+		let request = init;
+		for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+			await checkTarget(current, hop === 0 ? "url" : "redirect");
+			const res = await send(current, { ...request, redirect: "manual" });
+			const location = res.headers.get("location");
+			if (res.status < 300 || res.status >= 400 || !location) return res;
+			await res.body?.cancel();
+			if (redirect === "error") throw forbidden(current.host, "redirect");
+			const method = request.method?.toUpperCase() ?? "GET";
+			// As browsers do: 303, and 301 or 302 after a POST, continue as a
+			// GET without the body. A body is never sent twice.
+			if (
+				(res.status === 303 && method !== "HEAD") ||
+				((res.status === 301 || res.status === 302) && method === "POST")
+			) {
+				const headers = new Headers(request.headers);
+				for (const name of bodyHeaders) headers.delete(name);
+				request = { ...request, method: "GET", headers, body: undefined };
+			} else if (request.body != null) {
+				throw forbidden(current.host, "redirect");
+			}
+			current = new URL(location, current);
+			onRedirect?.(current);
+		}
+		throw shopError("UPSTREAM_UNREACHABLE", {
+			message: "The store redirected too many times",
+		});
+	};
+
+	/** Fetch a store page, throwing for answers that mean it is down or limiting us. */
+	const page = async (
+		url: string,
+		init?: RequestInit & { onRedirect?: (url: URL) => void },
+	) => {
+		const res = await safeFetch(url, init);
+		if (res.status === 429 || res.status >= 500) {
+			await res.body?.cancel();
+			throw Object.assign(new Error(`HTTP ${res.status}`), {
+				status: res.status,
+			});
+		}
+		return res;
+	};
+
+	const metaOf = async (domain: string, onRedirect?: (url: URL) => void) => {
+		const res = await page(`https://${domain}/meta.json`, {
+			headers: { accept: "application/json" },
+			onRedirect,
+		});
+		const body = (await res.json().catch(() => undefined)) as
+			| { myshopify_domain?: unknown; domain?: unknown }
+			| undefined;
+		return res.ok ? body : undefined;
+	};
+
+	const hostOf = (value: unknown) =>
+		typeof value === "string" ? bareHost(value) : undefined;
+
+	const checkStorefront = async (domain: string) => {
+		if (!verifyStore || isShopifyHosted(domain)) return;
+		const served = new Set([domain]);
+		const onRedirect = (url: URL) => served.add(bareHost(url.hostname));
+		let myshopifyDomain = hostOf(
+			(await metaOf(domain, onRedirect))?.myshopify_domain,
+		);
+		if (!myshopifyDomain) {
+			const res = await page(`https://${domain}/`, { onRedirect });
+			const html = res.ok ? await res.text() : "";
+			myshopifyDomain = hostOf(html.match(shopScriptPattern)?.[1]);
+		}
+		// Any host can copy a store's headers, JSON and scripts, but only
+		// Shopify serves the myshopify domain, and it names the primary domain.
+		const primary =
+			myshopifyDomain && isShopifyHosted(myshopifyDomain)
+				? hostOf((await metaOf(myshopifyDomain))?.domain)
+				: undefined;
+		if (!primary || !served.has(primary)) {
+			throw shopError("SHOP_NOT_SHOPIFY", { details: { domain } });
+		}
+	};
+
+	const verify = (domain: string) => {
+		const now = Date.now();
+		const cached = verdicts.get(domain);
+		if (cached && cached.expiresAt > now) return cached.result;
+		const result = (async () => {
+			await checkAddressesOf(domain);
+			await checkStorefront(domain);
+		})();
+		verdicts.delete(domain);
+		verdicts.set(domain, { result, expiresAt: now + verifyTTL });
+		while (verdicts.size > MAX_VERDICTS) {
+			const oldest = verdicts.keys().next().value;
+			if (oldest === undefined) break;
+			verdicts.delete(oldest);
+		}
+		// Only remember verdicts; outages are checked again on the next call.
+		result.catch((error) => {
+			if (
+				!isShopError(error, "SHOP_DOMAIN_FORBIDDEN") &&
+				!isShopError(error, "SHOP_NOT_SHOPIFY") &&
+				verdicts.get(domain)?.result === result
+			) {
+				verdicts.delete(domain);
+			}
+		});
+		return result;
+	};
+
+	return {
+		check,
+		verify,
+		checkUrl: async (url) => {
+			let parsed: URL;
+			try {
+				parsed = new URL(url);
+			} catch {
+				throw forbidden(String(url), "url");
+			}
+			await checkTarget(parsed, "url");
+		},
+		fetch: safeFetch,
+		gate: (client, domain) =>
+			aroundClientCalls(client, async (_, run) => {
+				await verify(domain);
+				return await withFetchScope({ fetch: safeFetch }, run);
+			}),
+	};
+};
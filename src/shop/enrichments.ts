@@ -0,0 +1,358 @@
+import { createHash } from "node:crypto";
+import { type } from "arktype";
+import { createEndpoint } from "better-call";
+import type { Product, ShopClient } from "shop-client";
+import { callUpstream, errorResponses } from "./errors";
+import { shopDomainOf } from "./getShop";
+import type { LlmOperations } from "./providers";
+import {
+	arrayOf,
+	type EnrichBodySchema,
+	jsonResponse,
+	schemaRef,
+} from "./schemas";
+import { createMemoryStore, type KeyValueStore } from "./storage";
+
+export type EnrichmentOperation = "enrich" | "classify" | "seo";
+
+export type EnrichmentSummary = {
+	domain: string;
+	handle: string;
+	operation: EnrichmentOperation;
+	/** The LLM provider that produced the result, e.g. `openrouter` or `mock`. */
+	provider: string;
+	/** The model that produced the result, or `default` for the provider's own. */
+	model: string;
+	/** Request options that change the result, e.g. `outputFormat`. */
+	options: Record<string, unknown>;
+	/** `productContentHash` of the product the result was generated from. */
+	productHash: string;
+	createdAt: string;
+};
+
+export type StoredEnrichment = EnrichmentSummary & { result: unknown };
+
+export type EnrichmentRef = Pick<
+	EnrichmentSummary,
+	"domain" | "handle" | "operation" | "provider" | "options"
+> & { model?: string };
+
+export type EnrichmentFilter = {
+	handle?: string;
+	operation?: EnrichmentOperation;
+};
+
+export type EnrichmentStoreOptions = {
+	/**
+	 * Where results are kept, e.g. `createFileStore({ dir })`. It must not
+	 * evict keys on its own, or a domain's index and its results drift apart.
+	 */
+	store?: KeyValueStore;
+	/**
+	 * How many results the default in-memory store keeps. The least recently
+	 * used are evicted together with their index entries. Defaults to 1000.
+	 */
+	maxEntries?: number;
+};
+
+export type EnrichmentStore = {
+	get: (ref: EnrichmentRef) => Promise<StoredEnrichment | undefined>;
+	save: (entry: StoredEnrichment) => Promise<void>;
+	list: (
+		domain: string,
+		filter?: EnrichmentFilter,
+	) => Promise<EnrichmentSummary[]>;
+	/** Delete the matching results and return how many were deleted. */
+	purge: (domain: string, filter?: EnrichmentFilter) => Promise<number>;
+};
+
+const DEFAULT_MODEL = "default";
+const DEFAULT_MAX_ENTRIES = 1000;
+
+const sha256 = (value: unknown) =>
+	createHash("sha256").update(JSON.stringify(value)).digest("hex");
+
+const indexKey = (domain: string) => `enrichment|${domain}|index`;
+const entryKey = (ref: EnrichmentRef) =>
+	[
+		"enrichment",
+		ref.domain,
+		ref.handle,
+		ref.operation,
+		ref.provider,
+		ref.model ?? DEFAULT_MODEL,
+		sha256(
+			Object.entries(ref.options)
+				.filter(([, value]) => value !== undefined)
+				.sort(),
+		).slice(0, 16),
+	].join("|");
+
+const matches = (summary: EnrichmentSummary, filter?: EnrichmentFilter) =>
+	(!filter?.handle || summary.handle === filter.handle) &&
+	(!filter?.operation || summary.operation === filter.operation);
+
+/**
+ * Hash of the product fields the LLM operations read: title, body and
+ * variants. A stored result is reused only while the hash is unchanged.
+ */
+export const productContentHash = (
+	product: Pick<Product, "title" | "bodyHtml" | "variants">,
+) =>
+	sha256({
+		title: product.title,
+		body: product.bodyHtml ?? null,
+		variants: (product.variants ?? []).map((variant) => ({
+			id: variant.platformId,
+			title: variant.title,
+			price: variant.price,
+			available: variant.available,
+		})),
+	});
+
+/**
+ * Create the store for LLM results. Each domain keeps an index of summaries
+ * next to the results, so any `KeyValueStore` works without listing keys.
+ * Index updates for one domain are serialized.
+ */
+export const makeEnrichmentStore = (
+	options?: EnrichmentStoreOptions,
+): EnrichmentStore => {
+	const store =
+		options?.store ??
+		createMemoryStore({ maxEntries: Number.POSITIVE_INFINITY });
+	const maxEntries = Math.max(1, options?.maxEntries ?? DEFAULT_MAX_ENTRIES);
+	// Domain of each result in the default store, least recently used first.
+	const recent = options?.store ? undefined : new Map<string, string>();
+	const pending = new Map<string, Promise<unknown>>();
+
+	const serial = <T>(domain: string, fn: () => Promise<T>) => {
+		const next = (pending.get(domain) ?? Promise.resolve())
+			.catch(() => {})
+			.then(fn);
+		pending.set(domain, next);
+		return next.finally(() => {
+			if (pending.get(domain) === next) pending.delete(domain);
+		});
+	};
+
+	const index = async (domain: string) =>
+		(await store.get<EnrichmentSummary[]>(indexKey(domain))) ?? [];
+
+	const touch = (key: string, domain: string) => {
+		recent?.delete(key);
+		recent?.set(key, domain);
+	};
+
+	const evict = async () => {
+		while (recent && recent.size > maxEntries) {
+			const [key, domain] = recent.entries().next().value ?? [];
+			if (key === undefined || domain === undefined) break;
+			recent.delete(key);
+			await serial(domain, async () => {
+				// Saved again while waiting for the domain.
+				if (recent.has(key)) return;
+				await store.set(
+					indexKey(domain),
+					(await index(domain)).filter((other) => entryKey(other) !== key),
+				);
+				await store.delete(key);
+			});
+		}
+	};
+
+	return {
+		get: async (ref) => {
+			const key = entryKey(ref);
+			const stored = await store.get<StoredEnrichment>(key);
+			if (stored && recent?.has(key)) touch(key, ref.domain);
+			return stored;
+		},
+		save: async (entry) => {
+			await serial(entry.domain, async () => {
+				const key = entryKey(entry);
+				await store.set(key, entry);
+				const { result: _, ...summary } = entry;
+				await store.set(indexKey(entry.domain), [
+					...(await index(entry.domain)).filter(
+						(other) => entryKey(other) !== key,
+					),
+					summary,
+				]);
+				touch(key, entry.domain);
+			});
+			await evict();
+		},
+		list: async (domain, filter) =>
+			(await index(domain)).filter((summary) => matches(summary, filter)),
+		purge: (domain, filter) =>
+			serial(domain, async () => {
+				const summaries = await index(domain);
+				const purged = summaries.filter((summary) => matches(summary, filter));
+				await store.set(
+					indexKey(domain),
+					summaries.filter((summary) => !matches(summary, filter)),
+				);
+				for (const summary of purged) {
+					recent?.delete(entryKey(summary));
+					await store.delete(entryKey(summary));
+				}
+				return purged.length;
+			}),
+	};
+};
+
+/** The request options that change the result of `operation`. */
+export const enrichmentOptions = (
+	operation: EnrichmentOperation,
+	body: { useGfm?: boolean; inputType?: string; outputFormat?: string },
+): Record<string, unknown> =>
+	operation === "enrich"
+		? {
+				useGfm: body.useGfm,
+				inputType: body.inputType,
+				outputFormat: body.outputFormat,
+			}
+		: {};
+
+type OperationOptions = Omit<typeof EnrichBodySchema.infer, "force">;
+
+/** What each stored operation resolves to. */
+export type EnrichmentResults = {
+	enrich: NonNullable<Awaited<ReturnType<LlmOperations["enriched"]>>>;
+	classify: NonNullable<Awaited<ReturnType<LlmOperations["classify"]>>>;
+	seo: NonNullable<Awaited<ReturnType<LlmOperations["generateSEOContent"]>>>;
+};
+
+/**
+ * Each stored operation as a call on the store's LLM operations, given the
+ * product `withStoredEnrichment` loaded so it is not fetched again.
+ */
+export const enrichmentOperations: {
+	[O in EnrichmentOperation]: (
+		operations: LlmOperations,
+		handle: string,
+		options: OperationOptions,
+		product?: Product,
+	) => Promise<EnrichmentResults[O] | null>;
+} = {
+	enrich: (operations, handle, options, product) =>
+		operations.enriched(handle, { ...options, product }),
+	classify: (operations, handle, { apiKey, model }, product) =>
+		operations.classify(handle, { apiKey, model, product }),
+	seo: (operations, handle, { apiKey, model }, product) =>
+		operations.generateSEOContent(handle, { apiKey, model, product }),
+};
+
+/**
+ * Return the stored result for `ref` while the product is unchanged, or run
+ * `fn` with the loaded product and store what it returns. `force` skips the
+ * lookup. Resolves to `null` without calling `fn` when the product does not
+ * exist.
+ */
+export const withStoredEnrichment = async <T>(
+	enrichments: EnrichmentStore,
+	shop: ShopClient,
+	ref: EnrichmentRef,
+	force: boolean | undefined,
+	fn: (product: Product) => Promise<T | null>,
+): Promise<{ result: T | null; hit: boolean }> => {
+	const product = await callUpstream(() =>
+		shop.products.find(ref.handle, {
+			columns: { mode: "full", images: "full", options: "full" },
+		}),
+	);
+	if (!product) return { result: null, hit: false };
+	const productHash = productContentHash(product);
+	if (!force) {
+		const stored = await enrichments.get(ref);
+		if (stored?.productHash === productHash) {
+			return { result: stored.result as T, hit: true };
+		}
+	}
+	const result = await fn(product);
+	if (result !== null) {
+		await enrichments.save({
+			...ref,
+			model: ref.model ?? DEFAULT_MODEL,
+			productHash,
+			createdAt: new Date().toISOString(),
+			result,
+		});
+	}
+	return { result, hit: false };
+};
+
+export const buildEnrichmentEndpoints = (options?: {
+	enrichments?: EnrichmentStore;
+}) => {
+	const enrichments = options?.enrichments ?? makeEnrichmentStore();
+
+	const filterQuery = type({
+		"handle?": "string",
+		"operation?": "'enrich' | 'classify' | 'seo'",
+	});
+	const filterParameters = [
+		{
+			in: "query" as const,
+			name: "handle",
+			required: false,
+			schema: { type: "string" as const },
+		},
+		{
+			in: "query" as const,
+			name: "operation",
+			required: false,
+			schema: {
+				type: "string" as const,
+				enum: ["enrich", "classify", "seo"],
+			},
+		},
+	];
+
+	const listEnrichments = createEndpoint(
+		"/enrichments",
+		{
+			method: "GET",
+			query: filterQuery,
+			metadata: {
+				openapi: {
+					summary: "List stored LLM results",
+					description:
+						"Lists the stored enrichment, classification and SEO results of the store, optionally for one product handle or operation.",
+					parameters: filterParameters,
+					responses: {
+						200: jsonResponse(arrayOf("EnrichmentSummary")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
+					},
+				},
+			},
+		},
+		async (ctx) => await enrichments.list(shopDomainOf(ctx.headers), ctx.query),
+	);
+
+	const purgeEnrichments = createEndpoint(
+		"/enrichments",
+		{
+			method: "DELETE",
+			query: filterQuery,
+			metadata: {
+				openapi: {
+					summary: "Purge stored LLM results",
+					description:
+						"Deletes the matching stored results so the next call runs the LLM again. Without filters every result of the store is deleted.",
+					parameters: filterParameters,
+					responses: {
+						200: jsonResponse(schemaRef("EnrichmentPurgeResult")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
+					},
+				},
+			},
+		},
+		async (ctx) => ({
+			deleted: await enrichments.purge(shopDomainOf(ctx.headers), ctx.query),
+		}),
+	);
+
+	return { listEnrichments, purgeEnrichments };
+};
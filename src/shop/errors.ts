@@ -0,0 +1,331 @@
+import { APIError } from "better-call";
+
+/**
+ * Catalogue of errors returned by the shop endpoints. Every error is sent as
+ * `{ code, message, details? }` with the listed status.
+ */
+export const shopErrors = {
+	SHOP_DOMAIN_MISSING: {
+		status: 400,
+		message: "x-shop-domain header is required",
+	},
+	SHOP_DOMAIN_INVALID: {
+		status: 400,
+		message: "x-shop-domain is not a valid store domain",
+	},
+	INVALID_HANDLE: {
+		status: 400,
+		message: "The product or collection handle is invalid",
+	},
+	INVALID_PAGINATION: {
+		status: 400,
+		message: "The page, limit or cursor is invalid",
+	},
+	INVALID_SCHEDULE: {
+		status: 400,
+		message: "The cron expression is invalid",
+	},
+	CHECKOUT_INVALID: {
+		status: 400,
+		message: "The checkout request is invalid",
+	},
+	CART_INVALID: {
+		status: 400,
+		message: "The cart has unknown or unavailable variants",
+	},
+	WEBHOOK_URL_FORBIDDEN: {
+		status: 400,
+		message: "The webhook URL must be https on a public host",
+	},
+	LLM_KEY_MISSING: {
+		status: 400,
+		message: "An LLM API key is required for this endpoint",
+	},
+	LLM_MODEL_NOT_ALLOWED: {
+		status: 400,
+		message: "The requested LLM model is not allowed",
+	},
+	API_KEY_MISSING: {
+		status: 401,
+		message: "An API key is required",
+	},
+	API_KEY_INVALID: {
+		status: 401,
+		message: "The API key is invalid or revoked",
+	},
+	API_KEY_FORBIDDEN: {
+		status: 403,
+		message: "The API key does not allow this request",
+	},
+	SHOP_DOMAIN_FORBIDDEN: {
+		status: 403,
+		message: "The store domain is not allowed",
+	},
+	LLM_KEY_REJECTED: {
+		status: 403,
+		message: "LLM API keys in the request body are not accepted",
+	},
+	PRODUCT_NOT_FOUND: {
+		status: 404,
+		message: "Product not found",
+	},
+	COLLECTION_NOT_FOUND: {
+		status: 404,
+		message: "Collection not found",
+	},
+	CART_NOT_FOUND: {
+		status: 404,
+		message: "Cart not found or expired",
+	},
+	SNAPSHOT_NOT_FOUND: {
+		status: 404,
+		message: "Snapshot not found",
+	},
+	WEBHOOK_NOT_FOUND: {
+		status: 404,
+		message: "Webhook subscription not found",
+	},
+	JOB_NOT_FOUND: {
+		status: 404,
+		message: "Job not found",
+	},
+	SCHEDULE_NOT_FOUND: {
+		status: 404,
+		message: "Job schedule not found",
+	},
+	API_KEY_NOT_FOUND: {
+		status: 404,
+		message: "API key not found",
+	},
+	JOB_NOT_CANCELLABLE: {
+		status: 409,
+		message: "The job has already finished",
+	},
+	SHOP_NOT_SHOPIFY: {
+		status: 422,
+		message: "The domain is not a Shopify store",
+	},
+	API_KEY_QUOTA_EXCEEDED: {
+		status: 429,
+		message: "The API key's daily quota is used up",
+	},
+	RATE_LIMITED: {
+		status: 429,
+		message: "Too many requests, try again later",
+	},
+	UPSTREAM_RATE_LIMITED: {
+		status: 429,
+		message: "The store is rate limiting requests, try again later",
+	},
+	UPSTREAM_UNREACHABLE: {
+		status: 502,
+		message: "The store could not be reached",
+	},
+	UPSTREAM_CIRCUIT_OPEN: {
+		status: 503,
+		message: "The store keeps failing; requests are paused",
+	},
+	UPSTREAM_TIMEOUT: {
+		status: 504,
+		message: "The store did not respond in time",
+	},
+	LLM_REQUEST_FAILED: {
+		status: 502,
+		message: "The LLM provider request failed",
+	},
+	INTERNAL_SERVER_ERROR: {
+		status: 500,
+		message: "The request failed unexpectedly",
+	},
+} as const satisfies Record<string, { status: number; message: string }>;
+
+export type ShopErrorCode = keyof typeof shopErrors;
+
+export type ShopErrorBody = {
+	code: ShopErrorCode;
+	message: string;
+	details?: Record<string, unknown>;
+};
+
+export const shopError = (
+	code: ShopErrorCode,
+	options?: {
+		message?: string;
+		details?: Record<string, unknown>;
+		cause?: unknown;
+	},
+) => {
+	const { status, message } = shopErrors[code];
+	const error = new APIError(status, {
+		code,
+		message: options?.message ?? message,
+		...(options?.details ? { details: options.details } : {}),
+	});
+	// Kept on the error for logging; the body sent to clients stays
+	// `{ code, message, details }`.
+	if (options?.cause) error.cause = options.cause;
+	return error;
+};
+
+const isAPIError = (error: unknown): error is APIError =>
+	error instanceof APIError ||
+	(error instanceof Error && error.name === "APIError");
+
+export const isShopError = (error: unknown, code?: ShopErrorCode) =>
+	isAPIError(error) &&
+	typeof error.body?.code === "string" &&
+	error.body.code in shopErrors &&
+	(code === undefined || error.body.code === code);
+
+const upstreamStatus = (error: unknown): number | undefined => {
+	if (!error || typeof error !== "object") return undefined;
+	const record = error as Record<string, unknown>;
+	for (const key of ["statusCode", "status"]) {
+		if (typeof record[key] === "number") return record[key];
+	}
+	const message = error instanceof Error ? error.message : "";
+	const match = message.match(/(?:status:?|HTTP)\s*(\d{3})\b/i);
+	return match?.[1] ? Number(match[1]) : undefined;
+};
+
+/**
+ * Translate an error thrown by shop-client (or `fetch`) into a catalogue
+ * error. Errors that cannot be classified are returned unchanged.
+ */
+export const toShopError = (error: unknown): unknown => {
+	if (isAPIError(error)) return error;
+	const message = error instanceof Error ? error.message : String(error);
+	if (/missing .*api key|apikey is required/i.test(message)) {
+		return shopError("LLM_KEY_MISSING", { cause: error });
+	}
+	if (/^(LLM|OpenRouter|Offline SEO)\b/.test(message)) {
+		return shopError("LLM_REQUEST_FAILED", {
+			details: { reason: message },
+			cause: error,
+		});
+	}
+	if (
+		/^Invalid (product|collection) handle|handle is (required|too long)/i.test(
+			message,
+		)
+	) {
+		return shopError("INVALID_HANDLE", { message, cause: error });
+	}
+	if (/^Invalid pagination parameters/i.test(message)) {
+		return shopError("INVALID_PAGINATION", { message, cause: error });
+	}
+	const status = upstreamStatus(error);
+	if (status === 429 || /rate.?limit/i.test(message)) {
+		return shopError("UPSTREAM_RATE_LIMITED", {
+			details: status ? { upstreamStatus: status } : undefined,
+			cause: error,
+		});
+	}
+	if (
+		(error instanceof Error &&
+			(error.name === "AbortError" || error.name === "TimeoutError")) ||
+		/ETIMEDOUT/.test(message)
+	) {
+		return shopError("UPSTREAM_TIMEOUT", { cause: error });
+	}
+	if (
+		(status !== undefined && status >= 500) ||
+		(error instanceof Error &&
+			error.name === "TypeError" &&
+			/fetch/i.test(message)) ||
+		/ECONNREFUSED|ENOTFOUND|ECONNRESET|fetch failed|unable to connect/i.test(
+			message,
+		)
+	) {
+		return shopError("UPSTREAM_UNREACHABLE", {
+			details: status ? { upstreamStatus: status } : undefined,
+			cause: error,
+		});
+	}
+	return error;
+};
+
+/**
+ * Describe any error as `{ status, code, message, details? }`, for reporting
+ * per-item failures inside a successful response. Errors that are not in
+ * the catalogue are logged and reported as `INTERNAL_SERVER_ERROR`, so their
+ * messages never reach clients.
+ */
+export const describeError = (error: unknown) => {
+	const translated = toShopError(error);
+	if (!isShopError(translated)) {
+		console.error("Unexpected error", error);
+	}
+	const { statusCode, body } = (
+		isShopError(translated)
+			? translated
+			: shopError("INTERNAL_SERVER_ERROR", { cause: error })
+	) as APIError;
+	const { code, message, details } = body as ShopErrorBody;
+	return {
+		status: statusCode,
+		code: code as string,
+		message,
+		...(details ? { details } : {}),
+	};
+};
+
+/** Run an upstream call and rethrow its failure as a catalogue error. */
+export const callUpstream = async <T>(fn: () => Promise<T>): Promise<T> => {
+	try {
+		return await fn();
+	} catch (error) {
+		throw toShopError(error);
+	}
+};
+
+const errorSchema = (codes: ShopErrorCode[]) => ({
+	type: "object" as const,
+	properties: {
+		code: { type: "string" as const, enum: codes },
+		message: { type: "string" as const },
+		details: { type: "object" as const },
+	},
+	required: ["code", "message"],
+});
+
+/**
+ * Build OpenAPI `responses` entries for the given error codes, grouped by
+ * status so codes sharing a status are documented together.
+ */
+export const errorResponses = (...codes: ShopErrorCode[]) => {
+	const byStatus = new Map<number, ShopErrorCode[]>();
+	for (const code of codes) {
+		const status = shopErrors[code].status;
+		byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+	}
+	return Object.fromEntries(
+		[...byStatus].map(([status, group]) => [
+			status,
+			{
+				description: group.join(" | "),
+				content: { "application/json": { schema: errorSchema(group) } },
+			},
+		]),
+	);
+};
+
+/** Errors any endpoint that talks to the store can return. */
+export const upstreamErrors = [
+	"SHOP_DOMAIN_MISSING",
+	"SHOP_DOMAIN_INVALID",
+	"SHOP_DOMAIN_FORBIDDEN",
+	"SHOP_NOT_SHOPIFY",
+	"UPSTREAM_RATE_LIMITED",
+	"UPSTREAM_UNREACHABLE",
+	"UPSTREAM_CIRCUIT_OPEN",
+	"UPSTREAM_TIMEOUT",
+] as const satisfies ShopErrorCode[];
+
+/** Errors any endpoint that calls an LLM can return. */
+export const llmErrors = [
+	"LLM_KEY_MISSING",
+	"LLM_KEY_REJECTED",
+	"LLM_MODEL_NOT_ALLOWED",
+	"LLM_REQUEST_FAILED",
+] as const satisfies ShopErrorCode[];
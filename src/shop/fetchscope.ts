@@ -0,0 +1,106 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * How `fetch` behaves for requests made inside `withFetchScope`. shop-client
+ * calls the global `fetch` and takes neither a signal nor a fetch of its
+ * own, so this is how the requests it makes are timed out and checked.
+ */
+export type FetchScope = {
+	/** Timeout of each request in milliseconds, until its response arrives. */
+	timeout?: number;
+	/** Called when a request of the scope times out. */
+	onTimeout?: () => void;
+	/**
+	 * Sends the scope's requests instead of the global `fetch`. Requests it
+	 * makes itself still get the scope's timeout.
+	 */
+	fetch?: (url: string, init?: RequestInit) => Promise<Response>;
+};
+
+const scopes = new AsyncLocalStorage<FetchScope>();
+
+let unscoped: typeof fetch = globalThis.fetch;
+
+/** The method, headers, body and signal of `request`, for a `fetch(url, init)`. */
+const initOf = (request: Request) =>
+	({
+		method: request.method,
+		headers: request.headers,
+		body: request.body,
+		signal: request.signal,
+		...(request.body ? { duplex: "half" } : {}),
+	}) as RequestInit;
+
+/** Send with `scope`'s timeout, aborting the request when it is reached. */
+const timed = async <I>(
+	send: (input: I, init?: RequestInit) => Promise<Response>,
+	scope: FetchScope | undefined,
+	input: I,
+	init?: RequestInit,
+) => {
+	if (!scope?.timeout || scope.timeout <= 0) return await send(input, init);
+	const controller = new AbortController();
+	const timer = setTimeout(() => {
+		scope.onTimeout?.();
+		controller.abort(new DOMException("The request timed out", "TimeoutError"));
+	}, scope.timeout);
+	const signal = init?.signal
+		? AbortSignal.any([init.signal, controller.signal])
+		: controller.signal;
+	try {
+		return await send(input, { ...init, signal });
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+const scopedFetch = async (
+	input: string | URL | Request,
+	init?: RequestInit,
+): Promise<Response> => {
+	const scope = scopes.getStore();
+	if (!scope) return await unscoped(input, init);
+	const { fetch: via, ...rest } = scope;
+	if (via) {
+		if (!(input instanceof Request)) {
+			return await scopes.run(rest, () => via(String(input), init));
+		}
+		const request = new Request(input, init);
+		return await scopes.run(rest, () => via(request.url, initOf(request)));
+	}
+	return await timed(unscoped, scope, input, init);
+};
+
+/**
+ * The global `fetch` as it is outside every scope, looked up per call, for
+ * requests that are not made to a store, such as LLM completions.
+ */
+export const unscopedFetch = (
+	input: string | URL | Request,
+	init?: RequestInit,
+): Promise<Response> =>
+	globalThis.fetch === scopedFetch
+		? unscoped(input, init)
+		: globalThis.fetch(input, init);
+
+/**
+ * Wrap a `fetch` that does not go through the global one so its requests
+ * get the timeout of the scope they are made in.
+ */
+export const scopedTimeout =
+	<I>(send: (input: I, init?: RequestInit) => Promise<Response>) =>
+	(input: I, init?: RequestInit) =>
+		timed(send, scopes.getStore(), input, init);
+
+/**
+ * Run `fn` with `scope` applied to every `fetch` it makes, merged over the
+ * scope it is nested in. The global `fetch` is wrapped the first time, and
+ * again if it was replaced since; outside a scope it behaves as before.
+ */
+export const withFetchScope = <T>(scope: FetchScope, fn: () => T): T => {
+	if (globalThis.fetch !== scopedFetch) {
+		unscoped = globalThis.fetch;
+		globalThis.fetch = scopedFetch as typeof fetch;
+	}
+	return scopes.run({ ...scopes.getStore(), ...scope }, fn);
+};
@@ -1,11 +1,58 @@
-import { ShopClient, type ShopClientOptions } from "shop-client";
+import type { ShopClient, ShopClientOptions } from "shop-client";
+import { shopError } from "./errors";
+import {
+	makeStoreIdentities,
+	type StoreIdentities,
+	type StoreIdentityOptions,
+} from "./identity";
+import {
+	createShopRegistry,
+	normalizeShopDomain,
+	type ShopRegistry,
+	type ShopRegistryOptions,
+} from "./registry";
 
-export const makeGetShop = (options?: ShopClientOptions) => {
-	return (headers?: Headers) => {
-		const domain = headers?.get("x-shop-domain");
-		if (!domain) {
-			throw new Error("x-shop-domain header is required");
-		}
-		return new ShopClient(domain, options);
-	};
+export type GetShop = ((headers?: Headers) => ShopClient) & {
+	registry: ShopRegistry;
+	/** Maps a store's aliases to its myshopify domain. */
+	identities: StoreIdentities;
+};
+
+/** The normalized `x-shop-domain` of a request. */
+export const shopDomainOf = (headers?: Headers) => {
+	const domain = headers?.get("x-shop-domain");
+	if (!domain) {
+		throw shopError("SHOP_DOMAIN_MISSING");
+	}
+	return normalizeShopDomain(domain);
+};
+
+/**
+ * Create `getShop(headers)`. Aliases of a store that were resolved through
+ * `getShop.identities` share the client of its myshopify domain.
+ */
+export const makeGetShop = (
+	options?: ShopClientOptions &
+		ShopRegistryOptions & {
+			/** Storage and lifetime of resolved store identities. */
+			identity?: StoreIdentityOptions;
+		},
+): GetShop => {
+	const { identity, ...registryOptions } = options ?? {};
+	const registry = createShopRegistry(registryOptions);
+	const identities = makeStoreIdentities({
+		...identity,
+		domainPolicy: registry.domainPolicy,
+		upstream: registry.upstream,
+	});
+	const getShop = (headers?: Headers) =>
+		registry.get(identities.canonical(shopDomainOf(headers)));
+	return Object.assign(getShop, {
+		registry: {
+			...registry,
+			// Evict the client an alias shares with its store.
+			evict: (domain: string) => registry.evict(identities.canonical(domain)),
+		},
+		identities,
+	});
 };
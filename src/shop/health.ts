@@ -0,0 +1,45 @@
+import { createEndpoint } from "better-call";
+import type { StoreIdentities } from "./identity";
+import { normalizeShopDomain } from "./registry";
+import type { UpstreamGuard } from "./resilience";
+import { jsonResponse, schemaRef } from "./schemas";
+
+export const buildHealthEndpoints = (options: {
+	upstream: UpstreamGuard;
+	/** Maps aliases to the myshopify domain circuits are kept under. */
+	identities?: StoreIdentities;
+}) => {
+	const { upstream, identities } = options;
+
+	const getStoreHealth = createEndpoint(
+		"/health/:domain",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "Get a store's circuit breaker state",
+					description:
+						"Reports whether calls to the store go through (`closed`), fail fast with `UPSTREAM_CIRCUIT_OPEN` (`open`) or wait for one trial call (`half-open`). Resolved aliases report their store's circuit. The store is not contacted.",
+					parameters: [
+						{
+							in: "path",
+							name: "domain",
+							required: true,
+							schema: { type: "string" },
+						},
+					],
+					responses: {
+						200: jsonResponse(schemaRef("StoreHealth")),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			upstream.health(
+				identities?.canonical(ctx.params.domain) ??
+					normalizeShopDomain(ctx.params.domain),
+			),
+	);
+
+	return { getStoreHealth };
+};
@@ -0,0 +1,221 @@
+import {
+	type DomainPolicy,
+	makeDomainPolicy,
+	shopScriptPattern,
+} from "./domains";
+import { callUpstream, shopError } from "./errors";
+import { normalizeShopDomain } from "./registry";
+import { makeUpstreamGuard, type UpstreamGuard } from "./resilience";
+import type { StoreIdentitySchema } from "./schemas";
+import { createMemoryStore, type KeyValueStore } from "./storage";
+
+export type StoreIdentity = typeof StoreIdentitySchema.infer;
+
+export type StoreIdentityOptions = {
+	/** Where resolved identities are kept, e.g. `createFileStore({ dir })`. */
+	store?: KeyValueStore;
+	/** How long a resolved identity is reused, in milliseconds. */
+	ttl?: number;
+};
+
+export type StoreIdentities = {
+	/**
+	 * Follow the domain's redirects and read its storefront to find the
+	 * store behind it. Results are cached for `ttl`; throws
+	 * `SHOP_NOT_SHOPIFY` when the domain is not a Shopify store.
+	 */
+	resolve: (domain: string) => Promise<StoreIdentity>;
+	/**
+	 * The myshopify domain of an alias resolved before, otherwise the
+	 * normalized domain itself. Does not contact the store.
+	 */
+	canonical: (domain: string) => string;
+	/** The myshopify domain of any alias, resolving it when needed. */
+	canonicalize: (domain: string) => Promise<string>;
+};
+
+const DEFAULT_TTL = 24 * 60 * 60_000;
+const MAX_KNOWN_ALIASES = 10_000;
+
+const myshopifyPattern = /^[a-z\d][a-z\d-]*\.myshopify\.com$/;
+
+const identityKey = (myshopifyDomain: string) =>
+	`identity|store|${myshopifyDomain}`;
+const aliasKey = (domain: string) => `identity|alias|${domain}`;
+
+const hostOf = (value: unknown) =>
+	typeof value === "string" && value ? normalizeShopDomain(value) : undefined;
+
+/** Throw for answers that mean the store is down or limiting us. */
+const ensureAnswered = async (res: Response) => {
+	if (res.status === 429 || res.status >= 500) {
+		await res.body?.cancel();
+		throw Object.assign(new Error(`HTTP ${res.status}`), {
+			status: res.status,
+		});
+	}
+};
+
+/**
+ * Create the resolver that maps custom domains, `www.` variants and
+ * `*.myshopify.com` to one store identity. `/meta.json` is read first; the
+ * `Shopify.shop` script of the homepage is the fallback.
+ */
+export const makeStoreIdentities = (
+	options?: StoreIdentityOptions & {
+		domainPolicy?: DomainPolicy;
+		upstream?: UpstreamGuard;
+	},
+): StoreIdentities => {
+	const store = options?.store ?? createMemoryStore();
+	const ttl = options?.ttl ?? DEFAULT_TTL;
+	const domainPolicy = options?.domainPolicy ?? makeDomainPolicy();
+	const upstream = options?.upstream ?? makeUpstreamGuard();
+	const known = new Map<string, string>();
+	const pending = new Map<string, Promise<StoreIdentity>>();
+
+	const remember = (identity: StoreIdentity) => {
+		for (const alias of identity.aliases) {
+			// Re-insert to mark as most recently used.
+			known.delete(alias);
+			known.set(alias, identity.myshopifyDomain);
+		}
+		while (known.size > MAX_KNOWN_ALIASES) {
+			const oldest = known.keys().next().value;
+			if (oldest === undefined) break;
+			known.delete(oldest);
+		}
+		return identity;
+	};
+
+	/** Read the storefront behind `domain` and the hosts it redirects through. */
+	const inspect = (domain: string) =>
+		upstream.call(domain, async (signal) => {
+			const hosts = [domain];
+			const onRedirect = (url: URL) =>
+				hosts.push(normalizeShopDomain(url.hostname));
+			const meta = await domainPolicy.fetch(`https://${domain}/meta.json`, {
+				headers: { accept: "application/json" },
+				signal,
+				onRedirect,
+			});
+			await ensureAnswered(meta);
+			const body = (await meta.json().catch(() => undefined)) as
+				| { myshopify_domain?: unknown; domain?: unknown }
+				| undefined;
+			let myshopifyDomain = hostOf(body?.myshopify_domain);
+			if (!myshopifyDomain) {
+				const page = await domainPolicy.fetch(`https://${domain}/`, {
+					signal,
+					onRedirect,
+				});
+				await ensureAnswered(page);
+				const html = page.ok ? await page.text() : "";
+				myshopifyDomain = hostOf(html.match(shopScriptPattern)?.[1]);
+			}
+			if (!myshopifyDomain || !myshopifyPattern.test(myshopifyDomain)) {
+				throw shopError("SHOP_NOT_SHOPIFY", { details: { domain } });
+			}
+			return {
+				hosts,
+				myshopifyDomain,
+				primaryDomain:
+					hostOf(body?.domain) ?? hosts[hosts.length - 1] ?? domain,
+			};
+		});
+
+	const lookup = async (domain: string) => {
+		const { hosts, myshopifyDomain, primaryDomain } = await callUpstream(() =>
+			inspect(domain),
+		);
+		const previous = await store.get<StoreIdentity>(
+			identityKey(myshopifyDomain),
+		);
+		const identity: StoreIdentity = {
+			myshopifyDomain,
+			primaryDomain,
+			aliases: [
+				...new Set([
+					...(previous?.aliases ?? []),
+					...hosts,
+					primaryDomain,
+					myshopifyDomain,
+				]),
+			],
+			resolvedAt: new Date().toISOString(),
+		};
+		await store.set(identityKey(myshopifyDomain), identity, ttl);
+		for (const alias of identity.aliases) {
+			await store.set(aliasKey(alias), myshopifyDomain, ttl);
+		}
+		return remember(identity);
+	};
+
+	const resolve = async (input: string) => {
+		const domain = domainPolicy.check(input);
+		const myshopifyDomain = await store.get<string>(aliasKey(domain));
+		const cached = myshopifyDomain
+			? await store.get<StoreIdentity>(identityKey(myshopifyDomain))
+			: undefined;
+		if (cached?.aliases.includes(domain)) return remember(cached);
+		const inFlight = pending.get(domain);
+		if (inFlight) return await inFlight;
+		// Refusals are cached by the policy, so they are not looked up again.
+		const next = domainPolicy
+			.verify(domain)
+			.then(() => lookup(domain))
+			.finally(() => pending.delete(domain));
+		pending.set(domain, next);
+		return await next;
+	};
+
+	const canonical = (input: string) => {
+		const domain = normalizeShopDomain(input);
+		return known.get(domain) ?? domain;
+	};
+
+	return {
+		resolve,
+		canonical,
+		canonicalize: async (input) => {
+			const domain = normalizeShopDomain(input);
+			if (myshopifyPattern.test(domain)) return domain;
+			return (await resolve(input)).myshopifyDomain;
+		},
+	};
+};
+
+/**
+ * Wrap a router handler so `x-shop-domain` is replaced by the store's
+ * myshopify domain before the endpoints see it, and response caches,
+ * snapshots and other per-store state share one key across aliases. When
+ * the domain cannot be resolved the request is passed on unchanged and the
+ * endpoint reports the error. With `accepts`, only requests it accepts,
+ * such as ones to endpoints that read from the store with a key that covers
+ * the domain, may make the service contact a store to resolve an alias; the
+ * others keep known aliases only.
+ */
+export const canonicalDomains =
+	(
+		handler: (request: Request) => Promise<Response>,
+		identities: StoreIdentities,
+		options?: { accepts?: (request: Request) => Promise<boolean> },
+	) =>
+	async (request: Request) => {
+		const header = request.headers.get("x-shop-domain");
+		if (!header) return await handler(request);
+		// Known aliases are resolved from the cache without contacting a store.
+		const known = identities.canonical(header) !== normalizeShopDomain(header);
+		if (!known && options?.accepts && !(await options.accepts(request))) {
+			return await handler(request);
+		}
+		const canonical = await identities
+			.canonicalize(header)
+			.catch(() => undefined);
+		if (!canonical || canonical === normalizeShopDomain(header)) {
+			return await handler(request);
+		}
+		const headers = new Headers(request.headers);
+		headers.set("x-shop-domain", canonical);
+		return await handler(new Request(request, { headers }));
+	};
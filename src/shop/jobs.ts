@@ -0,0 +1,728 @@
+import { randomUUID } from "node:crypto";
+import { createEndpoint } from "better-call";
+import type { ShopClient } from "shop-client";
+import { currentApiKeyId, runAsApiKey } from "./auth";
+import { nextCronRun, parseCron } from "./cron";
+import {
+	callUpstream,
+	errorResponses,
+	isShopError,
+	type ShopErrorBody,
+	shopError,
+	toShopError,
+} from "./errors";
+import { type GetShop, shopDomainOf } from "./getShop";
+import { type LlmPolicy, makeLlmPolicy } from "./llm";
+import {
+	arrayOf,
+	JobBodySchema,
+	JobScheduleBodySchema,
+	jsonRequestBody,
+	jsonResponse,
+	schemaRef,
+} from "./schemas";
+import { makeSnapshotStore, type SnapshotStore } from "./snapshots";
+import { createMemoryStore, type KeyValueStore } from "./storage";
+import { makeWebhooks, pollCatalog, type Webhooks } from "./webhooks";
+
+export type JobType = (typeof JobBodySchema.infer)["type"];
+
+export type JobInput = NonNullable<(typeof JobBodySchema.infer)["input"]>;
+
+export type JobStatus =
+	| "queued"
+	| "running"
+	| "succeeded"
+	| "failed"
+	| "cancelled";
+
+export type Job = {
+	id: string;
+	domain: string;
+	type: JobType;
+	input: JobInput;
+	status: JobStatus;
+	progress: { completed: number; total: number };
+	result?: unknown;
+	error?: { code: string; message: string };
+	/** Set when the job was started by a schedule. */
+	scheduleId?: string;
+	/** The API key that enqueued the job; its LLM calls are charged to it. */
+	apiKeyId?: string;
+	createdAt: string;
+	startedAt?: string;
+	finishedAt?: string;
+};
+
+export type JobSchedule = {
+	id: string;
+	domain: string;
+	cron: string;
+	type: JobType;
+	input: JobInput;
+	/** The API key that created the schedule, passed on to its jobs. */
+	apiKeyId?: string;
+	createdAt: string;
+	nextRunAt: string;
+	lastRunAt?: string;
+	lastJobId?: string;
+};
+
+export type JobContext = {
+	domain: string;
+	input: JobInput;
+	/** Aborted when the job is cancelled; handlers should stop promptly. */
+	signal: AbortSignal;
+	progress: (completed: number, total: number) => void;
+};
+
+export type JobHandler = (ctx: JobContext) => Promise<unknown>;
+
+export type JobQueueOptions = {
+	/**
+	 * Where jobs and schedules are kept. With a persistent store, such as
+	 * `createFileStore`, queued jobs and schedules survive restarts.
+	 */
+	store?: KeyValueStore;
+	/** Jobs run at once across all domains. */
+	concurrency?: number;
+	/** Job records kept per domain; the oldest finished ones are deleted. */
+	maxJobs?: number;
+};
+
+export type JobQueue = {
+	enqueue: (
+		domain: string,
+		type: JobType,
+		input?: JobInput,
+		scheduleId?: string,
+	) => Promise<Job>;
+	get: (domain: string, id: string) => Promise<Job>;
+	list: (domain: string) => Promise<Job[]>;
+	cancel: (domain: string, id: string) => Promise<Job>;
+	schedule: (
+		domain: string,
+		input: { cron: string; type: JobType; input?: JobInput },
+	) => Promise<JobSchedule>;
+	schedules: (domain: string) => Promise<JobSchedule[]>;
+	unschedule: (domain: string, id: string) => Promise<boolean>;
+	/** Stop the schedule timers and cancel running jobs. */
+	close: () => void;
+};
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_JOBS = 100;
+// setTimeout overflows past this, so longer waits are re-armed.
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const jobKey = (id: string) => `job|${id}`;
+const domainJobsKey = (domain: string) => `job|domain|${domain}`;
+const PENDING_KEY = "job|pending";
+const scheduleKey = (id: string) => `job|schedule|${id}`;
+const SCHEDULES_KEY = "job|schedules";
+
+const isActive = (job?: Job) =>
+	job?.status === "queued" || job?.status === "running";
+
+const toJobError = (error: unknown) => {
+	const translated = toShopError(error);
+	if (isShopError(translated)) {
+		const { code, message } = (translated as { body: ShopErrorBody }).body;
+		return { code, message };
+	}
+	return {
+		code: "JOB_FAILED",
+		message: error instanceof Error ? error.message : String(error),
+	};
+};
+
+/**
+ * Create the in-process job queue. Jobs run in FIFO order with at most
+ * `concurrency` at once, and recurring schedules enqueue a job on each cron
+ * tick unless the previous one is still active. State lives in a
+ * `KeyValueStore`, so plugging in a persistent store persists the queue: on
+ * start, queued jobs are resumed and jobs that were running are marked failed.
+ */
+export const makeJobQueue = (
+	handlers: Record<JobType, JobHandler>,
+	options?: JobQueueOptions,
+): JobQueue => {
+	const store = options?.store ?? createMemoryStore();
+	const concurrency = Math.max(1, options?.concurrency ?? DEFAULT_CONCURRENCY);
+	const maxJobs = Math.max(1, options?.maxJobs ?? DEFAULT_MAX_JOBS);
+	const queue: string[] = [];
+	const running = new Map<string, AbortController>();
+	const timers = new Map<string, ReturnType<typeof setTimeout>>();
+	const chains = new Map<string, Promise<unknown>>();
+
+	// Writes to the same key run one after another so updates are not lost.
+	const serial = <T>(key: string, fn: () => Promise<T>) => {
+		const next = (chains.get(key) ?? Promise.resolve())
+			.catch(() => {})
+			.then(fn);
+		chains.set(key, next);
+		return next.finally(() => {
+			if (chains.get(key) === next) chains.delete(key);
+		});
+	};
+
+	const updateList = (key: string, update: (ids: string[]) => string[]) =>
+		serial(key, async () => {
+			const ids = update((await store.get<string[]>(key)) ?? []);
+			await store.set(key, ids);
+			return ids;
+		});
+
+	const load = (id: string) => store.get<Job>(jobKey(id));
+
+	const save = (job: Job) =>
+		serial(jobKey(job.id), () => store.set(jobKey(job.id), job));
+
+	const update = (id: string, patch: (job: Job) => Partial<Job>) =>
+		serial(jobKey(id), async () => {
+			const job = await load(id);
+			if (!job) return undefined;
+			const next = { ...job, ...patch(job) };
+			await store.set(jobKey(id), next);
+			return next;
+		});
+
+	const finish = async (id: string, patch: Partial<Job>) => {
+		await update(id, () => ({
+			...patch,
+			finishedAt: new Date().toISOString(),
+		}));
+		await updateList(PENDING_KEY, (ids) => ids.filter((other) => other !== id));
+	};
+
+	/** Run a job in its slot. Never rejects; the slot is always released. */
+	const run = async (id: string, controller: AbortController) => {
+		try {
+			const job = await load(id);
+			if (job?.status !== "queued" || controller.signal.aborted) {
+				if (job?.status === "queued") await finish(id, { status: "cancelled" });
+				return;
+			}
+			await update(id, () => ({
+				status: "running",
+				startedAt: new Date().toISOString(),
+			}));
+			const result = await runAsApiKey(job.apiKeyId, () =>
+				handlers[job.type]({
+					domain: job.domain,
+					input: job.input,
+					signal: controller.signal,
+					progress: (completed, total) => {
+						// Progress is best effort; the final state is written by `finish`.
+						update(id, () => ({ progress: { completed, total } })).catch(
+							() => {},
+						);
+					},
+				}),
+			);
+			await finish(
+				id,
+				controller.signal.aborted
+					? { status: "cancelled" }
+					: { status: "succeeded", result },
+			);
+		} catch (error) {
+			await finish(
+				id,
+				controller.signal.aborted
+					? { status: "cancelled" }
+					: { status: "failed", error: toJobError(error) },
+			).catch(() => {});
+		} finally {
+			running.delete(id);
+			pump();
+		}
+	};
+
+	const pump = () => {
+		while (running.size < concurrency && queue.length > 0) {
+			const id = queue.shift();
+			if (!id) continue;
+			// The slot is taken before the job loads so bursts respect the limit.
+			const controller = new AbortController();
+			running.set(id, controller);
+			void run(id, controller);
+		}
+	};
+
+	const owned = async (domain: string, id: string) => {
+		const job = await load(id);
+		if (!job || job.domain !== domain) {
+			throw shopError("JOB_NOT_FOUND", { details: { id } });
+		}
+		return job;
+	};
+
+	const enqueue: JobQueue["enqueue"] = async (
+		domain,
+		type,
+		input,
+		scheduleId,
+	) => {
+		const apiKeyId = currentApiKeyId();
+		await ready;
+		const job: Job = {
+			id: randomUUID(),
+			domain,
+			type,
+			input: input ?? {},
+			status: "queued",
+			progress: { completed: 0, total: 0 },
+			...(scheduleId ? { scheduleId } : {}),
+			...(apiKeyId ? { apiKeyId } : {}),
+			createdAt: new Date().toISOString(),
+		};
+		await save(job);
+		await updateList(PENDING_KEY, (ids) => [...ids, job.id]);
+		const ids = await updateList(domainJobsKey(domain), (ids) => [
+			...ids,
+			job.id,
+		]);
+		if (ids.length > maxJobs) {
+			const expired: string[] = [];
+			for (const id of ids.slice(0, ids.length - maxJobs)) {
+				if (!isActive(await load(id))) expired.push(id);
+			}
+			await updateList(domainJobsKey(domain), (ids) =>
+				ids.filter((id) => !expired.includes(id)),
+			);
+			await Promise.all(expired.map((id) => store.delete(jobKey(id))));
+		}
+		queue.push(job.id);
+		pump();
+		return job;
+	};
+
+	const loadSchedule = (id: string) => store.get<JobSchedule>(scheduleKey(id));
+
+	const arm = (schedule: JobSchedule) => {
+		clearTimeout(timers.get(schedule.id));
+		const delay = Date.parse(schedule.nextRunAt) - Date.now();
+		const timer = setTimeout(
+			() => {
+				if (delay > MAX_TIMER_DELAY) {
+					arm(schedule);
+					return;
+				}
+				void tick(schedule);
+			},
+			Math.min(Math.max(0, delay), MAX_TIMER_DELAY),
+		);
+		timer.unref?.();
+		timers.set(schedule.id, timer);
+	};
+
+	/**
+	 * Enqueue the run of an armed schedule and arm the next one. The next run
+	 * is armed even when this one fails, so a store error does not stop the
+	 * schedule. Never rejects.
+	 */
+	const tick = async (armed: JobSchedule) => {
+		let next: JobSchedule | undefined = {
+			...armed,
+			nextRunAt: nextCronRun(armed.cron).toISOString(),
+		};
+		try {
+			const schedule = await loadSchedule(armed.id);
+			if (!schedule) {
+				// Deleted since it was armed.
+				next = undefined;
+				return;
+			}
+			const previous = schedule.lastJobId
+				? await load(schedule.lastJobId)
+				: undefined;
+			next = { ...schedule, nextRunAt: next.nextRunAt };
+			// Skip the run rather than pile up jobs behind a slow one.
+			const job = isActive(previous)
+				? undefined
+				: await runAsApiKey(schedule.apiKeyId, () =>
+						enqueue(schedule.domain, schedule.type, schedule.input, armed.id),
+					);
+			if (job) next = { ...next, lastRunAt: job.createdAt, lastJobId: job.id };
+			await store.set(scheduleKey(armed.id), next);
+		} catch {
+			// Retried on the next run.
+		} finally {
+			if (next) arm(next);
+		}
+	};
+
+	const ownedSchedule = async (domain: string, id: string) => {
+		const schedule = await loadSchedule(id);
+		if (!schedule || schedule.domain !== domain) {
+			throw shopError("SCHEDULE_NOT_FOUND", { details: { id } });
+		}
+		return schedule;
+	};
+
+	const recover = async () => {
+		for (const id of (await store.get<string[]>(PENDING_KEY)) ?? []) {
+			const job = await load(id);
+			if (job?.status === "queued") {
+				queue.push(id);
+			} else if (job?.status === "running") {
+				await finish(id, {
+					status: "failed",
+					error: {
+						code: "JOB_INTERRUPTED",
+						message: "The job was interrupted by a restart",
+					},
+				});
+			} else {
+				await updateList(PENDING_KEY, (ids) =>
+					ids.filter((other) => other !== id),
+				);
+			}
+		}
+		for (const id of (await store.get<string[]>(SCHEDULES_KEY)) ?? []) {
+			const schedule = await loadSchedule(id);
+			if (schedule) arm(schedule);
+		}
+		pump();
+	};
+	const ready = recover();
+
+	return {
+		enqueue,
+		get: async (domain, id) => {
+			await ready;
+			return owned(domain, id);
+		},
+		list: async (domain) => {
+			await ready;
+			const ids = (await store.get<string[]>(domainJobsKey(domain))) ?? [];
+			const jobs = await Promise.all(ids.map(load));
+			return jobs.filter((job): job is Job => job !== undefined).reverse();
+		},
+		cancel: async (domain, id) => {
+			await ready;
+			const job = await owned(domain, id);
+			if (!isActive(job)) {
+				throw shopError("JOB_NOT_CANCELLABLE", {
+					details: { id, status: job.status },
+				});
+			}
+			const controller = running.get(id);
+			if (controller) {
+				// The runner records the cancellation once the handler stops.
+				controller.abort();
+				return { ...job, status: "cancelled" };
+			}
+			const index = queue.indexOf(id);
+			if (index >= 0) queue.splice(index, 1);
+			await finish(id, { status: "cancelled" });
+			return (await load(id)) ?? job;
+		},
+		schedule: async (domain, input) => {
+			const apiKeyId = currentApiKeyId();
+			await ready;
+			let nextRunAt: Date;
+			try {
+				nextRunAt = nextCronRun(parseCron(input.cron));
+			} catch (error) {
+				throw shopError("INVALID_SCHEDULE", {
+					message: error instanceof Error ? error.message : undefined,
+					details: { cron: input.cron },
+				});
+			}
+			const schedule: JobSchedule = {
+				id: randomUUID(),
+				domain,
+				cron: input.cron,
+				type: input.type,
+				input: input.input ?? {},
+				...(apiKeyId ? { apiKeyId } : {}),
+				createdAt: new Date().toISOString(),
+				nextRunAt: nextRunAt.toISOString(),
+			};
+			await store.set(scheduleKey(schedule.id), schedule);
+			await updateList(SCHEDULES_KEY, (ids) => [...ids, schedule.id]);
+			arm(schedule);
+			return schedule;
+		},
+		schedules: async (domain) => {
+			await ready;
+			const ids = (await store.get<string[]>(SCHEDULES_KEY)) ?? [];
+			const schedules = await Promise.all(ids.map(loadSchedule));
+			return schedules.filter(
+				(schedule): schedule is JobSchedule => schedule?.domain === domain,
+			);
+		},
+		unschedule: async (domain, id) => {
+			await ready;
+			await ownedSchedule(domain, id);
+			clearTimeout(timers.get(id));
+			timers.delete(id);
+			await updateList(SCHEDULES_KEY, (ids) =>
+				ids.filter((other) => other !== id),
+			);
+			await store.delete(scheduleKey(id));
+			return true;
+		},
+		close: () => {
+			for (const timer of timers.values()) clearTimeout(timer);
+			timers.clear();
+			for (const controller of running.values()) controller.abort();
+		},
+	};
+};
+
+/** Run `fn` for each product of the store or of one collection. */
+const forEachProduct = async (
+	shop: ShopClient,
+	ctx: JobContext,
+	fn: (handle: string) => Promise<unknown>,
+) => {
+	const { collection } = ctx.input;
+	const products = collection
+		? await callUpstream(() => shop.collections.products.all(collection))
+		: await callUpstream(() => shop.products.all());
+	if (!products) {
+		throw shopError("COLLECTION_NOT_FOUND", {
+			details: { handle: collection },
+		});
+	}
+	const items: { handle: string; result: unknown }[] = [];
+	const failures: { handle: string; code: string; message: string }[] = [];
+	ctx.progress(0, products.length);
+	for (const [position, { handle }] of products.entries()) {
+		ctx.signal.throwIfAborted();
+		try {
+			items.push({ handle, result: await callUpstream(() => fn(handle)) });
+		} catch (error) {
+			// The remaining products would fail the same way.
+			if (isShopError(error, "API_KEY_QUOTA_EXCEEDED")) throw error;
+			failures.push({ handle, ...toJobError(error) });
+		}
+		ctx.progress(position + 1, products.length);
+	}
+	return { items, failures };
+};
+
+/**
+ * Handlers for the built-in job types. LLM jobs take their API key from the
+ * `llm` settings (or the shop client), since job inputs are stored and never
+ * hold secrets. `input.model` is checked against the allowed models.
+ */
+export const catalogJobHandlers = (options: {
+	shopFor: (domain: string) => ShopClient;
+	snapshots: SnapshotStore;
+	webhooks: Webhooks;
+	llm?: LlmPolicy;
+}): Record<JobType, JobHandler> => {
+	const llm = options.llm ?? makeLlmPolicy();
+	return {
+		"catalog.crawl": async ({ domain }) =>
+			pollCatalog(
+				options.webhooks,
+				options.snapshots,
+				options.shopFor(domain),
+				domain,
+			),
+		"products.enrich": async (ctx) => {
+			const shop = options.shopFor(ctx.domain);
+			const credentials = llm.resolve(ctx.domain, { model: ctx.input.model });
+			const operations = llm.operations(shop, ctx.domain);
+			return forEachProduct(shop, ctx, async (handle) => {
+				const product = await operations.enriched(handle, credentials);
+				return product?.enriched_content ?? null;
+			});
+		},
+		"products.classify": async (ctx) => {
+			const shop = options.shopFor(ctx.domain);
+			const credentials = llm.resolve(ctx.domain, { model: ctx.input.model });
+			const operations = llm.operations(shop, ctx.domain);
+			return forEachProduct(shop, ctx, (handle) =>
+				operations.classify(handle, credentials),
+			);
+		},
+		"store.type": async ({ domain, input }) => {
+			const credentials = llm.resolve(domain, { model: input.model });
+			return callUpstream(() =>
+				llm
+					.operations(options.shopFor(domain), domain)
+					.determineStoreType(credentials),
+			);
+		},
+	};
+};
+
+export const buildJobEndpoints = (
+	getShop: GetShop,
+	options?: { jobs?: JobQueue },
+) => {
+	const jobs =
+		options?.jobs ??
+		makeJobQueue(
+			catalogJobHandlers({
+				shopFor: getShop.registry.get,
+				snapshots: makeSnapshotStore(),
+				webhooks: makeWebhooks(),
+			}),
+		);
+
+	const idParameter = {
+		in: "path" as const,
+		name: "id",
+		required: true,
+		schema: { type: "string" as const },
+	};
+
+	const createJob = createEndpoint(
+		"/jobs",
+		{
+			method: "POST",
+			body: JobBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Enqueue a job",
+					description:
+						"`catalog.crawl` snapshots the catalog and dispatches webhook events, `products.enrich` and `products.classify` run over every product (or every product of `input.collection`), and `store.type` determines the store type. Poll `GET /jobs/{id}` for progress.",
+					requestBody: jsonRequestBody("JobBody"),
+					responses: {
+						200: jsonResponse(schemaRef("Job")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			await jobs.enqueue(
+				shopDomainOf(ctx.headers),
+				ctx.body.type,
+				ctx.body.input,
+			),
+	);
+
+	const listJobs = createEndpoint(
+		"/jobs",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "List jobs",
+					description: "Newest first.",
+					responses: {
+						200: jsonResponse(arrayOf("Job")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
+					},
+				},
+			},
+		},
+		async (ctx) => await jobs.list(shopDomainOf(ctx.headers)),
+	);
+
+	const createJobSchedule = createEndpoint(
+		"/jobs/schedules",
+		{
+			method: "POST",
+			body: JobScheduleBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Schedule a recurring job",
+					description:
+						"`cron` is a five-field expression evaluated in UTC, e.g. `0 */6 * * *`.",
+					requestBody: jsonRequestBody("JobScheduleBody"),
+					responses: {
+						200: jsonResponse(schemaRef("JobSchedule")),
+						...errorResponses("SHOP_DOMAIN_MISSING", "INVALID_SCHEDULE"),
+					},
+				},
+			},
+		},
+		async (ctx) => await jobs.schedule(shopDomainOf(ctx.headers), ctx.body),
+	);
+
+	const listJobSchedules = createEndpoint(
+		"/jobs/schedules",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "List job schedules",
+					responses: {
+						200: jsonResponse(arrayOf("JobSchedule")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
+					},
+				},
+			},
+		},
+		async (ctx) => await jobs.schedules(shopDomainOf(ctx.headers)),
+	);
+
+	const deleteJobSchedule = createEndpoint(
+		"/jobs/schedules/:id",
+		{
+			method: "DELETE",
+			metadata: {
+				openapi: {
+					summary: "Delete a job schedule",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(schemaRef("Success")),
+						...errorResponses("SHOP_DOMAIN_MISSING", "SCHEDULE_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) => ({
+			success: await jobs.unschedule(shopDomainOf(ctx.headers), ctx.params.id),
+		}),
+	);
+
+	const getJob = createEndpoint(
+		"/jobs/:id",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "Get a job",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(schemaRef("Job")),
+						...errorResponses("SHOP_DOMAIN_MISSING", "JOB_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) => await jobs.get(shopDomainOf(ctx.headers), ctx.params.id),
+	);
+
+	const cancelJob = createEndpoint(
+		"/jobs/:id/cancel",
+		{
+			method: "POST",
+			metadata: {
+				openapi: {
+					summary: "Cancel a job",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(schemaRef("Job")),
+						...errorResponses(
+							"SHOP_DOMAIN_MISSING",
+							"JOB_NOT_FOUND",
+							"JOB_NOT_CANCELLABLE",
+						),
+					},
+				},
+			},
+		},
+		async (ctx) => await jobs.cancel(shopDomainOf(ctx.headers), ctx.params.id),
+	);
+
+	return {
+		createJob,
+		listJobs,
+		createJobSchedule,
+		listJobSchedules,
+		deleteJobSchedule,
+		getJob,
+		cancelJob,
+	};
+};
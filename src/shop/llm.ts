@@ -0,0 +1,165 @@
+import type { ShopClient } from "shop-client";
+import { currentApiKeyId } from "./auth";
+import { shopError } from "./errors";
+import {
+	type LlmOperations,
+	type LlmProvider,
+	type LlmStream,
+	providerOperations,
+} from "./providers";
+import { normalizeShopDomain } from "./registry";
+
+export type LlmSettings = {
+	/**
+	 * Where completions are sent: `"openrouter"` (the default) uses the
+	 * shop-client integration, or pass an adapter such as
+	 * `createOpenAICompatibleProvider` or `createMockProvider`.
+	 */
+	provider?: "openrouter" | LlmProvider;
+	apiKey?: string;
+	/** Model used when a request does not pick one. */
+	model?: string;
+	/**
+	 * Models a request may pick with `model`. Other models are rejected with
+	 * `LLM_MODEL_NOT_ALLOWED`; the default `model` is always allowed. Omit to
+	 * accept any model.
+	 */
+	allowedModels?: string[];
+	/**
+	 * Accept an `apiKey` in request bodies. Otherwise such requests are
+	 * rejected with `LLM_KEY_REJECTED`, so keys never leave the server.
+	 * Defaults to `false`.
+	 */
+	allowRequestApiKey?: boolean;
+};
+
+export type LlmOptions = LlmSettings & {
+	/** Settings per store domain, merged over the defaults. */
+	domains?: Record<string, LlmSettings>;
+	/**
+	 * Maps a domain to its store's canonical domain, so settings for
+	 * `brand.com` also apply to `brand.myshopify.com`.
+	 */
+	canonicalDomain?: (domain: string) => string;
+	/**
+	 * Count one LLM call against the API key a request or job runs as (see
+	 * `currentApiKeyId`); throwing stops the call.
+	 */
+	chargeCall?: (apiKeyId: string) => Promise<void>;
+};
+
+export type LlmCredentials = { apiKey?: string; model?: string };
+
+export type LlmPolicy = {
+	/** The settings in effect for a store. */
+	settings: (domain: string) => LlmSettings;
+	/** The name of the store's provider, e.g. `openrouter`. */
+	provider: (domain: string) => string;
+	/**
+	 * Check the `apiKey` and `model` a request asked for against the store's
+	 * settings and fill in the configured defaults.
+	 */
+	resolve: (domain: string, requested?: LlmCredentials) => LlmCredentials;
+	/**
+	 * The LLM operations for a store, backed by its configured provider.
+	 * `stream.onDelta` receives the reply as it is generated and
+	 * `stream.signal` aborts it when the provider streams; the OpenRouter
+	 * integration does neither. Each call is charged to the API key current
+	 * when `operations` is called.
+	 */
+	operations: (
+		shop: ShopClient,
+		domain: string,
+		stream?: LlmStream,
+	) => LlmOperations;
+};
+
+export const makeLlmPolicy = (options?: LlmOptions): LlmPolicy => {
+	const { domains, canonicalDomain, chargeCall, ...defaults } = options ?? {};
+	const overrides = new Map(
+		Object.entries(domains ?? {}).map(([domain, settings]) => [
+			normalizeShopDomain(domain),
+			settings,
+		]),
+	);
+
+	const overrideFor = (domain: string) => {
+		const exact = overrides.get(normalizeShopDomain(domain));
+		if (exact || !canonicalDomain) return exact;
+		const canonical = canonicalDomain(domain);
+		for (const [configured, settings] of overrides) {
+			if (canonicalDomain(configured) === canonical) return settings;
+		}
+		return undefined;
+	};
+
+	const settings = (domain: string): LlmSettings => ({
+		...defaults,
+		...overrideFor(domain),
+	});
+
+	return {
+		settings,
+		provider: (domain) => {
+			const { provider = "openrouter" } = settings(domain);
+			return typeof provider === "string" ? provider : provider.name;
+		},
+		operations: (shop, domain, stream) => {
+			const { provider = "openrouter" } = settings(domain);
+			const operations: LlmOperations =
+				provider === "openrouter"
+					? {
+							enriched: (handle, { product: _, ...options } = {}) =>
+								shop.products.enriched(handle, options),
+							classify: (handle, { product: _, ...options } = {}) =>
+								shop.products.classify(handle, options),
+							generateSEOContent: (handle, { product: _, ...options } = {}) =>
+								shop.products.generateSEOContent(handle, options),
+							determineStoreType: (options) => shop.determineStoreType(options),
+						}
+					: providerOperations(provider, shop, stream);
+			const apiKeyId = currentApiKeyId();
+			if (!chargeCall || apiKeyId === undefined) return operations;
+			const charge = () => chargeCall(apiKeyId);
+			return {
+				enriched: async (handle, options) => {
+					await charge();
+					return operations.enriched(handle, options);
+				},
+				classify: async (handle, options) => {
+					await charge();
+					return operations.classify(handle, options);
+				},
+				generateSEOContent: async (handle, options) => {
+					await charge();
+					return operations.generateSEOContent(handle, options);
+				},
+				determineStoreType: async (options) => {
+					await charge();
+					return operations.determineStoreType(options);
+				},
+			};
+		},
+		resolve: (domain, requested) => {
+			const config = settings(domain);
+			if (requested?.apiKey && !config.allowRequestApiKey) {
+				throw shopError("LLM_KEY_REJECTED");
+			}
+			const model = requested?.model;
+			if (
+				model &&
+				config.allowedModels &&
+				model !== config.model &&
+				!config.allowedModels.includes(model)
+			) {
+				throw shopError("LLM_MODEL_NOT_ALLOWED", {
+					details: { model, allowedModels: config.allowedModels },
+				});
+			}
+			return {
+				apiKey: requested?.apiKey ?? config.apiKey,
+				model: model ?? config.model,
+			};
+		},
+	};
+};
@@ -0,0 +1,213 @@
+import { createEndpoint } from "better-call";
+import { mapSettled } from "./concurrency";
+import { callUpstream, describeError } from "./errors";
+import type { GetShop } from "./getShop";
+import { normalizeShopDomain } from "./registry";
+import {
+	jsonRequestBody,
+	jsonResponse,
+	MultiProductSearchBodySchema,
+	MultiStoreBodySchema,
+	schemaRef,
+} from "./schemas";
+import {
+	filterProducts,
+	loadCatalogIndex,
+	makeProductSearch,
+	type ProductSearch,
+	type ProductSearchSort,
+	type SearchableProduct,
+} from "./search";
+
+export type StoreFailure = {
+	domain: string;
+	status: number;
+	code: string;
+	message: string;
+	details?: Record<string, unknown>;
+};
+
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_MULTI_SEARCH_LIMIT = 20;
+
+const toStoreFailure = (domain: string, error: unknown): StoreFailure => ({
+	domain,
+	...describeError(error),
+});
+
+/**
+ * Fan `fn` out over the stores behind `domains`, each once under its
+ * myshopify domain, and split the outcome into per-store results and
+ * failures. A domain that cannot be resolved is a failure of its own.
+ */
+const fanOut = async <T>(
+	domains: string[],
+	concurrency: number,
+	canonicalize: (domain: string) => Promise<string>,
+	fn: (domain: string) => Promise<T>,
+) => {
+	const inputs = [...new Set(domains.map(normalizeShopDomain))];
+	const resolved = await mapSettled(inputs, concurrency, canonicalize);
+	const unique: string[] = [];
+	const failures: StoreFailure[] = [];
+	resolved.forEach((result, position) => {
+		if (result.status === "rejected") {
+			failures.push(toStoreFailure(inputs[position] as string, result.reason));
+		} else if (!unique.includes(result.value)) {
+			unique.push(result.value);
+		}
+	});
+	const settled = await mapSettled(unique, concurrency, fn);
+	const stores: { domain: string; value: T }[] = [];
+	settled.forEach((result, position) => {
+		const domain = unique[position] as string;
+		if (result.status === "fulfilled") {
+			stores.push({ domain, value: result.value });
+		} else {
+			failures.push(toStoreFailure(domain, result.reason));
+		}
+	});
+	return { stores, failures };
+};
+
+const publishedAt = (product: SearchableProduct) =>
+	new Date(product.publishedAt ?? 0).getTime() || 0;
+
+const mergeOrder = (sort: ProductSearchSort) => {
+	switch (sort) {
+		case "price_asc":
+			return (a: SearchableProduct, b: SearchableProduct) => a.price - b.price;
+		case "price_desc":
+			return (a: SearchableProduct, b: SearchableProduct) => b.price - a.price;
+		case "newest":
+			return (a: SearchableProduct, b: SearchableProduct) =>
+				publishedAt(b) - publishedAt(a);
+		default:
+			return undefined;
+	}
+};
+
+/**
+ * Merge per-store result lists. Relevance scores are not comparable across
+ * catalogs, so relevance results are interleaved by rank; the other sorts are
+ * merged on their sort key, keeping each store's order for ties.
+ */
+const mergeResults = (
+	lists: { domain: string; items: SearchableProduct[] }[],
+	sort: ProductSearchSort,
+) => {
+	const attributed = lists.map(({ domain, items }) =>
+		items.map((item) => ({ ...item, domain })),
+	);
+	const compare = mergeOrder(sort);
+	if (compare) return attributed.flat().sort(compare);
+	const merged: (SearchableProduct & { domain: string })[] = [];
+	const longest = Math.max(0, ...attributed.map((items) => items.length));
+	for (let rank = 0; rank < longest; rank++) {
+		for (const items of attributed) {
+			const item = items[rank];
+			if (item) merged.push(item);
+		}
+	}
+	return merged;
+};
+
+export const buildMultiStoreEndpoints = (
+	getShop: GetShop,
+	options?: {
+		search?: ProductSearch;
+		/** Maximum number of stores queried at once. */
+		concurrency?: number;
+	},
+) => {
+	const search = options?.search ?? makeProductSearch();
+	const concurrency = options?.concurrency ?? DEFAULT_CONCURRENCY;
+
+	const getMultiStoreInfo = createEndpoint(
+		"/multi/info",
+		{
+			method: "POST",
+			body: MultiStoreBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Get store info for several stores",
+					description:
+						"Fetches store info for up to 50 domains. Stores that fail are listed in `failures` instead of failing the request.",
+					requestBody: jsonRequestBody("MultiStoreBody"),
+					responses: {
+						200: jsonResponse(schemaRef("MultiStoreInfo")),
+					},
+				},
+			},
+		},
+		async (ctx) => {
+			const { stores, failures } = await fanOut(
+				ctx.body.domains,
+				concurrency,
+				getShop.identities.canonicalize,
+				(domain) => callUpstream(() => getShop.registry.get(domain).getInfo()),
+			);
+			return {
+				stores: stores.map(({ domain, value }) => ({ domain, info: value })),
+				failures,
+			};
+		},
+	);
+
+	const searchMultiStoreProducts = createEndpoint(
+		"/multi/products/search",
+		{
+			method: "POST",
+			body: MultiProductSearchBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Search products across several stores",
+					description:
+						"Runs `/products/search` against up to 50 domains and merges the matches, each tagged with its `domain`. Relevance results are interleaved by rank; price and date sorts are merged. Stores that fail are listed in `failures` instead of failing the request.",
+					requestBody: jsonRequestBody("MultiProductSearchBody"),
+					responses: {
+						200: jsonResponse(schemaRef("MultiProductSearchResult")),
+					},
+				},
+			},
+		},
+		async (ctx) => {
+			const {
+				domains,
+				currency,
+				filters,
+				q,
+				sort = "relevance",
+				page = 1,
+				limit = DEFAULT_MULTI_SEARCH_LIMIT,
+			} = ctx.body;
+			const { stores, failures } = await fanOut(
+				domains,
+				concurrency,
+				getShop.identities.canonicalize,
+				async (domain) => {
+					const shop = getShop.registry.get(domain);
+					const index = await loadCatalogIndex(search, shop, domain, currency);
+					return filterProducts(index, { ...filters, q, sort });
+				},
+			);
+			const merged = mergeResults(
+				stores.map(({ domain, value }) => ({ domain, items: value })),
+				sort,
+			);
+			return {
+				items: merged.slice((page - 1) * limit, page * limit),
+				total: merged.length,
+				page,
+				limit,
+				stores: stores.map(({ domain, value }) => ({
+					domain,
+					total: value.length,
+				})),
+				failures,
+			};
+		},
+	);
+
+	return { getMultiStoreInfo, searchMultiStoreProducts };
+};
@@ -0,0 +1,83 @@
+import { createEndpoint, type Endpoint, generator, getHTML } from "better-call";
+import { openAPIComponents } from "./schemas";
+
+export type OpenAPIOptions = {
+	/** Path of the Scalar reference page; the JSON spec is served at `${path}/openapi.json`. */
+	path?: string;
+	title?: string;
+	version?: string;
+	description?: string;
+	theme?: string;
+};
+
+/**
+ * Generate the OpenAPI document for the given endpoints, with `:param` paths
+ * in OpenAPI form, endpoint summaries, and the shared component schemas.
+ */
+export const generateOpenAPISpec = async (
+	endpoints: Record<string, Endpoint>,
+	options?: OpenAPIOptions,
+) => {
+	const spec = await generator(endpoints);
+	const paths: Record<string, Record<string, Record<string, unknown>>> = {};
+	for (const endpoint of Object.values(endpoints)) {
+		const operations = spec.paths[endpoint.path];
+		if (!operations) continue;
+		const summary = endpoint.options.metadata?.openapi?.summary;
+		paths[endpoint.path.replace(/:(\w+)/g, "{$1}")] = Object.fromEntries(
+			Object.entries(operations).map(([method, operation]) => [
+				method,
+				summary ? { summary, ...operation } : operation,
+			]),
+		);
+	}
+	return {
+		...spec,
+		info: {
+			title: options?.title ?? "Better Shop API",
+			version: options?.version ?? "1.0.0",
+			description:
+				options?.description ??
+				"Type-safe endpoints for Shopify products, collections, store info, and checkout",
+		},
+		tags: [{ name: "Default", description: "Better Shop endpoints" }],
+		components: { schemas: openAPIComponents() },
+		paths,
+	};
+};
+
+/**
+ * Build the API reference endpoints: a Scalar page and the raw JSON spec.
+ * These replace better-call's built-in reference, which cannot publish
+ * component schemas.
+ */
+export const buildOpenAPIEndpoints = (
+	endpoints: Record<string, Endpoint>,
+	options?: OpenAPIOptions,
+) => {
+	const path = options?.path ?? "/api/reference";
+
+	const getOpenAPISpec = createEndpoint(
+		`${path}/openapi.json`,
+		{ method: "GET" },
+		async () => await generateOpenAPISpec(endpoints, options),
+	);
+
+	const getOpenAPIReference = createEndpoint(
+		path,
+		{ method: "GET" },
+		async () => {
+			const spec = await generateOpenAPISpec(endpoints, options);
+			return new Response(
+				getHTML(spec, {
+					title: spec.info.title,
+					description: spec.info.description,
+					theme: options?.theme ?? "dark",
+				}),
+				{ headers: { "Content-Type": "text/html" } },
+			);
+		},
+	);
+
+	return { getOpenAPISpec, getOpenAPIReference };
+};
@@ -0,0 +1,197 @@
+import { shopError } from "./errors";
+
+const MAX_PAGE_LIMIT = 250;
+
+export type Page<T> = {
+	items: T[];
+	page: number;
+	limit: number;
+	hasNextPage: boolean;
+	/** Opaque cursor for the next page, `null` on the last page. */
+	nextCursor: string | null;
+	totalCount?: number;
+};
+
+type Cursor = {
+	/** Page the anchor item was on. */
+	p: number;
+	/** Page size the cursor was created with. */
+	l: number;
+	/** Id of the last item returned. */
+	id: string;
+	/** Position of the anchor on its page. */
+	i: number;
+};
+
+export const encodeCursor = (cursor: Cursor) =>
+	Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeCursor = (value: string): Cursor => {
+	try {
+		const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+		if (
+			Number.isInteger(cursor?.p) &&
+			cursor.p >= 1 &&
+			Number.isInteger(cursor?.l) &&
+			cursor.l >= 1 &&
+			typeof cursor?.id === "string"
+		) {
+			// Cursors issued before `i` existed anchored on a page's last item.
+			const i = cursor.i ?? cursor.l - 1;
+			if (Number.isInteger(i) && i >= 0 && i < cursor.l) {
+				return { ...cursor, i };
+			}
+		}
+	} catch {}
+	throw shopError("INVALID_PAGINATION", {
+		message: "The pagination cursor is invalid",
+	});
+};
+
+/** Read `PaginationQuerySchema` values. */
+export const parsePagination = (query: {
+	page?: number;
+	limit?: number;
+	cursor?: string;
+	total?: string;
+}) => ({
+	page: query.page,
+	limit: query.limit,
+	cursor: query.cursor || undefined,
+	withTotal: query.total === "true",
+});
+
+/** OpenAPI parameters for `PaginationQuerySchema`. */
+export const paginationParameters = [
+	{ name: "page", schema: { type: "integer" as const, minimum: 1 } },
+	{
+		name: "limit",
+		schema: { type: "integer" as const, minimum: 1, maximum: 250 },
+	},
+	{
+		name: "cursor",
+		description:
+			"`nextCursor` from the previous page; takes precedence over `page`",
+		schema: { type: "string" as const },
+	},
+	{
+		name: "total",
+		description: "Include `totalCount` in the response",
+		schema: { type: "boolean" as const },
+	},
+].map((parameter) => ({
+	in: "query" as const,
+	required: false,
+	...parameter,
+}));
+
+// Upper bound on upstream pages read for one response, in case an anchor
+// keeps moving.
+const MAX_PAGES_PER_CALL = 4;
+
+type Placed<T> = { item: T; page: number; index: number };
+
+const placed = <T>(items: T[], page: number, from = 0): Placed<T>[] =>
+	items.slice(from).map((item, offset) => ({
+		item,
+		page,
+		index: from + offset,
+	}));
+
+/**
+ * Read one page of a page-numbered upstream list into a cursor envelope.
+ *
+ * Without a cursor the requested page is returned. A cursor anchors on the
+ * last item the client saw rather than on an offset, so products added or
+ * removed before it do not cause duplicates or gaps: the list resumes right
+ * after the anchor, looking for it on its page and the one after. If the
+ * anchor itself is gone, the list resumes at its old position. Only the
+ * pages needed for the response are read, so unless `total` is given
+ * `hasNextPage` is `true` when the last page read was full, and the page
+ * after a full last page is empty.
+ */
+export const paginate = async <T>(options: {
+	fetchPage: (page: number, limit: number) => Promise<T[] | null>;
+	idOf: (item: T) => string;
+	page?: number;
+	limit: number;
+	cursor?: string;
+	/** Length of the whole list when it is known, which makes `hasNextPage` exact. */
+	total?: number;
+}): Promise<Page<T>> => {
+	const { fetchPage, idOf } = options;
+	const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+	const limit = cursor?.l ?? options.limit;
+	const firstPage = cursor?.p ?? options.page ?? 1;
+	if (
+		!Number.isInteger(firstPage) ||
+		firstPage < 1 ||
+		!Number.isInteger(limit) ||
+		limit < 1 ||
+		limit > MAX_PAGE_LIMIT
+	) {
+		throw shopError("INVALID_PAGINATION", {
+			details: { page: firstPage, limit },
+		});
+	}
+
+	const read = async (page: number) => (await fetchPage(page, limit)) ?? [];
+	let collected: Placed<T>[] = [];
+	let current = firstPage;
+	let items = await read(current);
+	if (cursor) {
+		const anchorOf = (list: T[]) =>
+			list.findIndex((item) => idOf(item) === cursor.id);
+		const onPage = anchorOf(items);
+		if (onPage >= 0) {
+			collected = placed(items, current, onPage + 1);
+		} else if (items.length === limit) {
+			// Items added before the anchor push it onto the next page.
+			const next = await read(current + 1);
+			const onNext = anchorOf(next);
+			collected =
+				onNext >= 0
+					? placed(next, current + 1, onNext + 1)
+					: // The anchor was removed: its successor moved into its place.
+						[...placed(items, current, cursor.i), ...placed(next, current + 1)];
+			current += 1;
+			items = next;
+		} else {
+			collected = placed(items, current, cursor.i);
+		}
+	} else {
+		collected = placed(items, current);
+	}
+	while (
+		collected.length < limit &&
+		items.length === limit &&
+		current < firstPage + MAX_PAGES_PER_CALL - 1
+	) {
+		current += 1;
+		items = await read(current);
+		collected.push(...placed(items, current));
+	}
+
+	const pageItems = collected.slice(0, limit);
+	const last = pageItems.at(-1);
+	const hasNextPage =
+		options.total !== undefined
+			? last !== undefined &&
+				(last.page - 1) * limit + last.index + 1 < options.total
+			: collected.length > limit || items.length === limit;
+	return {
+		items: pageItems.map(({ item }) => item),
+		page: pageItems[0]?.page ?? firstPage,
+		limit,
+		hasNextPage,
+		nextCursor:
+			hasNextPage && last
+				? encodeCursor({
+						p: last.page,
+						l: limit,
+						id: idOf(last.item),
+						i: last.index,
+					})
+				: null,
+	};
+};
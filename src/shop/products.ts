@@ -1,10 +1,138 @@
 import { type } from "arktype";
 import { createEndpoint } from "better-call";
 import type { ShopClient } from "shop-client";
+import { makeResponseCache, type ResponseCache } from "./cache";
+import {
+	type EnrichmentOperation,
+	type EnrichmentStore,
+	enrichmentOperations,
+	enrichmentOptions,
+	makeEnrichmentStore,
+	withStoredEnrichment,
+} from "./enrichments";
+import {
+	callUpstream,
+	errorResponses,
+	llmErrors,
+	shopError,
+	upstreamErrors,
+} from "./errors";
+import { shopDomainOf } from "./getShop";
+import { type LlmPolicy, makeLlmPolicy } from "./llm";
+import { paginate, paginationParameters, parsePagination } from "./pagination";
+import type { LlmStream } from "./providers";
+import { normalizeShopDomain } from "./registry";
+import {
+	arrayOf,
+	EnrichBodySchema,
+	eventStreamResponse,
+	jsonRequestBody,
+	jsonResponse,
+	LlmBodySchema,
+	limitQuery,
+	PaginationQuerySchema,
+	ProductFilterQuerySchema,
+	pageQuery,
+	schemaRef,
+} from "./schemas";
+import {
+	computeFacets,
+	DEFAULT_PAGE_LIMIT,
+	filterProducts,
+	hasProductFilters,
+	loadCatalogIndex,
+	makeProductSearch,
+	type ProductSearch,
+	parseProductFilters,
+	productFilterParameters,
+	searchProducts as runSearch,
+	searchWithFacets,
+} from "./search";
+import { eventStream } from "./streaming";
+
+const productId = (product: { platformId: string }) => product.platformId;
 
 export const buildProductEndpoints = (
 	getShop: (headers?: Headers) => ShopClient,
+	options?: {
+		cache?: ResponseCache;
+		search?: ProductSearch;
+		llm?: LlmPolicy;
+		enrichments?: EnrichmentStore;
+	},
 ) => {
+	const cached = options?.cache ?? makeResponseCache();
+	const search = options?.search ?? makeProductSearch();
+	const llm = options?.llm ?? makeLlmPolicy();
+	const enrichments = options?.enrichments ?? makeEnrichmentStore();
+
+	const loadIndex = (headers: Headers | undefined, currency?: string) =>
+		loadCatalogIndex(
+			search,
+			getShop(headers),
+			normalizeShopDomain(headers?.get("x-shop-domain") ?? ""),
+			currency,
+		);
+
+	/**
+	 * Prepare a stored LLM operation on one product. The LLM settings are
+	 * checked here, before a stream starts, so policy errors stay plain JSON;
+	 * the runner throws `PRODUCT_NOT_FOUND` for unknown handles.
+	 */
+	const storedOperation = <O extends EnrichmentOperation>(
+		operation: O,
+		headers: Headers | undefined,
+		handle: string,
+		{ force, ...body }: typeof EnrichBodySchema.infer,
+	) => {
+		const shop = getShop(headers);
+		const domain = shopDomainOf(headers);
+		const credentials = llm.resolve(domain, body);
+		return async (stream?: LlmStream) => {
+			const { result, hit } = await withStoredEnrichment(
+				enrichments,
+				shop,
+				{
+					domain,
+					handle,
+					operation,
+					provider: llm.provider(domain),
+					model: credentials.model,
+					options: enrichmentOptions(operation, body),
+				},
+				force,
+				(product) =>
+					callUpstream(() =>
+						enrichmentOperations[operation](
+							llm.operations(shop, domain, stream),
+							handle,
+							{ ...body, ...credentials },
+							product,
+						),
+					),
+			);
+			if (!result) {
+				throw shopError("PRODUCT_NOT_FOUND", { details: { handle } });
+			}
+			return { result, hit };
+		};
+	};
+
+	/**
+	 * Answer with Server-Sent Events: the reply's `delta` events as it is
+	 * generated, then the `result`.
+	 */
+	const streamed = (
+		run: (stream: LlmStream) => Promise<{ result: unknown; hit: boolean }>,
+	) =>
+		eventStream(async (send, signal) => {
+			const { result, hit } = await run({
+				onDelta: (text) => send({ type: "delta", text }),
+				signal,
+			});
+			send({ type: "result", data: result, cached: hit });
+		});
+
 	const getAllProducts = createEndpoint(
 		"/products/all",
 		{
@@ -22,21 +150,22 @@ export const buildProductEndpoints = (
 						},
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: { type: "array", items: { type: "object" } },
-								},
-							},
-						},
+						200: jsonResponse(arrayOf("Product")),
+						...errorResponses(...upstreamErrors),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.products.all({ currency: ctx.query?.currency });
+			return await cached(
+				ctx,
+				() =>
+					callUpstream(() =>
+						shop.products.all({ currency: ctx.query?.currency }),
+					),
+				{ staleWhileRevalidate: true },
+			);
 		},
 	);
 
@@ -44,57 +173,82 @@ export const buildProductEndpoints = (
 		"/products/paginated",
 		{
 			method: "GET",
-			query: type({
-				"page?": "string|number",
-				"limit?": "string|number",
-				"currency?": "string",
-			}).pipe((v) => ({
-				page: v.page ? Number(v.page) : undefined,
-				limit: v.limit ? Number(v.limit) : undefined,
-				currency: v.currency,
-			})),
+			query: PaginationQuerySchema.merge(ProductFilterQuerySchema)
+				.merge({ "currency?": "string" })
+				.pipe((v) => ({
+					...parsePagination(v),
+					currency: v.currency,
+					filters: parseProductFilters(v),
+					facets: v.facets === "true",
+				})),
 			metadata: {
 				openapi: {
 					summary: "Get paginated products",
+					description:
+						"Returns a page envelope; follow `nextCursor` for stable infinite scroll. With filters or `facets=true`, the page is filtered and includes facet counts. Option filters use the keys returned by `/products/filters`, e.g. `option.size=m`.",
 					parameters: [
-						{
-							in: "query",
-							name: "page",
-							required: false,
-							schema: { type: "integer", minimum: 1 },
-						},
-						{
-							in: "query",
-							name: "limit",
-							required: false,
-							schema: { type: "integer", minimum: 1, maximum: 250 },
-						},
+						...paginationParameters,
 						{
 							in: "query",
 							name: "currency",
 							required: false,
 							schema: { type: "string" },
 						},
+						...productFilterParameters,
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: { type: "array", items: { type: "object" } },
-								},
-							},
-						},
+						200: jsonResponse(schemaRef("ProductPage")),
+						...errorResponses(...upstreamErrors, "INVALID_PAGINATION"),
 					},
 				},
 			},
 		},
 		async (ctx) => {
+			const {
+				page,
+				limit = DEFAULT_PAGE_LIMIT,
+				cursor,
+				withTotal,
+				currency,
+				filters,
+				facets,
+			} = ctx.query;
+			if (facets || hasProductFilters(filters)) {
+				// Facets need the whole catalog, so filter the indexed catalog.
+				return await cached(ctx, async () => {
+					const index = await loadIndex(ctx.headers, currency);
+					const matches = filterProducts(index, filters);
+					const result = await paginate({
+						fetchPage: async (n, size) =>
+							matches.slice((n - 1) * size, n * size),
+						idOf: productId,
+						page,
+						limit,
+						cursor,
+						total: matches.length,
+					});
+					return {
+						...result,
+						totalCount: matches.length,
+						facets: computeFacets(index, filters),
+					};
+				});
+			}
 			const shop = getShop(ctx.headers);
-			return await shop.products.paginated({
-				page: ctx.query.page,
-				limit: ctx.query.limit,
-				currency: ctx.query.currency,
+			return await cached(ctx, async () => {
+				const result = await paginate({
+					fetchPage: (n, size) =>
+						callUpstream(() =>
+							shop.products.paginated({ page: n, limit: size, currency }),
+						),
+					idOf: productId,
+					page,
+					limit,
+					cursor,
+				});
+				if (!withTotal) return result;
+				const index = await loadIndex(ctx.headers, currency);
+				return { ...result, totalCount: index.products.length };
 			});
 		},
 	);
@@ -107,21 +261,17 @@ export const buildProductEndpoints = (
 				openapi: {
 					summary: "Get showcased products",
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: { type: "array", items: { type: "object" } },
-								},
-							},
-						},
+						200: jsonResponse(arrayOf("Product")),
+						...errorResponses(...upstreamErrors),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.products.showcased();
+			return await cached(ctx, () =>
+				callUpstream(() => shop.products.showcased()),
+			);
 		},
 	);
 
@@ -133,17 +283,95 @@ export const buildProductEndpoints = (
 				openapi: {
 					summary: "Get product filters",
 					responses: {
-						200: {
-							description: "OK",
-							content: { "application/json": { schema: { type: "object" } } },
-						},
+						200: jsonResponse(schemaRef("ProductFilters")),
+						...errorResponses(...upstreamErrors),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.products.filter();
+			return await cached(ctx, () =>
+				callUpstream(() => shop.products.filter()),
+			);
+		},
+	);
+
+	const searchProducts = createEndpoint(
+		"/products/search",
+		{
+			method: "GET",
+			query: ProductFilterQuerySchema.merge({
+				"q?": "string",
+				"sort?": "'relevance'|'price_asc'|'price_desc'|'newest'",
+				"page?": pageQuery,
+				"limit?": limitQuery,
+				"currency?": "string",
+			}).pipe((v) => ({
+				...parseProductFilters(v),
+				q: v.q,
+				sort: v.sort,
+				page: v.page,
+				limit: v.limit,
+				currency: v.currency,
+				facets: v.facets === "true",
+			})),
+			metadata: {
+				openapi: {
+					summary: "Search products",
+					description:
+						"Full-text search over title, vendor, product type, tags and description, with filters. Option filters use the keys returned by `/products/filters`, e.g. `option.color=red,blue`.",
+					parameters: [
+						{
+							in: "query",
+							name: "q",
+							required: false,
+							schema: { type: "string" },
+						},
+						...productFilterParameters,
+						{
+							in: "query",
+							name: "sort",
+							required: false,
+							schema: {
+								type: "string",
+								enum: ["relevance", "price_asc", "price_desc", "newest"],
+							},
+						},
+						{
+							in: "query",
+							name: "page",
+							required: false,
+							schema: { type: "integer", minimum: 1 },
+						},
+						{
+							in: "query",
+							name: "limit",
+							required: false,
+							schema: { type: "integer", minimum: 1, maximum: 250 },
+						},
+						{
+							in: "query",
+							name: "currency",
+							required: false,
+							schema: { type: "string" },
+						},
+					],
+					responses: {
+						200: jsonResponse(schemaRef("ProductSearchResult")),
+						...errorResponses(...upstreamErrors),
+					},
+				},
+			},
+		},
+		async (ctx) => {
+			const { currency, facets, ...query } = ctx.query;
+			return await cached(ctx, async () => {
+				const index = await loadIndex(ctx.headers, currency);
+				return facets
+					? searchWithFacets(index, query)
+					: runSearch(index, query);
+			});
 		},
 	);
 
@@ -170,21 +398,31 @@ export const buildProductEndpoints = (
 						},
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: { "application/json": { schema: { type: "object" } } },
-						},
+						200: jsonResponse(schemaRef("Product")),
+						...errorResponses(
+							...upstreamErrors,
+							"PRODUCT_NOT_FOUND",
+							"INVALID_HANDLE",
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			const product = await shop.products.find(ctx.params.handle, {
-				currency: ctx.query?.currency,
+			return await cached(ctx, async () => {
+				const product = await callUpstream(() =>
+					shop.products.find(ctx.params.handle, {
+						currency: ctx.query?.currency,
+					}),
+				);
+				if (!product) {
+					throw shopError("PRODUCT_NOT_FOUND", {
+						details: { handle: ctx.params.handle },
+					});
+				}
+				return product;
 			});
-			if (!product) throw new Error("Product not found");
-			return product;
 		},
 	);
 
@@ -192,13 +430,7 @@ export const buildProductEndpoints = (
 		"/products/:handle/enriched",
 		{
 			method: "POST",
-			body: type({
-				"apiKey?": "string",
-				"useGfm?": "boolean",
-				"inputType?": "'markdown'|'html'",
-				"model?": "string",
-				"outputFormat?": "'markdown'|'json'",
-			}),
+			body: EnrichBodySchema,
 			metadata: {
 				openapi: {
 					summary: "Get enriched product",
@@ -210,21 +442,28 @@ export const buildProductEndpoints = (
 							schema: { type: "string" },
 						},
 					],
-					requestBody: {
-						content: { "application/json": { schema: { type: "object" } } },
-					},
+					requestBody: jsonRequestBody("EnrichBody"),
 					responses: {
-						200: {
-							description: "OK",
-							content: { "application/json": { schema: { type: "object" } } },
-						},
+						200: jsonResponse(schemaRef("Product")),
+						...errorResponses(
+							...upstreamErrors,
+							"PRODUCT_NOT_FOUND",
+							"INVALID_HANDLE",
+							...llmErrors,
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
-			const shop = getShop(ctx.headers);
-			return await shop.products.enriched(ctx.params.handle, ctx.body);
+			const { result, hit } = await storedOperation(
+				"enrich",
+				ctx.headers,
+				ctx.params.handle,
+				ctx.body,
+			)();
+			ctx.setHeader("x-better-shop-enrichment", hit ? "HIT" : "MISS");
+			return result;
 		},
 	);
 
@@ -232,7 +471,7 @@ export const buildProductEndpoints = (
 		"/products/:handle/classify",
 		{
 			method: "POST",
-			body: type({ "apiKey?": "string", "model?": "string" }),
+			body: LlmBodySchema,
 			metadata: {
 				openapi: {
 					summary: "Classify product",
@@ -244,21 +483,28 @@ export const buildProductEndpoints = (
 							schema: { type: "string" },
 						},
 					],
-					requestBody: {
-						content: { "application/json": { schema: { type: "object" } } },
-					},
+					requestBody: jsonRequestBody("LlmBody"),
 					responses: {
-						200: {
-							description: "OK",
-							content: { "application/json": { schema: { type: "object" } } },
-						},
+						200: jsonResponse(schemaRef("ProductClassification")),
+						...errorResponses(
+							...upstreamErrors,
+							"PRODUCT_NOT_FOUND",
+							"INVALID_HANDLE",
+							...llmErrors,
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
-			const shop = getShop(ctx.headers);
-			return await shop.products.classify(ctx.params.handle, ctx.body);
+			const { result, hit } = await storedOperation(
+				"classify",
+				ctx.headers,
+				ctx.params.handle,
+				ctx.body,
+			)();
+			ctx.setHeader("x-better-shop-enrichment", hit ? "HIT" : "MISS");
+			return result;
 		},
 	);
 
@@ -266,7 +512,7 @@ export const buildProductEndpoints = (
 		"/products/:handle/seo",
 		{
 			method: "POST",
-			body: type({ "apiKey?": "string", "model?": "string" }),
+			body: LlmBodySchema,
 			metadata: {
 				openapi: {
 					summary: "Generate product SEO",
@@ -278,25 +524,101 @@ export const buildProductEndpoints = (
 							schema: { type: "string" },
 						},
 					],
-					requestBody: {
-						content: { "application/json": { schema: { type: "object" } } },
-					},
+					requestBody: jsonRequestBody("LlmBody"),
 					responses: {
-						200: {
-							description: "OK",
-							content: { "application/json": { schema: { type: "object" } } },
-						},
+						200: jsonResponse(schemaRef("SEOContent")),
+						...errorResponses(
+							...upstreamErrors,
+							"PRODUCT_NOT_FOUND",
+							"INVALID_HANDLE",
+							...llmErrors,
+						),
 					},
 				},
 			},
 		},
 		async (ctx) => {
-			const shop = getShop(ctx.headers);
-			return await shop.products.generateSEOContent(
+			const { result, hit } = await storedOperation(
+				"seo",
+				ctx.headers,
 				ctx.params.handle,
 				ctx.body,
-			);
+			)();
+			ctx.setHeader("x-better-shop-enrichment", hit ? "HIT" : "MISS");
+			return result;
+		},
+	);
+
+	const streamEnrichedProduct = createEndpoint(
+		"/products/:handle/enriched/stream",
+		{
+			method: "POST",
+			body: EnrichBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Stream enriched product",
+					description:
+						"Same as `POST /products/:handle/enriched`, answered with Server-Sent Events: `delta` events carry the generated text as it arrives, then a `result` event carries the enriched product. Providers that cannot stream send only the `result`. Failures after the stream starts, e.g. `PRODUCT_NOT_FOUND`, are sent as an `error` event.",
+					parameters: [
+						{
+							in: "path",
+							name: "handle",
+							required: true,
+							schema: { type: "string" },
+						},
+					],
+					requestBody: jsonRequestBody("EnrichBody"),
+					responses: {
+						200: eventStreamResponse("LlmStreamEvent"),
+						...errorResponses(
+							"SHOP_DOMAIN_MISSING",
+							"LLM_KEY_REJECTED",
+							"LLM_MODEL_NOT_ALLOWED",
+						),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			streamed(
+				storedOperation("enrich", ctx.headers, ctx.params.handle, ctx.body),
+			),
+	);
+
+	const streamProductSEO = createEndpoint(
+		"/products/:handle/seo/stream",
+		{
+			method: "POST",
+			body: LlmBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Stream product SEO",
+					description:
+						"Same as `POST /products/:handle/seo`, answered with Server-Sent Events: `delta` events carry the partial JSON as it is generated, then a `result` event carries the validated SEO content. Providers that cannot stream send only the `result`. Failures after the stream starts, e.g. `PRODUCT_NOT_FOUND`, are sent as an `error` event.",
+					parameters: [
+						{
+							in: "path",
+							name: "handle",
+							required: true,
+							schema: { type: "string" },
+						},
+					],
+					requestBody: jsonRequestBody("LlmBody"),
+					responses: {
+						200: eventStreamResponse("LlmStreamEvent"),
+						...errorResponses(
+							"SHOP_DOMAIN_MISSING",
+							"LLM_KEY_REJECTED",
+							"LLM_MODEL_NOT_ALLOWED",
+						),
+					},
+				},
+			},
 		},
+		async (ctx) =>
+			streamed(
+				storedOperation("seo", ctx.headers, ctx.params.handle, ctx.body),
+			),
 	);
 
 	return {
@@ -304,9 +626,12 @@ export const buildProductEndpoints = (
 		getPaginatedProducts,
 		getShowcasedProducts,
 		getProductFilters,
+		searchProducts,
 		getProduct,
 		getEnrichedProduct,
 		classifyProduct,
 		generateProductSEO,
+		streamEnrichedProduct,
+		streamProductSEO,
 	};
 };
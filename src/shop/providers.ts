@@ -0,0 +1,374 @@
+import { createHash } from "node:crypto";
+import { type Type, type } from "arktype";
+import type { Product, ShopClient } from "shop-client";
+import { isShopError, shopError } from "./errors";
+import { unscopedFetch } from "./fetchscope";
+import {
+	ProductClassificationSchema,
+	SEOContentSchema,
+	StoreTypeSchema,
+} from "./schemas";
+import { readEventData } from "./streaming";
+
+export type LlmTask = "enrich" | "classify" | "seo" | "store-type";
+
+/** One chat completion: a system and a user message, answered with text. */
+export type LlmRequest = {
+	task: LlmTask;
+	system: string;
+	user: string;
+	model?: string;
+	apiKey?: string;
+	/** The reply must be a single JSON document. */
+	json: boolean;
+	/** Aborts the completion, e.g. when a streaming client disconnects. */
+	signal?: AbortSignal;
+};
+
+/** A chat completion backend for the LLM endpoints. */
+export type LlmProvider = {
+	name: string;
+	complete: (request: LlmRequest) => Promise<string>;
+	/**
+	 * Yield the reply in pieces as it is generated, for the streaming
+	 * endpoints. Without it streaming requests get the reply in one piece.
+	 */
+	stream?: (request: LlmRequest) => AsyncIterable<string>;
+};
+
+export type OpenAICompatibleProviderOptions = {
+	/** API root, e.g. `https://api.openai.com/v1` or `http://localhost:11434/v1` for Ollama. */
+	baseUrl: string;
+	apiKey?: string;
+	/** Model used when a request does not name one. */
+	model?: string;
+	name?: string;
+	/** Extra request headers, e.g. an organization id. */
+	headers?: Record<string, string>;
+	/** Request timeout in milliseconds. */
+	timeout?: number;
+	fetch?: typeof fetch;
+};
+
+const DEFAULT_TIMEOUT = 60_000;
+
+/**
+ * Provider for any API that implements `POST /chat/completions` like OpenAI,
+ * including local servers such as Ollama, llama.cpp or vLLM.
+ */
+export const createOpenAICompatibleProvider = (
+	options: OpenAICompatibleProviderOptions,
+): LlmProvider => {
+	const name = options.name ?? "openai-compatible";
+	const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+	// Looked up per call, outside any store's fetch scope.
+	const send = options.fetch ?? unscopedFetch;
+	const failed = (reason: string, status?: number) =>
+		shopError("LLM_REQUEST_FAILED", {
+			details: { provider: name, reason, ...(status ? { status } : {}) },
+		});
+
+	const post = async (request: LlmRequest, stream: boolean) => {
+		const apiKey = request.apiKey ?? options.apiKey;
+		const model = request.model ?? options.model;
+		if (!model) throw failed("No model is configured");
+		let response: Response;
+		try {
+			response = await send(url, {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
+					...options.headers,
+				},
+				body: JSON.stringify({
+					model,
+					temperature: 0,
+					messages: [
+						{ role: "system", content: request.system },
+						{ role: "user", content: request.user },
+					],
+					...(request.json ? { response_format: { type: "json_object" } } : {}),
+					...(stream ? { stream: true } : {}),
+				}),
+				signal: AbortSignal.any([
+					AbortSignal.timeout(options.timeout ?? DEFAULT_TIMEOUT),
+					...(request.signal ? [request.signal] : []),
+				]),
+			});
+		} catch (error) {
+			throw failed(error instanceof Error ? error.message : String(error));
+		}
+		if (!response.ok) {
+			throw failed((await response.text()).slice(0, 500), response.status);
+		}
+		return response;
+	};
+
+	return {
+		name,
+		complete: async (request) => {
+			const payload = (await (await post(request, false)).json()) as {
+				choices?: { message?: { content?: unknown } }[];
+			};
+			const content = payload.choices?.[0]?.message?.content;
+			if (typeof content !== "string") {
+				throw failed("The response has no message content");
+			}
+			return content;
+		},
+		stream: async function* (request) {
+			const response = await post(request, true);
+			if (!response.body) throw failed("The response has no body");
+			for await (const data of readEventData(response.body)) {
+				if (data === "[DONE]") return;
+				const chunk = JSON.parse(data) as {
+					choices?: { delta?: { content?: unknown } }[];
+				};
+				const content = chunk.choices?.[0]?.delta?.content;
+				if (typeof content === "string" && content) yield content;
+			}
+		},
+	};
+};
+
+export type MockProvider = LlmProvider & {
+	/** Every request the provider received, oldest first. */
+	calls: LlmRequest[];
+};
+
+type MockResponse =
+	| string
+	| object
+	| ((request: LlmRequest) => string | object);
+
+const fingerprint = (request: LlmRequest) =>
+	createHash("sha256")
+		.update(`${request.task}\n${request.system}\n${request.user}`)
+		.digest("hex")
+		.slice(0, 8);
+
+const mockResponses: Record<LlmTask, (request: LlmRequest) => string | object> =
+	{
+		enrich: (request) =>
+			request.json
+				? { description: `Mock enrichment ${fingerprint(request)}` }
+				: `Mock enrichment ${fingerprint(request)}`,
+		classify: () => ({
+			audience: "generic",
+			vertical: "clothing",
+			category: null,
+			subCategory: null,
+		}),
+		seo: (request) => {
+			const id = fingerprint(request);
+			return {
+				metaTitle: `Mock title ${id}`,
+				metaDescription: `Mock description ${id}`,
+				shortDescription: `Mock short description ${id}`,
+				longDescription: `Mock long description ${id}`,
+				tags: ["mock"],
+				marketingCopy: `Mock marketing copy ${id}`,
+			};
+		},
+		"store-type": () => ({ generic: { clothing: [] } }),
+	};
+
+/**
+ * A provider that never touches the network. Replies are valid for every
+ * task and derived from the prompt, so the same input always gets the same
+ * output. Override a task with a fixed reply or a function of the request.
+ */
+export const createMockProvider = (options?: {
+	responses?: Partial<Record<LlmTask, MockResponse>>;
+}): MockProvider => {
+	const calls: LlmRequest[] = [];
+	const complete = async (request: LlmRequest) => {
+		calls.push(request);
+		const configured = options?.responses?.[request.task];
+		const reply =
+			typeof configured === "function"
+				? configured(request)
+				: (configured ?? mockResponses[request.task](request));
+		return typeof reply === "string" ? reply : JSON.stringify(reply);
+	};
+	return {
+		name: "mock",
+		calls,
+		complete,
+		// Streams the same reply word by word.
+		stream: async function* (request) {
+			yield* (await complete(request)).match(/\s*\S+/g) ?? [];
+		},
+	};
+};
+
+const parseReply = <T>(schema: Type<T>, text: string, provider: string) => {
+	const failed = (reason: string) =>
+		shopError("LLM_REQUEST_FAILED", { details: { provider, reason } });
+	let value: unknown;
+	try {
+		// Local models often wrap JSON in a Markdown code fence.
+		value = JSON.parse(
+			text
+				.trim()
+				.replace(/^```(?:json)?\s*/i, "")
+				.replace(/\s*```$/, ""),
+		);
+	} catch {
+		throw failed("The reply is not valid JSON");
+	}
+	const out = schema(value);
+	if (out instanceof type.errors) throw failed(out.summary);
+	return out as T;
+};
+
+const FULL_COLUMNS = {
+	columns: { mode: "full", images: "full", options: "full" },
+} as const;
+
+const SEO_SYSTEM = `You write SEO and marketing content for e-commerce products. Reply with a JSON object with the string fields "metaTitle" (at most 60 characters), "metaDescription" (at most 155 characters), "shortDescription", "longDescription" and "marketingCopy", and "tags", an array of strings.`;
+
+const STORE_TYPE_SYSTEM = `You classify online stores. Reply with a JSON object whose keys are audiences ("adult_male", "adult_female", "kid_male", "kid_female", "generic") and whose values map verticals ("clothing", "beauty", "accessories", "home-decor", "food-and-beverages") to short lists of supporting product or collection names. Only include audiences and verticals the store sells to.`;
+
+/** Where a streaming endpoint sends the reply as it is generated. */
+export type LlmStream = {
+	onDelta: (text: string) => void;
+	/** Aborts the completion when the client disconnects. */
+	signal?: AbortSignal;
+};
+
+/** The LLM calls behind the endpoints, named as on `ShopClient`. */
+/** A product operation whose caller may pass the product it already loaded. */
+type ProductOperation<F> = F extends (
+	handle: string,
+	options?: infer O,
+) => infer R
+	? (handle: string, options?: O & { product?: Product }) => R
+	: never;
+
+export type LlmOperations = {
+	enriched: ProductOperation<ShopClient["products"]["enriched"]>;
+	classify: ProductOperation<ShopClient["products"]["classify"]>;
+	generateSEOContent: ProductOperation<
+		ShopClient["products"]["generateSEOContent"]
+	>;
+	determineStoreType: ShopClient["determineStoreType"];
+};
+
+const generate = async (
+	provider: LlmProvider,
+	request: LlmRequest,
+	stream?: LlmStream,
+) => {
+	if (!stream || !provider.stream) return provider.complete(request);
+	let reply = "";
+	for await (const text of provider.stream(request)) {
+		// Stops providers that do not watch the signal themselves.
+		request.signal?.throwIfAborted();
+		reply += text;
+		stream.onDelta(text);
+	}
+	return reply;
+};
+
+/**
+ * The LLM operations answered by `provider`. Products and store info still
+ * come from `shop`, unless the caller passes the product it loaded; only
+ * the completions are swapped. With `stream` the
+ * reply is sent to `onDelta` as it is generated, if the provider can stream,
+ * and the completion is aborted with its `signal`.
+ */
+export const providerOperations = (
+	provider: LlmProvider,
+	shop: ShopClient,
+	stream?: LlmStream,
+): LlmOperations => {
+	const complete = (
+		task: LlmTask,
+		prompt: { system: string; user: string },
+		options: { apiKey?: string; model?: string; json: boolean },
+	) =>
+		generate(
+			provider,
+			{ task, ...prompt, ...options, signal: stream?.signal },
+			stream,
+		).catch((error: unknown) => {
+			throw isShopError(error)
+				? error
+				: shopError("LLM_REQUEST_FAILED", {
+						details: {
+							provider: provider.name,
+							reason: error instanceof Error ? error.message : String(error),
+						},
+					});
+		});
+
+	return {
+		enriched: async (handle, { product: loaded, ...options } = {}) => {
+			const product =
+				loaded ?? (await shop.products.find(handle, FULL_COLUMNS));
+			if (!product) return null;
+			const prompt = await shop.products.enrichedPrompts(handle, options);
+			const enriched_content = await complete("enrich", prompt, {
+				apiKey: options.apiKey,
+				model: options.model,
+				json: options.outputFormat === "json",
+			});
+			return { ...product, enriched_content };
+		},
+		classify: async (handle, options = {}) => {
+			if (!options.product && !(await shop.products.find(handle))) {
+				return null;
+			}
+			const prompt = await shop.products.classifyPrompts(handle);
+			const reply = await complete("classify", prompt, {
+				apiKey: options.apiKey,
+				model: options.model,
+				json: true,
+			});
+			return parseReply(ProductClassificationSchema, reply, provider.name);
+		},
+		generateSEOContent: async (handle, options = {}) => {
+			const product =
+				options.product ?? (await shop.products.find(handle, FULL_COLUMNS));
+			if (!product) return null;
+			const user = JSON.stringify({
+				title: product.title,
+				description: product.bodyHtml ?? undefined,
+				vendor: product.vendor,
+				price: product.price,
+				tags: product.tags,
+			});
+			const reply = await complete(
+				"seo",
+				{ system: SEO_SYSTEM, user },
+				{ apiKey: options.apiKey, model: options.model, json: true },
+			);
+			return parseReply(SEOContentSchema, reply, provider.name);
+		},
+		determineStoreType: async (options = {}) => {
+			const info = await shop.getInfo();
+			const user = JSON.stringify({
+				title: info.title ?? info.name,
+				description: info.description,
+				showcase: {
+					products: info.showcase.products.slice(
+						0,
+						options.maxShowcaseProducts ?? 10,
+					),
+					collections: info.showcase.collections.slice(
+						0,
+						options.maxShowcaseCollections ?? 10,
+					),
+				},
+			});
+			const reply = await complete(
+				"store-type",
+				{ system: STORE_TYPE_SYSTEM, user },
+				{ apiKey: options.apiKey, model: options.model, json: true },
+			);
+			return parseReply(StoreTypeSchema, reply, provider.name);
+		},
+	};
+};
@@ -0,0 +1,254 @@
+import { shopErrors } from "./errors";
+import { normalizeShopDomain } from "./registry";
+
+export type TokenBucketOptions = {
+	/** Requests allowed in a burst. */
+	capacity: number;
+	/** Tokens added back per second. */
+	refillPerSecond: number;
+};
+
+export type RateLimitOptions = {
+	/** Bucket per caller: the accepted API key, otherwise the client IP. */
+	caller?: TokenBucketOptions | false;
+	/**
+	 * Bucket per store, shared by every caller. `/multi/*` requests take a
+	 * token from each store in their body.
+	 */
+	domain?: TokenBucketOptions | false;
+	/**
+	 * Read the client IP from the first `x-forwarded-for` entry, then
+	 * `x-real-ip`. Clients can send any value, so only enable it behind a
+	 * proxy that sets them. Defaults to `false`.
+	 */
+	trustProxy?: boolean;
+	/**
+	 * The client IP, e.g. from Bun's `server.requestIP`. Defaults to the
+	 * forwarded headers with `trustProxy`; callers without an IP are only
+	 * limited per domain.
+	 */
+	ipOf?: (request: Request) => string | undefined;
+	/**
+	 * The id of the API key a request is sent with, when the key is accepted.
+	 * Requests with a missing or unknown key are limited by IP, so made-up
+	 * keys do not get fresh buckets. Without it callers are limited by IP.
+	 */
+	apiKeyIdOf?: (headers: Headers) => Promise<string | undefined>;
+	/** Maps a domain to its store's canonical domain, so aliases share a bucket. */
+	canonicalDomain?: (domain: string) => string;
+	/** Buckets kept in memory before the least recently used one is dropped. */
+	maxBuckets?: number;
+};
+
+export type RateLimitDecision = {
+	allowed: boolean;
+	/** The bucket with the fewest tokens left, reported in the `RateLimit-*` headers. */
+	limit: number;
+	remaining: number;
+	/** Seconds until the bucket is full again. */
+	reset: number;
+	/** Seconds until the request can be retried, when it is not allowed. */
+	retryAfter?: number;
+	/** Which bucket rejected the request. */
+	scope?: "caller" | "domain";
+};
+
+export type RateLimiter = {
+	/**
+	 * Take a token from every bucket of the request, or none when one is
+	 * empty. `undefined` when no bucket applies.
+	 */
+	take: (request: Request) => Promise<RateLimitDecision | undefined>;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const DEFAULT_CALLER_BUCKET: TokenBucketOptions = {
+	capacity: 60,
+	refillPerSecond: 1,
+};
+const DEFAULT_DOMAIN_BUCKET: TokenBucketOptions = {
+	capacity: 120,
+	refillPerSecond: 2,
+};
+const DEFAULT_MAX_BUCKETS = 10_000;
+
+const forwardedIp = (request: Request) =>
+	request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+	request.headers.get("x-real-ip") ||
+	undefined;
+
+/** The `domains` of a `/multi/*` request body. */
+const multiStoreDomains = async (request: Request) => {
+	if (!/\/multi\//.test(new URL(request.url).pathname)) return [];
+	try {
+		const body = (await request.clone().json()) as { domains?: unknown };
+		return Array.isArray(body?.domains)
+			? body.domains.filter(
+					(domain): domain is string => typeof domain === "string",
+				)
+			: [];
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Create in-memory token buckets per caller and per target domain. Buckets
+ * refill continuously, so a caller can burst up to `capacity` and then
+ * sustain `refillPerSecond`.
+ */
+export const makeRateLimiter = (options?: RateLimitOptions): RateLimiter => {
+	const caller =
+		options?.caller === false
+			? undefined
+			: (options?.caller ?? DEFAULT_CALLER_BUCKET);
+	const domain =
+		options?.domain === false
+			? undefined
+			: (options?.domain ?? DEFAULT_DOMAIN_BUCKET);
+	const ipOf =
+		options?.ipOf ?? (options?.trustProxy ? forwardedIp : () => undefined);
+	const canonical = options?.canonicalDomain ?? normalizeShopDomain;
+	const maxBuckets = Math.max(1, options?.maxBuckets ?? DEFAULT_MAX_BUCKETS);
+	const buckets = new Map<string, Bucket>();
+
+	const refilled = (key: string, limits: TokenBucketOptions, now: number) => {
+		const bucket = buckets.get(key);
+		const tokens = bucket
+			? Math.min(
+					limits.capacity,
+					bucket.tokens +
+						((now - bucket.updatedAt) / 1000) * limits.refillPerSecond,
+				)
+			: limits.capacity;
+		// Re-insert to mark as most recently used.
+		buckets.delete(key);
+		const next = { tokens, updatedAt: now };
+		buckets.set(key, next);
+		while (buckets.size > maxBuckets) {
+			const oldest = buckets.keys().next().value;
+			if (oldest === undefined) break;
+			buckets.delete(oldest);
+		}
+		return next;
+	};
+
+	/** The caller bucket key: the accepted API key, otherwise the IP. */
+	const callerOf = async (request: Request) => {
+		const apiKeyId = await options?.apiKeyIdOf?.(request.headers);
+		if (apiKeyId) return `key|${apiKeyId}`;
+		const ip = ipOf(request);
+		return ip ? `ip|${ip}` : undefined;
+	};
+
+	/** The stores a request targets, by canonical domain. */
+	const domainsOf = async (request: Request) => {
+		const header = request.headers.get("x-shop-domain");
+		const domains = [
+			...(header ? [header] : []),
+			...(await multiStoreDomains(request)),
+		];
+		return [...new Set(domains.map(canonical))];
+	};
+
+	return {
+		take: async (request) => {
+			const callerKey = caller ? await callerOf(request) : undefined;
+			const stores = domain ? await domainsOf(request) : [];
+			const now = Date.now();
+			const checks = [
+				...(caller && callerKey
+					? [
+							{
+								scope: "caller" as const,
+								limits: caller,
+								bucket: refilled(`caller|${callerKey}`, caller, now),
+							},
+						]
+					: []),
+				...(domain
+					? stores.map((store) => ({
+							scope: "domain" as const,
+							limits: domain,
+							bucket: refilled(`domain|${store}`, domain, now),
+						}))
+					: []),
+			];
+			if (checks.length === 0) return undefined;
+
+			const empty = checks.find(({ bucket }) => bucket.tokens < 1);
+			if (!empty) {
+				for (const { bucket } of checks) bucket.tokens -= 1;
+			}
+			const tightest =
+				empty ??
+				checks.reduce((a, b) =>
+					b.bucket.tokens / b.limits.capacity <
+					a.bucket.tokens / a.limits.capacity
+						? b
+						: a,
+				);
+			const { limits, bucket } = tightest;
+			return {
+				allowed: !empty,
+				limit: limits.capacity,
+				remaining: Math.max(0, Math.floor(bucket.tokens)),
+				reset: Math.ceil(
+					(limits.capacity - bucket.tokens) / limits.refillPerSecond,
+				),
+				...(empty
+					? {
+							retryAfter: Math.ceil(
+								(1 - bucket.tokens) / limits.refillPerSecond,
+							),
+							scope: empty.scope,
+						}
+					: {}),
+			};
+		},
+	};
+};
+
+const withHeaders = (response: Response, headers: Record<string, string>) => {
+	const next = new Response(response.body, response);
+	for (const [name, value] of Object.entries(headers)) {
+		next.headers.set(name, value);
+	}
+	return next;
+};
+
+/**
+ * Wrap a router handler so every request takes a token first. Responses
+ * carry `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset`, and
+ * rejected requests get a `RATE_LIMITED` 429 with `Retry-After`.
+ */
+export const limitRequests =
+	(handler: (request: Request) => Promise<Response>, limiter: RateLimiter) =>
+	async (request: Request) => {
+		const decision = await limiter.take(request);
+		if (!decision) return await handler(request);
+		const headers = {
+			"RateLimit-Limit": String(decision.limit),
+			"RateLimit-Remaining": String(decision.remaining),
+			"RateLimit-Reset": String(decision.reset),
+		};
+		if (!decision.allowed) {
+			const { status, message } = shopErrors.RATE_LIMITED;
+			return Response.json(
+				{
+					code: "RATE_LIMITED",
+					message,
+					details: {
+						scope: decision.scope,
+						retryAfter: decision.retryAfter,
+					},
+				},
+				{
+					status,
+					headers: { ...headers, "Retry-After": String(decision.retryAfter) },
+				},
+			);
+		}
+		return withHeaders(await handler(request), headers);
+	};
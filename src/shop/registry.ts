@@ -0,0 +1,161 @@
+import {
+	configureRateLimit,
+	ShopClient,
+	type ShopClientOptions,
+} from "shop-client";
+import {
+	type DomainPolicy,
+	type DomainPolicyOptions,
+	makeDomainPolicy,
+} from "./domains";
+import {
+	makeUpstreamGuard,
+	type ResilienceOptions,
+	type UpstreamGuard,
+} from "./resilience";
+
+/** Limits for the requests shop-client sends to one store. */
+export type UpstreamLimit = {
+	/** Requests to the store in flight at once. */
+	maxConcurrency?: number;
+	/** Requests to the store per `intervalMs`. */
+	maxRequestsPerInterval?: number;
+	intervalMs?: number;
+};
+
+export type ShopRegistryOptions = {
+	/** Maximum number of clients kept alive before the least recently used one is evicted. */
+	maxClients?: number;
+	/** Evict a client that has not been used for this many milliseconds. */
+	clientIdleTTL?: number;
+	/**
+	 * Per-store upstream limits, applied through shop-client's
+	 * `configureRateLimit({ perHost })` when a store's client is created.
+	 * `false` leaves every store on shop-client's shared global limiter.
+	 */
+	upstreamLimit?: UpstreamLimit | false;
+	/** Timeouts, retries and the circuit breaker applied to every store read. */
+	resilience?: ResilienceOptions;
+	/** Which store domains may be called, and the checks run before the first call. */
+	shopDomains?: DomainPolicyOptions;
+};
+
+export type ShopRegistry = {
+	get: (domain: string) => ShopClient;
+	evict: (domain: string) => boolean;
+	clear: () => void;
+	size: () => number;
+	/** The per-store timeout, retry and circuit breaker policy of the clients. */
+	upstream: UpstreamGuard;
+	/** Validates domains in `get` and verifies them before their first call. */
+	domainPolicy: DomainPolicy;
+};
+
+type RegistryEntry = {
+	client: ShopClient;
+	lastUsed: number;
+};
+
+const DEFAULT_MAX_CLIENTS = 100;
+const DEFAULT_CLIENT_IDLE_TTL = 30 * 60_000;
+const DEFAULT_UPSTREAM_LIMIT: Required<UpstreamLimit> = {
+	maxConcurrency: 2,
+	maxRequestsPerInterval: 5,
+	intervalMs: 1000,
+};
+
+/**
+ * Normalize a store domain into a registry key.
+ *
+ * Unlike `sanitizeDomain` from shop-client this keeps subdomains intact, so
+ * `a.myshopify.com` and `b.myshopify.com` never share a client.
+ */
+export const normalizeShopDomain = (input: string) => {
+	const raw = input.trim();
+	const withProtocol = /^[a-z][a-z\d+.-]*:\/\//i.test(raw)
+		? raw
+		: `https://${raw.replace(/^\/\//, "")}`;
+	try {
+		return new URL(withProtocol).hostname.toLowerCase().replace(/\.$/, "");
+	} catch {
+		return raw
+			.toLowerCase()
+			.replace(/^[a-z][a-z\d+.-]*:\/\//, "")
+			.replace(/[/:?#].*$/, "")
+			.replace(/\.$/, "");
+	}
+};
+
+/**
+ * Create a pool of `ShopClient` instances keyed by normalized domain.
+ *
+ * Clients are reused across requests so their internal caches (store info,
+ * validation results) survive between calls. The pool is bounded with LRU
+ * eviction and idle clients are dropped after `clientIdleTTL`. `get` throws
+ * for domains the `shopDomains` rules refuse.
+ */
+export const createShopRegistry = (
+	options?: ShopClientOptions & ShopRegistryOptions,
+): ShopRegistry => {
+	const {
+		maxClients = DEFAULT_MAX_CLIENTS,
+		clientIdleTTL = DEFAULT_CLIENT_IDLE_TTL,
+		upstreamLimit,
+		resilience,
+		shopDomains,
+		...clientOptions
+	} = options ?? {};
+	const entries = new Map<string, RegistryEntry>();
+	const upstream = makeUpstreamGuard(resilience);
+	const domainPolicy = makeDomainPolicy(shopDomains);
+	const perHost =
+		upstreamLimit === false
+			? undefined
+			: { ...DEFAULT_UPSTREAM_LIMIT, ...upstreamLimit };
+
+	const sweep = (now: number) => {
+		for (const [key, entry] of entries) {
+			if (now - entry.lastUsed > clientIdleTTL) entries.delete(key);
+		}
+	};
+
+	const get = (domain: string) => {
+		const key = domainPolicy.check(domain);
+		const now = Date.now();
+		sweep(now);
+		const existing = entries.get(key);
+		if (existing) {
+			// Re-insert to mark as most recently used.
+			entries.delete(key);
+			existing.lastUsed = now;
+			entries.set(key, existing);
+			return existing.client;
+		}
+		// shop-client keeps one limiter per host, so a store's budget is
+		// shared by every registry and survives client eviction.
+		if (perHost) configureRateLimit({ perHost: { [key]: perHost } });
+		const client = upstream.wrap(
+			domainPolicy.gate(new ShopClient(key, clientOptions), key),
+			key,
+		);
+		entries.set(key, { client, lastUsed: now });
+		while (entries.size > Math.max(1, maxClients)) {
+			const oldest = entries.keys().next().value;
+			if (oldest === undefined) break;
+			entries.delete(oldest);
+		}
+		return client;
+	};
+
+	return {
+		get,
+		evict: (domain) => entries.delete(normalizeShopDomain(domain)),
+		clear: () => entries.clear(),
+		size: () => {
+			sweep(Date.now());
+			return entries.size;
+		},
+		upstream,
+		domainPolicy,
+	};
+};
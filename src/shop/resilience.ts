@@ -0,0 +1,302 @@
+import { describeError, isShopError, shopError, toShopError } from "./errors";
+import { withFetchScope } from "./fetchscope";
+
+export type ResilienceOptions = {
+	/**
+	 * Timeout in milliseconds of each request to the store (of a whole call
+	 * for `call`); `0` disables it.
+	 */
+	timeout?: number;
+	/** Extra attempts for reads that time out or cannot reach the store. */
+	retries?: number;
+	/** Upper bound of the first retry's random delay in milliseconds; doubled per retry. */
+	retryDelay?: number;
+	/** Consecutive failed calls that open a store's circuit; `0` disables the breaker. */
+	failureThreshold?: number;
+	/** How long an open circuit fails fast before one trial call is let through. */
+	resetTimeout?: number;
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type StoreHealth = {
+	domain: string;
+	state: CircuitState;
+	/** Consecutive failed calls since the last success. */
+	failures: number;
+	lastSuccessAt?: string;
+	lastFailureAt?: string;
+	lastError?: { code: string; message: string };
+	/** When an open circuit lets the next trial call through. */
+	retryAt?: string;
+};
+
+export type UpstreamGuard = {
+	/**
+	 * Run `fn` against `domain` with the timeout, retries and circuit breaker.
+	 * `signal` is aborted when the call times out. With `perRequest` the
+	 * timeout applies to each `fetch` made while `fn` runs instead, so
+	 * multi-page crawls are not cut short and timed-out requests are aborted.
+	 */
+	call: <T>(
+		domain: string,
+		fn: (signal: AbortSignal) => Promise<T>,
+		options?: { retry?: boolean; perRequest?: boolean },
+	) => Promise<T>;
+	health: (domain: string) => StoreHealth;
+	/**
+	 * Route the client's store reads through `call` with `perRequest`; LLM
+	 * methods are left as they are.
+	 */
+	wrap: <C extends object>(client: C, domain: string) => C;
+};
+
+type Circuit = {
+	failures: number;
+	openedUntil?: number;
+	trialRunning?: boolean;
+	lastSuccessAt?: number;
+	lastFailureAt?: number;
+	lastError?: { code: string; message: string };
+};
+
+const DEFAULT_TIMEOUT = 10_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 200;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30_000;
+const MAX_CIRCUITS = 10_000;
+
+/** Client methods that call an LLM rather than the store. */
+const llmMethods = new Set([
+	"enriched",
+	"enrichedPrompts",
+	"classify",
+	"classifyPrompts",
+	"generateSEOContent",
+	"determineStoreType",
+]);
+
+/** Top-level client methods that call the store. */
+const clientCalls = new Set([
+	"getInfo",
+	"getMetaData",
+	"getJsonLd",
+	"getHeaderLinks",
+	"determineStoreType",
+]);
+
+/**
+ * Proxy a client so every async method of `products`, `collections`,
+ * `collections.products` and the top-level store calls runs through
+ * `around`, which gets the method name and a function that calls it.
+ */
+export const aroundClientCalls = <C extends object>(
+	client: C,
+	around: (method: string, run: () => Promise<unknown>) => Promise<unknown>,
+): C => {
+	const wrapGroup = <G extends object>(group: G): G =>
+		new Proxy(group, {
+			get: (target, property, receiver) => {
+				const value = Reflect.get(target, property, receiver);
+				if (typeof property !== "string") return value;
+				if (typeof value === "function") {
+					return (...args: unknown[]) =>
+						around(property, () => value.apply(target, args));
+				}
+				// `collections.products`
+				if (property === "products" && value && typeof value === "object") {
+					return wrapGroup(value);
+				}
+				return value;
+			},
+		});
+
+	return new Proxy(client, {
+		get: (target, property, receiver) => {
+			const value = Reflect.get(target, property, receiver);
+			if (typeof property !== "string") return value;
+			if (property === "products" || property === "collections") {
+				return value && typeof value === "object" ? wrapGroup(value) : value;
+			}
+			if (clientCalls.has(property) && typeof value === "function") {
+				return (...args: unknown[]) =>
+					around(property, () => value.apply(target, args));
+			}
+			return value;
+		},
+	});
+};
+
+/** Failures that say the store is unhealthy, as opposed to a bad request. */
+const isOutage = (error: unknown) =>
+	isShopError(error, "UPSTREAM_UNREACHABLE") ||
+	isShopError(error, "UPSTREAM_TIMEOUT");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isoOf = (time?: number) =>
+	time === undefined ? undefined : new Date(time).toISOString();
+
+/**
+ * Create the per-store timeout, retry and circuit breaker policy. A store's
+ * circuit opens after `failureThreshold` consecutive outages and fails fast
+ * with `UPSTREAM_CIRCUIT_OPEN` until `resetTimeout` has passed; then one
+ * trial call decides whether it closes again.
+ */
+export const makeUpstreamGuard = (
+	options?: ResilienceOptions,
+): UpstreamGuard => {
+	const timeout = options?.timeout ?? DEFAULT_TIMEOUT;
+	const retries = Math.max(0, options?.retries ?? DEFAULT_RETRIES);
+	const retryDelay = options?.retryDelay ?? DEFAULT_RETRY_DELAY;
+	const failureThreshold =
+		options?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+	const resetTimeout = options?.resetTimeout ?? DEFAULT_RESET_TIMEOUT;
+	const circuits = new Map<string, Circuit>();
+
+	const circuitOf = (domain: string) => {
+		const circuit = circuits.get(domain) ?? { failures: 0 };
+		// Re-insert to mark as most recently used.
+		circuits.delete(domain);
+		circuits.set(domain, circuit);
+		while (circuits.size > MAX_CIRCUITS) {
+			const oldest = circuits.keys().next().value;
+			if (oldest === undefined) break;
+			circuits.delete(oldest);
+		}
+		return circuit;
+	};
+
+	const stateOf = (circuit: Circuit, now: number): CircuitState => {
+		if (circuit.openedUntil === undefined) return "closed";
+		return now < circuit.openedUntil ? "open" : "half-open";
+	};
+
+	/** Claim the right to call the store, or throw while the circuit is open. */
+	const admit = (domain: string, circuit: Circuit) => {
+		const state = stateOf(circuit, Date.now());
+		if (state === "closed") return false;
+		if (state === "half-open" && !circuit.trialRunning) {
+			circuit.trialRunning = true;
+			return true;
+		}
+		throw shopError("UPSTREAM_CIRCUIT_OPEN", {
+			details: {
+				domain,
+				retryAt: isoOf(circuit.openedUntil),
+			},
+		});
+	};
+
+	const attempt = async <T>(
+		fn: (signal: AbortSignal) => Promise<T>,
+		perRequest: boolean,
+	) => {
+		const controller = new AbortController();
+		if (timeout <= 0) return await fn(controller.signal);
+		if (perRequest) {
+			let timedOut = false;
+			try {
+				return await withFetchScope(
+					{
+						timeout,
+						onTimeout: () => {
+							timedOut = true;
+						},
+					},
+					() => fn(controller.signal),
+				);
+			} catch (error) {
+				// shop-client rewrites fetch errors, so the abort is recognized here.
+				throw timedOut
+					? shopError("UPSTREAM_TIMEOUT", {
+							details: { timeout },
+							cause: error,
+						})
+					: error;
+			}
+		}
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timedOut = new Promise<never>((_, reject) => {
+			timer = setTimeout(() => {
+				controller.abort();
+				reject(shopError("UPSTREAM_TIMEOUT", { details: { timeout } }));
+			}, timeout);
+		});
+		try {
+			return await Promise.race([fn(controller.signal), timedOut]);
+		} finally {
+			clearTimeout(timer);
+		}
+	};
+
+	const call: UpstreamGuard["call"] = async (domain, fn, callOptions) => {
+		const circuit = circuitOf(domain);
+		const trial = failureThreshold > 0 && admit(domain, circuit);
+		const attempts = callOptions?.retry === false || trial ? 1 : retries + 1;
+		for (let number = 1; ; number++) {
+			try {
+				const result = await attempt(fn, callOptions?.perRequest === true);
+				circuit.failures = 0;
+				circuit.openedUntil = undefined;
+				circuit.lastSuccessAt = Date.now();
+				return result;
+			} catch (error) {
+				const translated = toShopError(error);
+				if (!isOutage(translated)) {
+					// The store answered, so it is reachable.
+					circuit.failures = 0;
+					circuit.openedUntil = undefined;
+					throw translated;
+				}
+				if (number < attempts) {
+					// Full jitter, so retries from many callers do not line up.
+					await sleep(Math.random() * retryDelay * 2 ** (number - 1));
+					continue;
+				}
+				const now = Date.now();
+				circuit.failures += 1;
+				circuit.lastFailureAt = now;
+				const { code, message } = describeError(translated);
+				circuit.lastError = { code, message };
+				if (
+					failureThreshold > 0 &&
+					(trial || circuit.failures >= failureThreshold)
+				) {
+					circuit.openedUntil = now + resetTimeout;
+				}
+				throw translated;
+			} finally {
+				if (trial) circuit.trialRunning = false;
+			}
+		}
+	};
+
+	return {
+		call,
+		health: (domain) => {
+			const circuit = circuits.get(domain) ?? { failures: 0 };
+			const state = stateOf(circuit, Date.now());
+			return {
+				domain,
+				state,
+				failures: circuit.failures,
+				...(circuit.lastSuccessAt
+					? { lastSuccessAt: isoOf(circuit.lastSuccessAt) }
+					: {}),
+				...(circuit.lastFailureAt
+					? { lastFailureAt: isoOf(circuit.lastFailureAt) }
+					: {}),
+				...(circuit.lastError ? { lastError: circuit.lastError } : {}),
+				...(state === "closed" ? {} : { retryAt: isoOf(circuit.openedUntil) }),
+			};
+		},
+		wrap: (client, domain) =>
+			aroundClientCalls(client, (method, run) =>
+				llmMethods.has(method)
+					? run()
+					: call(domain, run, { perRequest: true }),
+			),
+	};
+};
@@ -0,0 +1,859 @@
+import { type Type, type } from "arktype";
+
+/**
+ * Shared arktype definitions for request bodies and response payloads.
+ *
+ * Request bodies are used directly as endpoint validators, and every schema
+ * here is converted to JSON Schema for the OpenAPI `components`, so the
+ * documentation cannot drift from what the endpoints accept and return.
+ */
+
+const audience =
+	"'adult_male' | 'adult_female' | 'kid_male' | 'kid_female' | 'generic'";
+const vertical =
+	"'clothing' | 'beauty' | 'accessories' | 'home-decor' | 'food-and-beverages'";
+
+export const ImageSchema = type({
+	src: "string",
+	"id?": "number",
+	"productId?": "number",
+	"alt?": "string | null",
+	"position?": "number",
+	"width?": "number",
+	"height?": "number",
+	"aspectRatio?": "number",
+	"mediaType?": "'image' | 'video'",
+	"variantIds?": "unknown[]",
+	"createdAt?": "string",
+	"updatedAt?": "string",
+});
+
+export const VariantSchema = type({
+	id: "string",
+	platformId: "string",
+	title: "string",
+	"name?": "string",
+	option1: "string | null",
+	option2: "string | null",
+	option3: "string | null",
+	"options?": "string[]",
+	sku: "string | null",
+	requiresShipping: "boolean",
+	taxable: "boolean",
+	featuredImage: ImageSchema.or("null"),
+	available: "boolean",
+	price: "number",
+	compareAtPrice: "number",
+	"weightInGrams?": "number",
+	position: "number",
+	productId: "number",
+	"createdAt?": "string",
+	"updatedAt?": "string",
+});
+
+export const ProductOptionSchema = type({
+	key: "string",
+	name: "string",
+	values: "string[]",
+	"data?": "string[]",
+	"position?": "number",
+});
+
+export const LocalizedPricingSchema = type({
+	"currency?": "string",
+	priceFormatted: "string",
+	"priceMinFormatted?": "string",
+	"priceMaxFormatted?": "string",
+	compareAtPriceFormatted: "string",
+});
+
+/**
+ * Products are returned in shop-client's minimal or full column mode, so
+ * only the fields common to both are required.
+ */
+export const ProductSchema = type({
+	handle: "string",
+	slug: "string",
+	platformId: "string",
+	title: "string",
+	url: "string",
+	available: "boolean",
+	price: "number",
+	compareAtPrice: "number",
+	discount: "number",
+	bodyHtml: "string | null",
+	productType: "string | null",
+	"featuredImage?": "string | null",
+	images: ImageSchema.array(),
+	options: ProductOptionSchema.array(),
+	"localizedPricing?": LocalizedPricingSchema,
+	"variantOptionsMap?": "Record<string, string>",
+	"variantPriceMap?": "Record<string, number>",
+	"variantSkuMap?": "Record<string, string | null>",
+	"variantAvailabilityMap?": "Record<string, boolean>",
+	"variantImages?": "Record<string, string[]>",
+	"variants?": VariantSchema.array().or("null"),
+	"vendor?": "string",
+	"tags?": "string[]",
+	"currency?": "string",
+	"priceMin?": "number",
+	"priceMax?": "number",
+	"priceVaries?": "boolean",
+	"compareAtPriceMin?": "number",
+	"compareAtPriceMax?": "number",
+	"compareAtPriceVaries?": "boolean",
+	"storeSlug?": "string",
+	"storeDomain?": "string",
+	"publishedAt?": "string | null",
+	"createdAt?": "string",
+	"updatedAt?": "string",
+	"enriched_content?": "string",
+});
+
+const facetCounts = type({ "[string]": "number" });
+
+export const ProductFacetsSchema = type({
+	vendor: facetCounts,
+	productType: facetCounts,
+	tag: facetCounts,
+	options: type({ "[string]": facetCounts }),
+	available: { true: "number", false: "number" },
+	price: type({ min: "number", max: "number" }).or("null"),
+});
+
+export const ProductSearchResultSchema = type({
+	items: ProductSchema.array(),
+	total: "number",
+	page: "number",
+	limit: "number",
+	"facets?": ProductFacetsSchema,
+});
+
+const pageFields = {
+	page: "number",
+	limit: "number",
+	hasNextPage: "boolean",
+	nextCursor: "string | null",
+	"totalCount?": "number",
+} as const;
+
+/** Paginated product list, with facets when filters or `facets=true` are given. */
+export const ProductPageSchema = type({
+	items: ProductSchema.array(),
+	...pageFields,
+	"facets?": ProductFacetsSchema,
+});
+
+/** A page number in a query string, parsed to an integer. */
+export const pageQuery =
+	"(string.integer.parse | number.integer) |> number >= 1";
+/** A page size in a query string, parsed to an integer. */
+export const limitQuery =
+	"(string.integer.parse | number.integer) |> 1 <= number <= 250";
+/** A price in a query string, parsed to a number; empty means no bound. */
+const priceQuery = type("''").or(
+	type("string.numeric.parse | number").to("number >= 0"),
+);
+
+/** Page-number and cursor pagination accepted by the list endpoints. */
+export const PaginationQuerySchema = type({
+	"page?": pageQuery,
+	"limit?": limitQuery,
+	"cursor?": "string",
+	"total?": "'true'|'false'",
+});
+
+/** Facet selections accepted by the product list endpoints. */
+export const ProductFilterQuerySchema = type({
+	"minPrice?": priceQuery,
+	"maxPrice?": priceQuery,
+	"available?": "'true'|'false'",
+	"vendor?": "string|string[]",
+	"productType?": "string|string[]",
+	"tag?": "string|string[]",
+	"facets?": "'true'|'false'",
+	"[/^option\\./]": "string|string[]",
+});
+
+export const CollectionSchema = type({
+	id: "string",
+	title: "string",
+	handle: "string",
+	"description?": "string",
+	"image?": {
+		id: "number",
+		createdAt: "string",
+		src: "string",
+		"alt?": "string",
+	},
+	productsCount: "number",
+	publishedAt: "string",
+	updatedAt: "string",
+});
+
+export const CollectionPageSchema = type({
+	items: CollectionSchema.array(),
+	...pageFields,
+});
+
+export const StoreInfoSchema = type({
+	name: "string",
+	domain: "string",
+	slug: "string",
+	title: "string | null",
+	description: "string | null",
+	logoUrl: "string | null",
+	socialLinks: "Record<string, string>",
+	contactLinks: {
+		tel: "string | null",
+		email: "string | null",
+		contactPage: "string | null",
+	},
+	headerLinks: "string[]",
+	showcase: {
+		products: "string[]",
+		collections: "string[]",
+	},
+	"jsonLdData?": "Record<string, unknown>[]",
+	"seo?": "Record<string, unknown>",
+	techProvider: {
+		name: "string",
+		"walletId?": "string",
+		subDomain: "string | null",
+	},
+	country: "string",
+	"currency?": "string | null",
+});
+
+const webhookEvent =
+	"'product.created' | 'product.removed' | 'product.price_changed' | 'variant.out_of_stock' | 'variant.back_in_stock' | 'collection.created' | 'collection.updated' | 'collection.removed'";
+
+const jobType =
+	"'catalog.crawl' | 'products.enrich' | 'products.classify' | 'store.type'";
+
+const jobInput = type({ "collection?": "string", "model?": "string" });
+
+const apiKeyScope = "'read' | 'write' | 'llm' | 'checkout'";
+
+const apiKeyQuotas = type({
+	"requestsPerDay?": "number.integer >= 0",
+	"llmCallsPerDay?": "number.integer >= 0",
+});
+
+const verticalBreakdown = type({
+	"clothing?": "string[]",
+	"beauty?": "string[]",
+	"accessories?": "string[]",
+	"home-decor?": "string[]",
+	"food-and-beverages?": "string[]",
+});
+
+export const StoreTypeSchema = type({
+	"adult_male?": verticalBreakdown,
+	"adult_female?": verticalBreakdown,
+	"kid_male?": verticalBreakdown,
+	"kid_female?": verticalBreakdown,
+	"generic?": verticalBreakdown,
+});
+
+export const ProductFiltersSchema = type({ "[string]": "string[]" });
+
+export const ProductClassificationSchema = type({
+	audience,
+	vertical,
+	"category?": "string | null",
+	"subCategory?": "string | null",
+});
+
+export const SEOContentSchema = type({
+	metaTitle: "string",
+	metaDescription: "string",
+	shortDescription: "string",
+	longDescription: "string",
+	tags: "string[]",
+	marketingCopy: "string",
+});
+
+export const CountryDetectionSchema = type({
+	country: "string",
+	confidence: "number",
+	signals: "string[]",
+	"currencyCode?": "string",
+});
+
+export const CartItemSchema = type({
+	productVariantId: "string",
+	// Numeric strings are still accepted from older clients.
+	quantity: "number.integer | string.integer.parse",
+	/** Line item properties, e.g. an engraving text. */
+	"properties?": "Record<string, string>",
+});
+
+export const CartBodySchema = type({
+	items: CartItemSchema.array().atLeastLength(1),
+	"currency?": "string",
+});
+
+export const CartLineSchema = type({
+	productVariantId: "string",
+	productHandle: "string",
+	productTitle: "string",
+	variantTitle: "string",
+	quantity: "number",
+	unitPrice: "number",
+	linePrice: "number",
+	"properties?": "Record<string, string>",
+});
+
+/** A problem with one cart item, found by `/cart/validate`. */
+export const CartIssueSchema = type({
+	code: "'VARIANT_NOT_FOUND' | 'VARIANT_UNAVAILABLE'",
+	productVariantId: "string",
+	message: "string",
+}).or({
+	code: "'QUANTITY_CLAMPED'",
+	productVariantId: "string",
+	message: "string",
+	requested: "number",
+	quantity: "number",
+});
+
+export const CartValidationSchema = type({
+	valid: "boolean",
+	currency: "string | null",
+	lines: CartLineSchema.array(),
+	subtotal: "number",
+	issues: CartIssueSchema.array(),
+});
+
+export const CheckoutUrlSchema = type({
+	url: "string",
+	"cart?": CartValidationSchema,
+});
+
+export const SlugSchema = type({ slug: "string" });
+
+export const SuccessSchema = type({ success: "boolean" });
+
+/** A store that failed during a multi-store request. */
+export const StoreFailureSchema = type({
+	domain: "string",
+	status: "number",
+	code: "string",
+	message: "string",
+	"details?": "Record<string, unknown>",
+});
+
+export const MultiStoreInfoSchema = type({
+	stores: type({ domain: "string", info: StoreInfoSchema }).array(),
+	failures: StoreFailureSchema.array(),
+});
+
+export const MultiProductSearchResultSchema = type({
+	items: ProductSchema.merge({ domain: "string" }).array(),
+	total: "number",
+	page: "number",
+	limit: "number",
+	stores: type({ domain: "string", total: "number" }).array(),
+	failures: StoreFailureSchema.array(),
+});
+
+export const CheckoutBodySchema = type({
+	"mode?": "'checkout' | 'cart'",
+	"email?": "string.email",
+	items: CartItemSchema.array().atLeastLength(1),
+	"currency?": "string",
+	"address?": {
+		"firstName?": "string",
+		"lastName?": "string",
+		"address1?": "string",
+		"address2?": "string",
+		"city?": "string",
+		"zip?": "string",
+		"country?": "string",
+		"province?": "string",
+		"phone?": "string",
+	},
+	"discount?": "string | string[]",
+	"note?": "string",
+	"attributes?": "Record<string, string>",
+	"ref?": "string",
+	"utm?": {
+		"source?": "string",
+		"medium?": "string",
+		"campaign?": "string",
+		"term?": "string",
+		"content?": "string",
+	},
+});
+
+/** Checkout options of `POST /carts/:id/checkout`; the items come from the cart. */
+export const CartCheckoutBodySchema = CheckoutBodySchema.omit(
+	"items",
+	"currency",
+);
+
+export const CartCreateBodySchema = type({
+	"items?": CartItemSchema.array(),
+	"currency?": "string",
+	"note?": "string",
+	"attributes?": "Record<string, string>",
+});
+
+export const CartLinesBodySchema = type({
+	lines: type({
+		productVariantId: "string",
+		/** `0` removes the line. */
+		quantity: "number.integer >= 0",
+		"properties?": "Record<string, string>",
+	})
+		.array()
+		.atLeastLength(1),
+});
+
+/** A stored cart, priced against the current catalog when it is read. */
+export const CartSchema = type({
+	id: "string",
+	items: CartItemSchema.array(),
+	currency: "string | null",
+	"note?": "string",
+	"attributes?": "Record<string, string>",
+	createdAt: "string",
+	updatedAt: "string",
+	expiresAt: "string",
+	valid: "boolean",
+	lines: CartLineSchema.array(),
+	subtotal: "number",
+	issues: CartIssueSchema.array(),
+});
+
+export const StoreTypeBodySchema = type({
+	"apiKey?": "string",
+	"model?": "string",
+	"maxShowcaseProducts?": "number",
+	"maxShowcaseCollections?": "number",
+});
+
+export const EnrichBodySchema = type({
+	"apiKey?": "string",
+	"useGfm?": "boolean",
+	"inputType?": "'markdown'|'html'",
+	"model?": "string",
+	"outputFormat?": "'markdown'|'json'",
+	"force?": "boolean",
+});
+
+export const LlmBodySchema = type({
+	"apiKey?": "string",
+	"model?": "string",
+	"force?": "boolean",
+});
+
+export const EnrichmentSummarySchema = type({
+	domain: "string",
+	handle: "string",
+	operation: "'enrich' | 'classify' | 'seo'",
+	provider: "string",
+	model: "string",
+	options: "Record<string, unknown>",
+	productHash: "string",
+	createdAt: "string",
+});
+
+export const EnrichmentPurgeResultSchema = type({ deleted: "number" });
+
+const bulkOptions = { "concurrency?": "1 <= number.integer <= 10" } as const;
+const productHandles = { handles: "1 <= string[] <= 250" } as const;
+
+export const BulkEnrichBodySchema = EnrichBodySchema.merge(bulkOptions);
+export const BulkLlmBodySchema = LlmBodySchema.merge(bulkOptions);
+export const BatchEnrichBodySchema = BulkEnrichBodySchema.merge(productHandles);
+export const BatchLlmBodySchema = BulkLlmBodySchema.merge(productHandles);
+
+/** One line of an NDJSON bulk response. */
+export const BulkLineSchema = type({
+	type: "'result'",
+	handle: "string",
+	data: "unknown",
+})
+	.or({
+		type: "'error'",
+		handle: "string",
+		error: {
+			status: "number",
+			code: "string",
+			message: "string",
+			"details?": "Record<string, unknown>",
+		},
+	})
+	.or({
+		type: "'summary'",
+		total: "number",
+		succeeded: "number",
+		failed: "number",
+	});
+
+/** The `data` of one Server-Sent Event of a streaming LLM response. */
+export const LlmStreamEventSchema = type({ type: "'delta'", text: "string" })
+	.or({ type: "'result'", data: "unknown", cached: "boolean" })
+	.or({
+		type: "'error'",
+		error: {
+			status: "number",
+			code: "string",
+			message: "string",
+			"details?": "Record<string, unknown>",
+		},
+	});
+
+export const SnapshotSummarySchema = type({
+	domain: "string",
+	version: "number",
+	takenAt: "string",
+	productCount: "number",
+	collectionCount: "number",
+});
+
+const snapshotProductRef = type({
+	id: "string",
+	handle: "string",
+	title: "string",
+});
+
+const snapshotCollection = snapshotProductRef.merge({
+	"productsCount?": "number",
+	"updatedAt?": "string",
+});
+
+const snapshotVariantRef = type({
+	productId: "string",
+	handle: "string",
+	variantId: "string",
+	title: "string",
+});
+
+export const CatalogDiffSchema = type({
+	domain: "string",
+	from: SnapshotSummarySchema,
+	to: SnapshotSummarySchema,
+	products: {
+		added: snapshotProductRef.array(),
+		removed: snapshotProductRef.array(),
+	},
+	priceChanges: snapshotVariantRef
+		.merge({ from: "number", to: "number" })
+		.array(),
+	stock: {
+		outOfStock: snapshotVariantRef.array(),
+		backInStock: snapshotVariantRef.array(),
+	},
+	collections: {
+		added: snapshotCollection.array(),
+		removed: snapshotCollection.array(),
+		updated: snapshotCollection.array(),
+	},
+});
+
+export const WebhookSubscriptionSchema = type({
+	id: "string",
+	domain: "string",
+	url: "string",
+	events: type(webhookEvent).array(),
+	createdAt: "string",
+});
+
+export const WebhookDeliverySchema = type({
+	id: "string",
+	subscriptionId: "string",
+	eventId: "string",
+	eventType: webhookEvent,
+	attempt: "number",
+	status: "'succeeded' | 'failed'",
+	"responseStatus?": "number",
+	"error?": "string",
+	attemptedAt: "string",
+	"nextAttemptAt?": "string",
+});
+
+export const WebhookPollResultSchema = type({
+	snapshot: SnapshotSummarySchema,
+	events: "number",
+	deliveries: "number",
+});
+
+export const ApiKeySchema = type({
+	id: "string",
+	"name?": "string",
+	scopes: type(apiKeyScope).array(),
+	"domains?": "string[]",
+	"quotas?": apiKeyQuotas,
+	createdAt: "string",
+});
+
+export const IssuedApiKeySchema = ApiKeySchema.merge({ key: "string" });
+
+export const ApiKeyUsageSchema = type({
+	date: "string",
+	requests: "number",
+	llmCalls: "number",
+});
+
+export const ApiKeyDetailsSchema = ApiKeySchema.merge({
+	usage: ApiKeyUsageSchema,
+});
+
+export const StoreHealthSchema = type({
+	domain: "string",
+	state: "'closed' | 'open' | 'half-open'",
+	failures: "number",
+	"lastSuccessAt?": "string",
+	"lastFailureAt?": "string",
+	"lastError?": { code: "string", message: "string" },
+	"retryAt?": "string",
+});
+
+export const StoreIdentitySchema = type({
+	myshopifyDomain: "string",
+	primaryDomain: "string",
+	aliases: "string[]",
+	resolvedAt: "string",
+});
+
+export const JobSchema = type({
+	id: "string",
+	domain: "string",
+	type: jobType,
+	input: jobInput,
+	status: "'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'",
+	progress: { completed: "number", total: "number" },
+	"result?": "unknown",
+	"error?": { code: "string", message: "string" },
+	"scheduleId?": "string",
+	"apiKeyId?": "string",
+	createdAt: "string",
+	"startedAt?": "string",
+	"finishedAt?": "string",
+});
+
+export const JobScheduleSchema = type({
+	id: "string",
+	domain: "string",
+	cron: "string",
+	type: jobType,
+	input: jobInput,
+	"apiKeyId?": "string",
+	createdAt: "string",
+	nextRunAt: "string",
+	"lastRunAt?": "string",
+	"lastJobId?": "string",
+});
+
+const shopDomains = "1 <= string[] <= 50";
+
+export const MultiStoreBodySchema = type({ domains: shopDomains });
+
+export const MultiProductSearchBodySchema = type({
+	domains: shopDomains,
+	"q?": "string",
+	"sort?": "'relevance'|'price_asc'|'price_desc'|'newest'",
+	"page?": "number.integer >= 1",
+	"limit?": "1 <= number.integer <= 250",
+	"currency?": "string",
+	"filters?": {
+		"minPrice?": "number",
+		"maxPrice?": "number",
+		"available?": "boolean",
+		"vendor?": "string[]",
+		"productType?": "string[]",
+		"tag?": "string[]",
+		"options?": "Record<string, string[]>",
+	},
+});
+
+export const WebhookBodySchema = type({
+	url: "string.url",
+	secret: "string >= 8",
+	events: type(webhookEvent).array().atLeastLength(1),
+});
+
+export const ApiKeyBodySchema = type({
+	"name?": "string",
+	scopes: type(apiKeyScope).array().atLeastLength(1),
+	"domains?": "string[]",
+	"quotas?": apiKeyQuotas,
+});
+
+export const JobBodySchema = type({ type: jobType, "input?": jobInput });
+
+export const JobScheduleBodySchema = JobBodySchema.merge({ cron: "string" });
+
+/** Schemas published under `#/components/schemas` in the OpenAPI spec. */
+export const openAPISchemas = {
+	Image: ImageSchema,
+	Variant: VariantSchema,
+	ProductOption: ProductOptionSchema,
+	LocalizedPricing: LocalizedPricingSchema,
+	Product: ProductSchema,
+	ProductSearchResult: ProductSearchResultSchema,
+	ProductFacets: ProductFacetsSchema,
+	ProductPage: ProductPageSchema,
+	Collection: CollectionSchema,
+	CollectionPage: CollectionPageSchema,
+	StoreInfo: StoreInfoSchema,
+	StoreType: StoreTypeSchema,
+	ProductFilters: ProductFiltersSchema,
+	ProductClassification: ProductClassificationSchema,
+	SEOContent: SEOContentSchema,
+	CountryDetection: CountryDetectionSchema,
+	CheckoutUrl: CheckoutUrlSchema,
+	CartLine: CartLineSchema,
+	CartIssue: CartIssueSchema,
+	CartValidation: CartValidationSchema,
+	Cart: CartSchema,
+	Slug: SlugSchema,
+	Success: SuccessSchema,
+	StoreFailure: StoreFailureSchema,
+	MultiStoreInfo: MultiStoreInfoSchema,
+	MultiProductSearchResult: MultiProductSearchResultSchema,
+	SnapshotSummary: SnapshotSummarySchema,
+	CatalogDiff: CatalogDiffSchema,
+	WebhookSubscription: WebhookSubscriptionSchema,
+	WebhookDelivery: WebhookDeliverySchema,
+	WebhookPollResult: WebhookPollResultSchema,
+	BulkLine: BulkLineSchema,
+	LlmStreamEvent: LlmStreamEventSchema,
+	EnrichmentSummary: EnrichmentSummarySchema,
+	EnrichmentPurgeResult: EnrichmentPurgeResultSchema,
+	Job: JobSchema,
+	JobSchedule: JobScheduleSchema,
+	StoreHealth: StoreHealthSchema,
+	StoreIdentity: StoreIdentitySchema,
+	ApiKey: ApiKeySchema,
+	IssuedApiKey: IssuedApiKeySchema,
+	ApiKeyDetails: ApiKeyDetailsSchema,
+	CheckoutBody: CheckoutBodySchema,
+	CartBody: CartBodySchema,
+	CartCreateBody: CartCreateBodySchema,
+	CartLinesBody: CartLinesBodySchema,
+	CartCheckoutBody: CartCheckoutBodySchema,
+	StoreTypeBody: StoreTypeBodySchema,
+	EnrichBody: EnrichBodySchema,
+	LlmBody: LlmBodySchema,
+	BulkEnrichBody: BulkEnrichBodySchema,
+	BulkLlmBody: BulkLlmBodySchema,
+	BatchEnrichBody: BatchEnrichBodySchema,
+	BatchLlmBody: BatchLlmBodySchema,
+	MultiStoreBody: MultiStoreBodySchema,
+	MultiProductSearchBody: MultiProductSearchBodySchema,
+	WebhookBody: WebhookBodySchema,
+	JobBody: JobBodySchema,
+	JobScheduleBody: JobScheduleBodySchema,
+	ApiKeyBody: ApiKeyBodySchema,
+};
+
+export type OpenAPISchemaName = keyof typeof openAPISchemas;
+
+export const schemaRef = (name: OpenAPISchemaName) => ({
+	$ref: `#/components/schemas/${name}`,
+});
+
+export const arrayOf = (name: OpenAPISchemaName) => ({
+	type: "array" as const,
+	items: schemaRef(name),
+});
+
+/** `responses[200]` entry for a JSON body described by a component. */
+export const jsonResponse = (
+	schema: ReturnType<typeof schemaRef> | ReturnType<typeof arrayOf>,
+) => ({
+	description: "OK",
+	content: { "application/json": { schema } },
+});
+
+/**
+ * `responses[200]` entries for a stream of newline-delimited JSON values or
+ * of Server-Sent Events whose `data` is JSON.
+ * better-call only types JSON, text and HTML bodies, but copies the entry
+ * into the spec as-is.
+ */
+const streamResponse = (contentType: string) => (name: OpenAPISchemaName) =>
+	({
+		description: "OK",
+		content: { [contentType]: { schema: schemaRef(name) } },
+	}) as unknown as ReturnType<typeof jsonResponse>;
+
+export const ndjsonResponse = streamResponse("application/x-ndjson");
+export const eventStreamResponse = streamResponse("text/event-stream");
+
+/** `requestBody` entry for a JSON body described by a component. */
+export const jsonRequestBody = (name: OpenAPISchemaName) => ({
+	content: { "application/json": { schema: schemaRef(name) } },
+});
+
+type JsonSchema = Record<string, unknown>;
+
+const toJsonSchema = (schema: Type) => {
+	// Dates and other non-JSON types fall back to an unconstrained schema.
+	const { $schema: _, ...json } = schema.toJsonSchema({
+		fallback: (ctx) => ctx.base,
+	}) as JsonSchema;
+	return json;
+};
+
+/** Components that are inlined in others and get replaced by a `$ref`. */
+const nestedSchemas: OpenAPISchemaName[] = [
+	"Product",
+	"ProductFacets",
+	"Collection",
+	"Image",
+	"Variant",
+	"ProductOption",
+	"LocalizedPricing",
+	"StoreInfo",
+	"StoreFailure",
+	"SnapshotSummary",
+];
+
+/**
+ * Replace nested subschemas that are identical to a nested component with a
+ * `$ref`, so e.g. `Product.images` points at `Image` instead of inlining it.
+ */
+const linkRefs = (
+	node: unknown,
+	refs: Map<string, OpenAPISchemaName>,
+	self: OpenAPISchemaName,
+	root = true,
+): unknown => {
+	if (Array.isArray(node)) {
+		return node.map((child) => linkRefs(child, refs, self, false));
+	}
+	if (!node || typeof node !== "object") return node;
+	const name = refs.get(JSON.stringify(node));
+	if (!root && name && name !== self) return schemaRef(name);
+	return Object.fromEntries(
+		Object.entries(node).map(([key, child]) => [
+			key,
+			linkRefs(child, refs, self, false),
+		]),
+	);
+};
+
+let components: Record<OpenAPISchemaName, JsonSchema> | undefined;
+
+/** JSON Schema components generated from the arktype definitions above. */
+export const openAPIComponents = () => {
+	if (components) return components;
+	const names = Object.keys(openAPISchemas) as OpenAPISchemaName[];
+	const raw = names.map(
+		(name) => [name, toJsonSchema(openAPISchemas[name])] as const,
+	);
+	const refs = new Map(
+		raw
+			.filter(([name]) => nestedSchemas.includes(name))
+			.map(([name, json]) => [JSON.stringify(json), name]),
+	);
+	components = Object.fromEntries(
+		raw.map(([name, json]) => [name, linkRefs(json, refs, name) as JsonSchema]),
+	) as Record<OpenAPISchemaName, JsonSchema>;
+	return components;
+};
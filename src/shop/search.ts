@@ -0,0 +1,516 @@
+import type { Product, ShopClient } from "shop-client";
+import { callUpstream } from "./errors";
+
+export type SearchableProduct = Product;
+
+export type ProductSearchSort =
+	| "relevance"
+	| "price_asc"
+	| "price_desc"
+	| "newest";
+
+export type ProductFilters = {
+	minPrice?: number;
+	maxPrice?: number;
+	available?: boolean;
+	vendor?: string[];
+	productType?: string[];
+	tag?: string[];
+	/** Option values keyed like `/products/filters`, e.g. `{ color: ["red"] }`. */
+	options?: Record<string, string[]>;
+};
+
+export type ProductSearchQuery = ProductFilters & {
+	q?: string;
+	sort?: ProductSearchSort;
+	page?: number;
+	limit?: number;
+};
+
+export type ProductSearchResult = {
+	items: SearchableProduct[];
+	total: number;
+	page: number;
+	limit: number;
+};
+
+/**
+ * Facet counts for a filter sidebar. Each group is counted over the products
+ * matching every other selected filter, so selected values keep their
+ * siblings visible. Option keys and values are normalized like
+ * `/products/filters`.
+ */
+export type ProductFacets = {
+	vendor: Record<string, number>;
+	productType: Record<string, number>;
+	tag: Record<string, number>;
+	options: Record<string, Record<string, number>>;
+	available: { true: number; false: number };
+	price: { min: number; max: number } | null;
+};
+
+type IndexedProduct = {
+	product: SearchableProduct;
+	vendor: string;
+	productType: string;
+	tags: Set<string>;
+	options: Map<string, Set<string>>;
+	publishedAt: number;
+};
+
+export type ProductSearchIndex = {
+	products: IndexedProduct[];
+	/** term -> product position -> weight */
+	terms: Map<string, Map<number, number>>;
+	/** The keys of `terms` in code unit order, for prefix lookups. */
+	sortedTerms: string[];
+	builtAt: number;
+};
+
+const DEFAULT_SEARCH_LIMIT = 20;
+/** shop-client's default page size for paginated product lists. */
+export const DEFAULT_PAGE_LIMIT = 250;
+const MAX_SEARCH_LIMIT = 250;
+
+// Matches in the title outrank matches in the description.
+const FIELD_WEIGHTS = {
+	title: 5,
+	vendor: 3,
+	productType: 3,
+	tags: 2,
+	body: 1,
+};
+
+/** Same normalization shop-client applies to `/products/filters` keys and values. */
+export const normalizeSearchKey = (input: string) =>
+	input
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "_")
+		.replace(/^_+|_+$/g, "");
+
+export const tokenize = (text: string | null | undefined) =>
+	(text ?? "")
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+
+const stripHtml = (html: string | null | undefined) =>
+	(html ?? "").replace(/<[^>]*>/g, " ").replace(/&[a-z#0-9]+;/gi, " ");
+
+const toTime = (value: unknown) => {
+	if (!value) return 0;
+	const time = new Date(value as string | Date).getTime();
+	return Number.isNaN(time) ? 0 : time;
+};
+
+export const buildSearchIndex = (
+	products: SearchableProduct[],
+): ProductSearchIndex => {
+	const terms = new Map<string, Map<number, number>>();
+	const addTerms = (position: number, text: string, weight: number) => {
+		for (const term of tokenize(text)) {
+			let postings = terms.get(term);
+			if (!postings) {
+				postings = new Map();
+				terms.set(term, postings);
+			}
+			postings.set(position, (postings.get(position) ?? 0) + weight);
+		}
+	};
+
+	const indexed = products.map((product, position) => {
+		addTerms(position, product.title, FIELD_WEIGHTS.title);
+		addTerms(position, product.vendor ?? "", FIELD_WEIGHTS.vendor);
+		addTerms(position, product.productType ?? "", FIELD_WEIGHTS.productType);
+		addTerms(position, (product.tags ?? []).join(" "), FIELD_WEIGHTS.tags);
+		addTerms(position, stripHtml(product.bodyHtml), FIELD_WEIGHTS.body);
+		const options = new Map<string, Set<string>>();
+		for (const option of product.options ?? []) {
+			const key = option.key || normalizeSearchKey(option.name);
+			const values = option.data?.length ? option.data : option.values;
+			options.set(key, new Set(values.map(normalizeSearchKey)));
+		}
+		return {
+			product,
+			vendor: normalizeSearchKey(product.vendor ?? ""),
+			productType: normalizeSearchKey(product.productType ?? ""),
+			tags: new Set((product.tags ?? []).map(normalizeSearchKey)),
+			options,
+			publishedAt: toTime(product.publishedAt ?? product.createdAt),
+		};
+	});
+
+	return {
+		products: indexed,
+		terms,
+		sortedTerms: [...terms.keys()].sort(),
+		builtAt: Date.now(),
+	};
+};
+
+/** The position of the first term in `sorted` not before `term`. */
+const lowerBound = (sorted: string[], term: string) => {
+	let low = 0;
+	let high = sorted.length;
+	while (low < high) {
+		const middle = (low + high) >>> 1;
+		if ((sorted[middle] as string) < term) low = middle + 1;
+		else high = middle;
+	}
+	return low;
+};
+
+/**
+ * Score products against the free-text query. Every query term must match,
+ * either exactly or as a prefix of an indexed term (prefix hits score half).
+ */
+const scoreQuery = (index: ProductSearchIndex, q: string) => {
+	const queryTerms = [...new Set(tokenize(q))];
+	let scores: Map<number, number> | undefined;
+	for (const queryTerm of queryTerms) {
+		const termScores = new Map<number, number>();
+		const add = (postings: Map<number, number>, factor: number) => {
+			for (const [position, weight] of postings) {
+				termScores.set(
+					position,
+					(termScores.get(position) ?? 0) + weight * factor,
+				);
+			}
+		};
+		const exact = index.terms.get(queryTerm);
+		if (exact) add(exact, 1);
+		// Terms starting with the query term follow it in sorted order.
+		const { sortedTerms } = index;
+		for (
+			let i = lowerBound(sortedTerms, queryTerm) + (exact ? 1 : 0);
+			i < sortedTerms.length && sortedTerms[i]?.startsWith(queryTerm);
+			i++
+		) {
+			const postings = index.terms.get(sortedTerms[i] as string);
+			if (postings) add(postings, 0.5);
+		}
+		if (!scores) {
+			scores = termScores;
+			continue;
+		}
+		const previous: Map<number, number> = scores;
+		scores = new Map(
+			[...termScores]
+				.filter(([position]) => previous.has(position))
+				.map(([position, score]) => [
+					position,
+					score + (previous.get(position) ?? 0),
+				]),
+		);
+	}
+	return scores;
+};
+
+type FilterGroup =
+	| "price"
+	| "available"
+	| "vendor"
+	| "productType"
+	| "tag"
+	| `option:${string}`;
+
+const matchesAny = (
+	values: string[] | undefined,
+	has: (v: string) => boolean,
+) => !values?.length || values.some((value) => has(normalizeSearchKey(value)));
+
+/** Check the filters, ignoring `skip` when counting that group's facet. */
+const matchesFilters = (
+	entry: IndexedProduct,
+	filters: ProductFilters,
+	skip?: FilterGroup,
+) => {
+	const { product } = entry;
+	if (skip !== "price") {
+		if (filters.minPrice !== undefined && product.price < filters.minPrice) {
+			return false;
+		}
+		if (filters.maxPrice !== undefined && product.price > filters.maxPrice) {
+			return false;
+		}
+	}
+	if (
+		skip !== "available" &&
+		filters.available !== undefined &&
+		product.available !== filters.available
+	) {
+		return false;
+	}
+	if (
+		(skip !== "vendor" &&
+			!matchesAny(filters.vendor, (v) => v === entry.vendor)) ||
+		(skip !== "productType" &&
+			!matchesAny(filters.productType, (v) => v === entry.productType)) ||
+		(skip !== "tag" && !matchesAny(filters.tag, (v) => entry.tags.has(v)))
+	) {
+		return false;
+	}
+	for (const [key, values] of Object.entries(filters.options ?? {})) {
+		const normalizedKey = normalizeSearchKey(key);
+		if (skip === `option:${normalizedKey}`) continue;
+		const available = entry.options.get(normalizedKey);
+		if (!available || !matchesAny(values, (v) => available.has(v))) {
+			return false;
+		}
+	}
+	return true;
+};
+
+/** Products matching the free-text query, with their relevance scores. */
+const textMatches = (index: ProductSearchIndex, q?: string) => {
+	const scores = q?.trim() ? scoreQuery(index, q) : undefined;
+	return index.products
+		.map((entry, position) => ({
+			entry,
+			position,
+			score: scores ? (scores.get(position) ?? 0) : 0,
+		}))
+		.filter(({ position }) => !scores || scores.has(position));
+};
+
+export const computeFacets = (
+	index: ProductSearchIndex,
+	query: ProductSearchQuery,
+): ProductFacets => {
+	const facets: ProductFacets = {
+		vendor: {},
+		productType: {},
+		tag: {},
+		options: {},
+		available: { true: 0, false: 0 },
+		price: null,
+	};
+	const count = (group: Record<string, number>, value: string) => {
+		group[value] = (group[value] ?? 0) + 1;
+	};
+	for (const { entry } of textMatches(index, query.q)) {
+		const { product } = entry;
+		if (product.vendor && matchesFilters(entry, query, "vendor")) {
+			count(facets.vendor, product.vendor);
+		}
+		if (product.productType && matchesFilters(entry, query, "productType")) {
+			count(facets.productType, product.productType);
+		}
+		if (matchesFilters(entry, query, "tag")) {
+			for (const tag of new Set(product.tags ?? [])) count(facets.tag, tag);
+		}
+		for (const [key, values] of entry.options) {
+			if (!matchesFilters(entry, query, `option:${key}`)) continue;
+			facets.options[key] ??= {};
+			for (const value of values) count(facets.options[key], value);
+		}
+		if (matchesFilters(entry, query, "available")) {
+			facets.available[product.available ? "true" : "false"]++;
+		}
+		if (matchesFilters(entry, query, "price")) {
+			facets.price = {
+				min: Math.min(facets.price?.min ?? product.price, product.price),
+				max: Math.max(facets.price?.max ?? product.price, product.price),
+			};
+		}
+	}
+	return facets;
+};
+
+/** All products matching the query and filters, in result order. */
+export const filterProducts = (
+	index: ProductSearchIndex,
+	query: ProductSearchQuery,
+) => {
+	const matches = textMatches(index, query.q).filter(({ entry }) =>
+		matchesFilters(entry, query),
+	);
+
+	const sort = query.sort ?? "relevance";
+	matches.sort((a, b) => {
+		switch (sort) {
+			case "price_asc":
+				return a.entry.product.price - b.entry.product.price;
+			case "price_desc":
+				return b.entry.product.price - a.entry.product.price;
+			case "newest":
+				return b.entry.publishedAt - a.entry.publishedAt;
+			default:
+				return b.score - a.score || a.position - b.position;
+		}
+	});
+	return matches.map(({ entry }) => entry.product);
+};
+
+export const searchProducts = (
+	index: ProductSearchIndex,
+	query: ProductSearchQuery,
+): ProductSearchResult => {
+	const matches = filterProducts(index, query);
+	const limit = Math.min(
+		Math.max(1, query.limit ?? DEFAULT_SEARCH_LIMIT),
+		MAX_SEARCH_LIMIT,
+	);
+	const page = Math.max(1, query.page ?? 1);
+	return {
+		items: matches.slice((page - 1) * limit, page * limit),
+		total: matches.length,
+		page,
+		limit,
+	};
+};
+
+export type FacetedProductResult = ProductSearchResult & {
+	facets: ProductFacets;
+};
+
+export const searchWithFacets = (
+	index: ProductSearchIndex,
+	query: ProductSearchQuery,
+): FacetedProductResult => ({
+	...searchProducts(index, query),
+	facets: computeFacets(index, query),
+});
+
+const toList = (value: unknown) =>
+	(Array.isArray(value) ? value : typeof value === "string" ? [value] : [])
+		.flatMap((item: string) => item.split(","))
+		.map((item) => item.trim())
+		.filter(Boolean);
+
+const toNumber = (value: unknown) =>
+	typeof value === "number" ? value : undefined;
+
+/**
+ * Read filter selections from query parameters validated by
+ * `ProductFilterQuerySchema`. List values may repeat or be comma-separated.
+ */
+export const parseProductFilters = (
+	query: Record<string, unknown>,
+): ProductFilters => ({
+	minPrice: toNumber(query.minPrice),
+	maxPrice: toNumber(query.maxPrice),
+	available:
+		query.available === undefined ? undefined : query.available === "true",
+	vendor: toList(query.vendor),
+	productType: toList(query.productType),
+	tag: toList(query.tag),
+	options: Object.fromEntries(
+		Object.entries(query)
+			.filter(([key]) => key.startsWith("option."))
+			.map(([key, value]) => [key.slice("option.".length), toList(value)]),
+	),
+});
+
+export const hasProductFilters = (filters: ProductFilters) =>
+	filters.minPrice !== undefined ||
+	filters.maxPrice !== undefined ||
+	filters.available !== undefined ||
+	Boolean(filters.vendor?.length) ||
+	Boolean(filters.productType?.length) ||
+	Boolean(filters.tag?.length) ||
+	Object.values(filters.options ?? {}).some((values) => values.length > 0);
+
+/** OpenAPI parameters for `ProductFilterQuerySchema`. */
+export const productFilterParameters = [
+	{ name: "minPrice", schema: { type: "number" as const } },
+	{ name: "maxPrice", schema: { type: "number" as const } },
+	{ name: "available", schema: { type: "boolean" as const } },
+	{ name: "vendor", schema: { type: "string" as const } },
+	{ name: "productType", schema: { type: "string" as const } },
+	{ name: "tag", schema: { type: "string" as const } },
+	{
+		name: "facets",
+		description: "Include facet counts in the response",
+		schema: { type: "boolean" as const },
+	},
+].map((parameter) => ({
+	in: "query" as const,
+	required: false,
+	...parameter,
+}));
+
+export type ProductSearchOptions = {
+	/** How long a domain's index is reused before it is rebuilt, in milliseconds. */
+	ttl?: number;
+	/** Maximum number of indexes kept in memory. */
+	maxIndexes?: number;
+};
+
+export type ProductSearch = {
+	index: (
+		key: string,
+		load: () => Promise<SearchableProduct[] | null>,
+	) => Promise<ProductSearchIndex>;
+	evict: (key: string) => void;
+	clear: () => void;
+};
+
+const DEFAULT_INDEX_TTL = 5 * 60_000;
+const DEFAULT_MAX_INDEXES = 50;
+
+/**
+ * Create the per-domain search index cache. Indexes are rebuilt from the
+ * full catalog once they are older than `ttl`, and the least recently used
+ * index is dropped once `maxIndexes` is reached.
+ */
+export const makeProductSearch = (
+	options?: ProductSearchOptions,
+): ProductSearch => {
+	const ttl = options?.ttl ?? DEFAULT_INDEX_TTL;
+	const maxIndexes = options?.maxIndexes ?? DEFAULT_MAX_INDEXES;
+	const indexes = new Map<string, ProductSearchIndex>();
+	const inFlight = new Map<string, Promise<ProductSearchIndex>>();
+
+	const index: ProductSearch["index"] = async (key, load) => {
+		const existing = indexes.get(key);
+		if (existing && Date.now() - existing.builtAt <= ttl) {
+			indexes.delete(key);
+			indexes.set(key, existing);
+			return existing;
+		}
+		const pending = inFlight.get(key);
+		if (pending) return pending;
+		const next = (async () => {
+			const built = buildSearchIndex((await load()) ?? []);
+			indexes.delete(key);
+			indexes.set(key, built);
+			while (indexes.size > maxIndexes) {
+				const oldest = indexes.keys().next().value;
+				if (oldest === undefined) break;
+				indexes.delete(oldest);
+			}
+			return built;
+		})().finally(() => inFlight.delete(key));
+		inFlight.set(key, next);
+		return next;
+	};
+
+	return {
+		index,
+		evict: (key) => {
+			indexes.delete(key);
+		},
+		clear: () => indexes.clear(),
+	};
+};
+
+/** Index a store's full catalog, keyed by domain and currency. */
+export const loadCatalogIndex = (
+	search: ProductSearch,
+	shop: ShopClient,
+	domain: string,
+	currency?: string,
+) =>
+	search.index(`${domain}|${currency ?? "-"}`, () =>
+		callUpstream(() =>
+			shop.products.all({
+				currency,
+				columns: { mode: "full", images: "full", options: "full" },
+			}),
+		),
+	);
@@ -0,0 +1,407 @@
+import { type } from "arktype";
+import { createEndpoint } from "better-call";
+import type { Collection, Product, ShopClient } from "shop-client";
+import {
+	callUpstream,
+	errorResponses,
+	shopError,
+	upstreamErrors,
+} from "./errors";
+import { shopDomainOf } from "./getShop";
+import { arrayOf, jsonResponse, schemaRef } from "./schemas";
+import { createMemoryStore, type KeyValueStore } from "./storage";
+
+export type SnapshotVariant = {
+	id: string;
+	title: string;
+	price: number;
+	available: boolean;
+};
+
+export type SnapshotProduct = {
+	id: string;
+	handle: string;
+	title: string;
+	price: number;
+	available: boolean;
+	variants: SnapshotVariant[];
+};
+
+export type SnapshotCollection = {
+	id: string;
+	handle: string;
+	title: string;
+	productsCount?: number;
+	updatedAt?: string;
+};
+
+export type SnapshotSummary = {
+	domain: string;
+	version: number;
+	takenAt: string;
+	productCount: number;
+	collectionCount: number;
+};
+
+export type CatalogSnapshot = SnapshotSummary & {
+	products: SnapshotProduct[];
+	collections: SnapshotCollection[];
+};
+
+type ProductRef = { id: string; handle: string; title: string };
+
+type VariantRef = {
+	productId: string;
+	handle: string;
+	variantId: string;
+	title: string;
+};
+
+/** What changed in a store's catalog between two snapshots. */
+export type CatalogDiff = {
+	domain: string;
+	from: SnapshotSummary;
+	to: SnapshotSummary;
+	products: { added: ProductRef[]; removed: ProductRef[] };
+	priceChanges: (VariantRef & { from: number; to: number })[];
+	stock: { outOfStock: VariantRef[]; backInStock: VariantRef[] };
+	collections: {
+		added: SnapshotCollection[];
+		removed: SnapshotCollection[];
+		/** Collections whose title, handle, product count or update time changed. */
+		updated: SnapshotCollection[];
+	};
+};
+
+export type SnapshotStoreOptions = {
+	/** Where snapshots are kept, e.g. `createFileStore({ dir })`. */
+	store?: KeyValueStore;
+	/** Snapshots kept per domain; the oldest are deleted first. */
+	maxSnapshots?: number;
+};
+
+export type SnapshotStore = {
+	save: (
+		domain: string,
+		catalog: Pick<CatalogSnapshot, "products" | "collections">,
+	) => Promise<SnapshotSummary>;
+	list: (domain: string) => Promise<SnapshotSummary[]>;
+	get: (
+		domain: string,
+		version: number,
+	) => Promise<CatalogSnapshot | undefined>;
+};
+
+const DEFAULT_MAX_SNAPSHOTS = 20;
+
+const versionsKey = (domain: string) => `snapshot|${domain}|versions`;
+const snapshotKey = (domain: string, version: number) =>
+	`snapshot|${domain}|${version}`;
+
+/**
+ * Create the versioned snapshot store. Each domain keeps a list of snapshot
+ * summaries next to the snapshots themselves, so any `KeyValueStore` works
+ * without listing keys. Saves for one domain are serialized so versions
+ * never collide.
+ */
+export const makeSnapshotStore = (
+	options?: SnapshotStoreOptions,
+): SnapshotStore => {
+	const store = options?.store ?? createMemoryStore();
+	const maxSnapshots = Math.max(
+		2,
+		options?.maxSnapshots ?? DEFAULT_MAX_SNAPSHOTS,
+	);
+	const pending = new Map<string, Promise<unknown>>();
+
+	const list = async (domain: string) =>
+		(await store.get<SnapshotSummary[]>(versionsKey(domain))) ?? [];
+
+	const save: SnapshotStore["save"] = (domain, catalog) => {
+		const run = async () => {
+			const versions = await list(domain);
+			const summary: SnapshotSummary = {
+				domain,
+				version: (versions.at(-1)?.version ?? 0) + 1,
+				takenAt: new Date().toISOString(),
+				productCount: catalog.products.length,
+				collectionCount: catalog.collections.length,
+			};
+			await store.set(snapshotKey(domain, summary.version), {
+				...summary,
+				...catalog,
+			});
+			const kept = [...versions, summary];
+			const dropped = kept.splice(0, Math.max(0, kept.length - maxSnapshots));
+			await store.set(versionsKey(domain), kept);
+			for (const old of dropped) {
+				await store.delete(snapshotKey(domain, old.version));
+			}
+			return summary;
+		};
+		const next = (pending.get(domain) ?? Promise.resolve())
+			.catch(() => {})
+			.then(run);
+		pending.set(domain, next);
+		return next.finally(() => {
+			if (pending.get(domain) === next) pending.delete(domain);
+		});
+	};
+
+	return {
+		save,
+		list,
+		get: (domain, version) =>
+			store.get<CatalogSnapshot>(snapshotKey(domain, version)),
+	};
+};
+
+const toSnapshotProduct = (
+	product: Pick<
+		Product,
+		"platformId" | "handle" | "title" | "price" | "available" | "variants"
+	>,
+): SnapshotProduct => {
+	const id = product.platformId || product.handle;
+	return {
+		id,
+		handle: product.handle,
+		title: product.title,
+		price: product.price,
+		available: product.available,
+		// Products without variant data are tracked as a single variant.
+		variants: (
+			product.variants ?? [
+				{
+					platformId: id,
+					title: product.title,
+					price: product.price,
+					available: product.available,
+				},
+			]
+		).map((variant) => ({
+			id: variant.platformId,
+			title: variant.title,
+			price: variant.price,
+			available: variant.available,
+		})),
+	};
+};
+
+const toSnapshotCollection = (collection: Collection): SnapshotCollection => ({
+	id: collection.id,
+	handle: collection.handle,
+	title: collection.title,
+	productsCount: collection.productsCount,
+	updatedAt: collection.updatedAt,
+});
+
+/** Read the catalog of a store in the shape stored by `makeSnapshotStore`. */
+export const captureCatalog = async (shop: ShopClient) => {
+	const [products, collections] = await Promise.all([
+		callUpstream(() =>
+			shop.products.all({ columns: { mode: "full", options: "full" } }),
+		),
+		callUpstream(() => shop.collections.all()),
+	]);
+	return {
+		products: (products ?? []).map(toSnapshotProduct),
+		collections: (collections ?? []).map(toSnapshotCollection),
+	};
+};
+
+const byId = <T extends { id: string }>(items: T[]) =>
+	new Map(items.map((item) => [item.id, item]));
+
+const summarize = ({
+	products: _,
+	collections: __,
+	...summary
+}: CatalogSnapshot): SnapshotSummary => summary;
+
+export const diffSnapshots = (
+	from: CatalogSnapshot,
+	to: CatalogSnapshot,
+): CatalogDiff => {
+	const before = byId(from.products);
+	const after = byId(to.products);
+	const productRef = ({ id, handle, title }: SnapshotProduct) => ({
+		id,
+		handle,
+		title,
+	});
+
+	const priceChanges: CatalogDiff["priceChanges"] = [];
+	const stock: CatalogDiff["stock"] = { outOfStock: [], backInStock: [] };
+	for (const product of to.products) {
+		const previous = before.get(product.id);
+		if (!previous) continue;
+		const previousVariants = byId(previous.variants);
+		for (const variant of product.variants) {
+			const old = previousVariants.get(variant.id);
+			if (!old) continue;
+			const ref = {
+				productId: product.id,
+				handle: product.handle,
+				variantId: variant.id,
+				title: variant.title,
+			};
+			if (old.price !== variant.price) {
+				priceChanges.push({ ...ref, from: old.price, to: variant.price });
+			}
+			if (old.available && !variant.available) stock.outOfStock.push(ref);
+			if (!old.available && variant.available) stock.backInStock.push(ref);
+		}
+	}
+
+	const beforeCollections = byId(from.collections);
+	const afterCollections = byId(to.collections);
+	return {
+		domain: to.domain,
+		from: summarize(from),
+		to: summarize(to),
+		products: {
+			added: to.products.filter((p) => !before.has(p.id)).map(productRef),
+			removed: from.products.filter((p) => !after.has(p.id)).map(productRef),
+		},
+		priceChanges,
+		stock,
+		collections: {
+			added: to.collections.filter((c) => !beforeCollections.has(c.id)),
+			removed: from.collections.filter((c) => !afterCollections.has(c.id)),
+			updated: to.collections.filter((c) => {
+				const previous = beforeCollections.get(c.id);
+				return (
+					previous !== undefined &&
+					(previous.title !== c.title ||
+						previous.handle !== c.handle ||
+						previous.productsCount !== c.productsCount ||
+						previous.updatedAt !== c.updatedAt)
+				);
+			}),
+		},
+	};
+};
+
+/**
+ * Snapshot a store and diff the new snapshot against the one before it.
+ * `diff` is undefined for the first snapshot of a domain.
+ */
+export const recordSnapshot = async (
+	snapshots: SnapshotStore,
+	shop: ShopClient,
+	domain: string,
+) => {
+	const summary = await snapshots.save(domain, await captureCatalog(shop));
+	const previous = (await snapshots.list(domain))
+		.filter((s) => s.version < summary.version)
+		.at(-1);
+	const [before, after] = await Promise.all([
+		previous ? snapshots.get(domain, previous.version) : undefined,
+		snapshots.get(domain, summary.version),
+	]);
+	return {
+		summary,
+		diff: before && after ? diffSnapshots(before, after) : undefined,
+	};
+};
+
+export const buildSnapshotEndpoints = (
+	getShop: (headers?: Headers) => ShopClient,
+	options?: { snapshots?: SnapshotStore },
+) => {
+	const snapshots = options?.snapshots ?? makeSnapshotStore();
+
+	const createSnapshot = createEndpoint(
+		"/snapshots",
+		{
+			method: "POST",
+			metadata: {
+				openapi: {
+					summary: "Take a catalog snapshot",
+					description:
+						"Stores the current products, variants and collections as a new snapshot version for the store.",
+					responses: {
+						200: jsonResponse(schemaRef("SnapshotSummary")),
+						...errorResponses(...upstreamErrors),
+					},
+				},
+			},
+		},
+		async (ctx) => {
+			const shop = getShop(ctx.headers);
+			return await snapshots.save(
+				shopDomainOf(ctx.headers),
+				await captureCatalog(shop),
+			);
+		},
+	);
+
+	const listSnapshots = createEndpoint(
+		"/snapshots",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "List catalog snapshots",
+					responses: {
+						200: jsonResponse(arrayOf("SnapshotSummary")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
+					},
+				},
+			},
+		},
+		async (ctx) => await snapshots.list(shopDomainOf(ctx.headers)),
+	);
+
+	const diffSnapshotVersions = createEndpoint(
+		"/snapshots/diff",
+		{
+			method: "GET",
+			query: type({
+				"from?": "string|number",
+				"to?": "string|number",
+			}).pipe((v) => ({
+				from: v.from ? Number(v.from) : undefined,
+				to: v.to ? Number(v.to) : undefined,
+			})),
+			metadata: {
+				openapi: {
+					summary: "Diff two catalog snapshots",
+					description:
+						"Compares two snapshot versions. `to` defaults to the latest snapshot and `from` to the one before `to`.",
+					parameters: ["from", "to"].map((name) => ({
+						in: "query" as const,
+						name,
+						required: false,
+						schema: { type: "integer" as const },
+					})),
+					responses: {
+						200: jsonResponse(schemaRef("CatalogDiff")),
+						...errorResponses("SHOP_DOMAIN_MISSING", "SNAPSHOT_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) => {
+			const domain = shopDomainOf(ctx.headers);
+			const versions = (await snapshots.list(domain)).map((s) => s.version);
+			const to = ctx.query.to ?? versions.at(-1);
+			const from =
+				ctx.query.from ?? versions.filter((v) => to && v < to).at(-1);
+			const [before, after] = await Promise.all(
+				[from, to].map((version) =>
+					version === undefined ? undefined : snapshots.get(domain, version),
+				),
+			);
+			if (!before || !after) {
+				throw shopError("SNAPSHOT_NOT_FOUND", {
+					details: { from: from ?? null, to: to ?? null },
+				});
+			}
+			return diffSnapshots(before, after);
+		},
+	);
+
+	return { createSnapshot, listSnapshots, diffSnapshotVersions };
+};
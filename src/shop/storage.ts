@@ -0,0 +1,118 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Minimal async key-value store used by the cache layer.
+ * `ttl` is in milliseconds; `ttl(key)` returns the remaining lifetime or
+ * `undefined` when the key is missing or never expires.
+ */
+export type KeyValueStore = {
+	get: <T = unknown>(key: string) => Promise<T | undefined>;
+	set: <T = unknown>(key: string, value: T, ttl?: number) => Promise<void>;
+	delete: (key: string) => Promise<void>;
+	ttl: (key: string) => Promise<number | undefined>;
+};
+
+type StoredValue = {
+	value: unknown;
+	expiresAt?: number;
+};
+
+const isExpired = (entry: StoredValue, now: number) =>
+	entry.expiresAt !== undefined && entry.expiresAt <= now;
+
+const expiryFor = (ttl?: number) =>
+	ttl !== undefined && ttl > 0 ? Date.now() + ttl : undefined;
+
+export const createMemoryStore = (options?: {
+	maxEntries?: number;
+}): KeyValueStore => {
+	const maxEntries = Math.max(1, options?.maxEntries ?? 1000);
+	const entries = new Map<string, StoredValue>();
+
+	const read = (key: string) => {
+		const entry = entries.get(key);
+		if (!entry) return undefined;
+		if (isExpired(entry, Date.now())) {
+			entries.delete(key);
+			return undefined;
+		}
+		return entry;
+	};
+
+	return {
+		get: async <T>(key: string) => {
+			const entry = read(key);
+			if (!entry) return undefined;
+			entries.delete(key);
+			entries.set(key, entry);
+			return entry.value as T;
+		},
+		set: async (key, value, ttl) => {
+			entries.delete(key);
+			entries.set(key, { value, expiresAt: expiryFor(ttl) });
+			while (entries.size > maxEntries) {
+				const oldest = entries.keys().next().value;
+				if (oldest === undefined) break;
+				entries.delete(oldest);
+			}
+		},
+		delete: async (key) => {
+			entries.delete(key);
+		},
+		ttl: async (key) => {
+			const entry = read(key);
+			if (!entry?.expiresAt) return undefined;
+			return entry.expiresAt - Date.now();
+		},
+	};
+};
+
+/**
+ * File-system backed store. Each key is written as a JSON file named after
+ * the SHA-1 of the key, so any string is a valid key.
+ */
+export const createFileStore = (options: { dir: string }): KeyValueStore => {
+	const pathFor = (key: string) =>
+		join(options.dir, `${createHash("sha1").update(key).digest("hex")}.json`);
+
+	const read = async (key: string) => {
+		let raw: string;
+		try {
+			raw = await readFile(pathFor(key), "utf8");
+		} catch {
+			return undefined;
+		}
+		let entry: StoredValue & { key?: string };
+		try {
+			entry = JSON.parse(raw);
+		} catch {
+			return undefined;
+		}
+		if (entry.key !== key || isExpired(entry, Date.now())) {
+			if (entry.key === key) await rm(pathFor(key), { force: true });
+			return undefined;
+		}
+		return entry;
+	};
+
+	return {
+		get: async <T>(key: string) => (await read(key))?.value as T | undefined,
+		set: async (key, value, ttl) => {
+			await mkdir(options.dir, { recursive: true });
+			await writeFile(
+				pathFor(key),
+				JSON.stringify({ key, value, expiresAt: expiryFor(ttl) }),
+			);
+		},
+		delete: async (key) => {
+			await rm(pathFor(key), { force: true });
+		},
+		ttl: async (key) => {
+			const entry = await read(key);
+			if (!entry?.expiresAt) return undefined;
+			return entry.expiresAt - Date.now();
+		},
+	};
+};
@@ -1,10 +1,29 @@
 import { type } from "arktype";
 import { createEndpoint } from "better-call";
 import type { ShopClient } from "shop-client";
+import { makeResponseCache, type ResponseCache } from "./cache";
+import {
+	callUpstream,
+	errorResponses,
+	llmErrors,
+	upstreamErrors,
+} from "./errors";
+import { shopDomainOf } from "./getShop";
+import { type LlmPolicy, makeLlmPolicy } from "./llm";
+import {
+	jsonRequestBody,
+	jsonResponse,
+	StoreTypeBodySchema,
+	schemaRef,
+} from "./schemas";
 
 export const buildStoreEndpoints = (
 	getShop: (headers?: Headers) => ShopClient,
+	options?: { cache?: ResponseCache; llm?: LlmPolicy },
 ) => {
+	const cached = options?.cache ?? makeResponseCache();
+	const llm = options?.llm ?? makeLlmPolicy();
+
 	const getInfo = createEndpoint(
 		"/info",
 		{
@@ -24,17 +43,20 @@ export const buildStoreEndpoints = (
 						},
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: { "application/json": { schema: { type: "object" } } },
-						},
+						200: jsonResponse(schemaRef("StoreInfo")),
+						...errorResponses(...upstreamErrors),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.getInfo({ force: ctx.query?.force });
+			// `force` bypasses the cached response but must not split the cache key.
+			return await cached(
+				{ ...ctx, query: undefined },
+				() => callUpstream(() => shop.getInfo({ force: ctx.query?.force })),
+				{ bypass: ctx.query?.force },
+			);
 		},
 	);
 
@@ -46,17 +68,8 @@ export const buildStoreEndpoints = (
 				openapi: {
 					summary: "Clear store info cache",
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: {
-										type: "object",
-										properties: { success: { type: "boolean" } },
-									},
-								},
-							},
-						},
+						200: jsonResponse(schemaRef("Success")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
 					},
 				},
 			},
@@ -64,6 +77,7 @@ export const buildStoreEndpoints = (
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
 			shop.clearInfoCache();
+			await cached.purge({ ...ctx, path: "/info", query: undefined });
 			return { success: true };
 		},
 	);
@@ -72,30 +86,27 @@ export const buildStoreEndpoints = (
 		"/store-type",
 		{
 			method: "POST",
-			body: type({
-				"apiKey?": "string",
-				"model?": "string",
-				"maxShowcaseProducts?": "number",
-				"maxShowcaseCollections?": "number",
-			}),
+			body: StoreTypeBodySchema,
 			metadata: {
 				openapi: {
 					summary: "Determine store type",
-					requestBody: {
-						content: { "application/json": { schema: { type: "object" } } },
-					},
+					requestBody: jsonRequestBody("StoreTypeBody"),
 					responses: {
-						200: {
-							description: "OK",
-							content: { "application/json": { schema: { type: "object" } } },
-						},
+						200: jsonResponse(schemaRef("StoreType")),
+						...errorResponses(...upstreamErrors, ...llmErrors),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shop = getShop(ctx.headers);
-			return await shop.determineStoreType(ctx.body);
+			const domain = shopDomainOf(ctx.headers);
+			const credentials = llm.resolve(domain, ctx.body);
+			return await callUpstream(() =>
+				llm
+					.operations(shop, domain)
+					.determineStoreType({ ...ctx.body, ...credentials }),
+			);
 		},
 	);
 
@@ -0,0 +1,72 @@
+import { describeError } from "./errors";
+import type { LlmStreamEventSchema } from "./schemas";
+
+export type LlmStreamEvent = typeof LlmStreamEventSchema.infer;
+
+/**
+ * Respond with Server-Sent Events written by `run`. Each event is named after
+ * its `type` and carries the whole event as JSON `data`. An error thrown by
+ * `run` becomes the final `error` event. `signal` aborts when the client
+ * disconnects, so `run` can stop the work nobody is waiting for.
+ */
+export const eventStream = (
+	run: (
+		send: (event: LlmStreamEvent) => void,
+		signal: AbortSignal,
+	) => Promise<void>,
+) => {
+	const encoder = new TextEncoder();
+	const disconnect = new AbortController();
+	let disconnected = false;
+	const body = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const send = (event: LlmStreamEvent) => {
+				if (disconnected) return;
+				controller.enqueue(
+					encoder.encode(
+						`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+					),
+				);
+			};
+			try {
+				await run(send, disconnect.signal);
+			} catch (error) {
+				send({ type: "error", error: describeError(error) });
+			}
+			if (!disconnected) controller.close();
+		},
+		cancel() {
+			disconnected = true;
+			disconnect.abort();
+		},
+	});
+	return new Response(body, {
+		headers: {
+			"content-type": "text/event-stream",
+			"cache-control": "no-cache",
+		},
+	});
+};
+
+/** The `data` of each Server-Sent Event in `body`. */
+export async function* readEventData(
+	body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let data: string[] = [];
+	for await (const bytes of body) {
+		buffer += decoder.decode(bytes, { stream: true });
+		const lines = buffer.split(/\r?\n/);
+		buffer = lines.pop() ?? "";
+		for (const line of lines) {
+			if (line === "") {
+				if (data.length) yield data.join("\n");
+				data = [];
+			} else if (line.startsWith("data:")) {
+				data.push(line.slice(5).replace(/^ /, ""));
+			}
+		}
+	}
+	if (data.length) yield data.join("\n");
+}
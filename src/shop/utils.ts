@@ -7,10 +7,30 @@ import {
 	genProductSlug,
 	sanitizeDomain,
 } from "shop-client";
+import { type DomainPolicy, makeDomainPolicy } from "./domains";
+import {
+	callUpstream,
+	errorResponses,
+	shopError,
+	upstreamErrors,
+} from "./errors";
+import { makeStoreIdentities, type StoreIdentities } from "./identity";
+import { makeUpstreamGuard, type UpstreamGuard } from "./resilience";
+import { jsonResponse, schemaRef } from "./schemas";
 
 export const buildUtilsEndpoints = (
 	getShop: (headers?: Headers) => ShopClient,
+	options?: {
+		upstream?: UpstreamGuard;
+		domainPolicy?: DomainPolicy;
+		identities?: StoreIdentities;
+	},
 ) => {
+	const upstream = options?.upstream ?? makeUpstreamGuard();
+	const domainPolicy = options?.domainPolicy ?? makeDomainPolicy();
+	const identities =
+		options?.identities ?? makeStoreIdentities({ upstream, domainPolicy });
+
 	const detectCountry = createEndpoint(
 		"/utils/detect-country",
 		{
@@ -19,26 +39,30 @@ export const buildUtilsEndpoints = (
 				openapi: {
 					summary: "Detect store country from homepage HTML",
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: {
-										type: "object",
-									},
-								},
-							},
-						},
+						200: jsonResponse(schemaRef("CountryDetection")),
+						...errorResponses(...upstreamErrors),
 					},
 				},
 			},
 		},
 		async (ctx) => {
 			const shopDomain = ctx.headers?.get("x-shop-domain");
-			if (!shopDomain) throw new Error("x-shop-domain header is required");
-			const domain = sanitizeDomain(shopDomain, { stripWWW: true });
-			const res = await fetch(`https://${domain}`, { redirect: "follow" });
-			const html = await res.text();
+			if (!shopDomain) throw shopError("SHOP_DOMAIN_MISSING");
+			const domain = domainPolicy.check(shopDomain);
+			const html = await callUpstream(() =>
+				upstream.call(domain, async (signal) => {
+					await domainPolicy.verify(domain);
+					const res = await domainPolicy.fetch(`https://${domain}`, {
+						signal,
+					});
+					if (!res.ok) {
+						throw Object.assign(new Error(`HTTP ${res.status}`), {
+							status: res.status,
+						});
+					}
+					return await res.text();
+				}),
+			);
 			return await detectShopCountry(html);
 		},
 	);
@@ -60,17 +84,8 @@ export const buildUtilsEndpoints = (
 						},
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: {
-										type: "object",
-										properties: { slug: { type: "string" } },
-									},
-								},
-							},
-						},
+						200: jsonResponse(schemaRef("Slug")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
 					},
 				},
 			},
@@ -106,17 +121,8 @@ export const buildUtilsEndpoints = (
 						},
 					],
 					responses: {
-						200: {
-							description: "OK",
-							content: {
-								"application/json": {
-									schema: {
-										type: "object",
-										properties: { slug: { type: "string" } },
-									},
-								},
-							},
-						},
+						200: jsonResponse(schemaRef("Slug")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
 					},
 				},
 			},
@@ -131,9 +137,42 @@ export const buildUtilsEndpoints = (
 		},
 	);
 
+	const resolveDomain = createEndpoint(
+		"/utils/resolve-domain",
+		{
+			method: "GET",
+			query: type({ "domain?": "string" }),
+			metadata: {
+				openapi: {
+					summary: "Resolve a domain to its store identity",
+					description:
+						"Follows the domain's redirects and reads its storefront to return the store's myshopify domain, primary custom domain and every alias seen so far. Results are cached.",
+					parameters: [
+						{
+							in: "query",
+							name: "domain",
+							required: false,
+							schema: { type: "string" },
+						},
+					],
+					responses: {
+						200: jsonResponse(schemaRef("StoreIdentity")),
+						...errorResponses(...upstreamErrors),
+					},
+				},
+			},
+		},
+		async (ctx) => {
+			const domain = ctx.query?.domain ?? ctx.headers?.get("x-shop-domain");
+			if (!domain) throw shopError("SHOP_DOMAIN_MISSING");
+			return await identities.resolve(domain);
+		},
+	);
+
 	return {
 		detectCountry,
 		getStoreSlug,
 		getProductSlug,
+		resolveDomain,
 	};
 };
@@ -0,0 +1,527 @@
+import { createHmac, randomUUID } from "node:crypto";
+import { createEndpoint } from "better-call";
+import type { ShopClient } from "shop-client";
+import { type DomainPolicyOptions, makeDomainPolicy } from "./domains";
+import {
+	errorResponses,
+	isShopError,
+	shopError,
+	upstreamErrors,
+} from "./errors";
+import { shopDomainOf } from "./getShop";
+import {
+	arrayOf,
+	jsonRequestBody,
+	jsonResponse,
+	schemaRef,
+	WebhookBodySchema,
+} from "./schemas";
+import {
+	type CatalogDiff,
+	makeSnapshotStore,
+	recordSnapshot,
+	type SnapshotStore,
+} from "./snapshots";
+import { createMemoryStore, type KeyValueStore } from "./storage";
+
+export type WebhookEventType =
+	(typeof WebhookBodySchema.infer)["events"][number];
+
+export type WebhookEvent = {
+	id: string;
+	type: WebhookEventType;
+	domain: string;
+	createdAt: string;
+	data: Record<string, unknown>;
+};
+
+export type WebhookSubscription = {
+	id: string;
+	domain: string;
+	url: string;
+	events: WebhookEventType[];
+	createdAt: string;
+};
+
+export type WebhookDelivery = {
+	id: string;
+	subscriptionId: string;
+	eventId: string;
+	eventType: WebhookEventType;
+	attempt: number;
+	status: "succeeded" | "failed";
+	responseStatus?: number;
+	error?: string;
+	attemptedAt: string;
+	/** When the next attempt runs, if the delivery is retried. */
+	nextAttemptAt?: string;
+};
+
+export type WebhookOptions = {
+	/** Where subscriptions and delivery logs are kept. */
+	store?: KeyValueStore;
+	/** Attempts per delivery, including the first. */
+	maxAttempts?: number;
+	/** Delay before the first retry in milliseconds; doubled on every retry. */
+	retryDelay?: number;
+	/** Delivery attempts kept per subscription. */
+	maxLoggedDeliveries?: number;
+	/** Timeout of a single delivery request in milliseconds. */
+	timeout?: number;
+	/** Resolve target hostnames for the public-address check. Defaults to `dns.lookup`. */
+	lookup?: DomainPolicyOptions["lookup"];
+	fetch?: typeof fetch;
+};
+
+export type Webhooks = {
+	subscribe: (
+		domain: string,
+		input: { url: string; secret: string; events: WebhookEventType[] },
+	) => Promise<WebhookSubscription>;
+	unsubscribe: (domain: string, id: string) => Promise<boolean>;
+	list: (domain: string) => Promise<WebhookSubscription[]>;
+	deliveries: (domain: string, id: string) => Promise<WebhookDelivery[]>;
+	/** Queue `events` for every matching subscription of `domain`. */
+	dispatch: (domain: string, events: WebhookEvent[]) => Promise<number>;
+};
+
+type StoredSubscription = WebhookSubscription & { secret: string };
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY = 30_000;
+const DEFAULT_MAX_LOGGED_DELIVERIES = 100;
+const DEFAULT_DELIVERY_TIMEOUT = 10_000;
+
+const subscriptionKey = (id: string) => `webhook|subscription|${id}`;
+const domainKey = (domain: string) => `webhook|domain|${domain}`;
+const deliveriesKey = (id: string) => `webhook|deliveries|${id}`;
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, so receivers can
+ * verify the payload and reject replays.
+ */
+export const signWebhookPayload = (
+	secret: string,
+	body: string,
+	timestamp = Math.floor(Date.now() / 1000),
+) =>
+	`t=${timestamp},v1=${createHmac("sha256", secret)
+		.update(`${timestamp}.${body}`)
+		.digest("hex")}`;
+
+const forbiddenReason = (error: unknown) =>
+	isShopError(error, "SHOP_DOMAIN_FORBIDDEN")
+		? (error as { body?: { details?: { reason?: string } } }).body?.details
+				?.reason
+		: undefined;
+
+const messageOf = (cause: unknown) =>
+	cause instanceof Error ? cause.message : String(cause);
+
+const publicSubscription = ({
+	secret: _,
+	...subscription
+}: StoredSubscription): WebhookSubscription => subscription;
+
+/**
+ * Create the webhook subscription store and delivery queue. Target URLs must
+ * be https on hosts with public addresses, and deliveries are never
+ * redirected, so the signed payload only goes to the subscribed URL. Failed
+ * deliveries are retried with exponential backoff from `retryDelay`, and
+ * every attempt is appended to the subscription's delivery log.
+ */
+export const makeWebhooks = (options?: WebhookOptions): Webhooks => {
+	const store = options?.store ?? createMemoryStore();
+	const maxAttempts = Math.max(1, options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+	const retryDelay = options?.retryDelay ?? DEFAULT_RETRY_DELAY;
+	const maxLogged =
+		options?.maxLoggedDeliveries ?? DEFAULT_MAX_LOGGED_DELIVERIES;
+	const timeout = options?.timeout ?? DEFAULT_DELIVERY_TIMEOUT;
+	const targets = makeDomainPolicy({
+		lookup: options?.lookup,
+		fetch: options?.fetch,
+		verifyStore: false,
+	});
+	// Log writes for one subscription are chained so appends are not lost.
+	const logs = new Map<string, Promise<void>>();
+	// Subscription index updates for one domain are serialized.
+	const pending = new Map<string, Promise<unknown>>();
+
+	const serial = <T>(key: string, fn: () => Promise<T>) => {
+		const next = (pending.get(key) ?? Promise.resolve())
+			.catch(() => {})
+			.then(fn);
+		pending.set(key, next);
+		return next.finally(() => {
+			if (pending.get(key) === next) pending.delete(key);
+		});
+	};
+
+	const load = (id: string) =>
+		store.get<StoredSubscription>(subscriptionKey(id));
+
+	const owned = async (domain: string, id: string) => {
+		const subscription = await load(id);
+		if (!subscription || subscription.domain !== domain) {
+			throw shopError("WEBHOOK_NOT_FOUND", { details: { id } });
+		}
+		return subscription;
+	};
+
+	const log = (delivery: WebhookDelivery) => {
+		const key = deliveriesKey(delivery.subscriptionId);
+		const next = (logs.get(key) ?? Promise.resolve()).then(async () => {
+			const entries = (await store.get<WebhookDelivery[]>(key)) ?? [];
+			await store.set(key, [...entries, delivery].slice(-maxLogged));
+		});
+		logs.set(
+			key,
+			next.catch(() => {}),
+		);
+		return next;
+	};
+
+	const attempt = async (
+		subscription: StoredSubscription,
+		event: WebhookEvent,
+		deliveryId: string,
+		number: number,
+	) => {
+		const body = JSON.stringify(event);
+		let responseStatus: number | undefined;
+		let error: string | undefined;
+		try {
+			const res = await targets.fetch(subscription.url, {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					"x-webhook-id": deliveryId,
+					"x-webhook-event": event.type,
+					"x-webhook-signature": signWebhookPayload(subscription.secret, body),
+				},
+				body,
+				redirect: "error",
+				signal: AbortSignal.timeout(timeout),
+			});
+			responseStatus = res.status;
+			await res.body?.cancel();
+			if (!res.ok) error = `Target responded with ${res.status}`;
+		} catch (cause) {
+			const reason = forbiddenReason(cause);
+			error = reason ? `Target is not allowed (${reason})` : messageOf(cause);
+		}
+		const retry = error !== undefined && number < maxAttempts;
+		const delay = retryDelay * 2 ** (number - 1);
+		await log({
+			id: deliveryId,
+			subscriptionId: subscription.id,
+			eventId: event.id,
+			eventType: event.type,
+			attempt: number,
+			status: error === undefined ? "succeeded" : "failed",
+			...(responseStatus !== undefined ? { responseStatus } : {}),
+			...(error !== undefined ? { error } : {}),
+			attemptedAt: new Date().toISOString(),
+			...(retry
+				? { nextAttemptAt: new Date(Date.now() + delay).toISOString() }
+				: {}),
+		});
+		if (retry) {
+			setTimeout(() => {
+				// Stop retrying once the subscription is deleted.
+				load(subscription.id).then(
+					(current) => {
+						if (current) deliver(current, event, deliveryId, number + 1);
+					},
+					(cause: unknown) =>
+						failed(subscription, event, deliveryId, number + 1, cause),
+				);
+			}, delay).unref?.();
+		}
+	};
+
+	/** Log an attempt that could not run, e.g. because the store failed. */
+	const failed = (
+		subscription: StoredSubscription,
+		event: WebhookEvent,
+		deliveryId: string,
+		number: number,
+		cause: unknown,
+	) =>
+		log({
+			id: deliveryId,
+			subscriptionId: subscription.id,
+			eventId: event.id,
+			eventType: event.type,
+			attempt: number,
+			status: "failed",
+			error: messageOf(cause),
+			attemptedAt: new Date().toISOString(),
+		}).catch(() => {});
+
+	/** Start an attempt in the background. */
+	const deliver = (
+		subscription: StoredSubscription,
+		event: WebhookEvent,
+		deliveryId: string,
+		number: number,
+	) => {
+		attempt(subscription, event, deliveryId, number).catch((cause: unknown) =>
+			failed(subscription, event, deliveryId, number, cause),
+		);
+	};
+
+	const list = async (domain: string) => {
+		const ids = (await store.get<string[]>(domainKey(domain))) ?? [];
+		const subscriptions = await Promise.all(ids.map(load));
+		return subscriptions.filter(
+			(subscription): subscription is StoredSubscription =>
+				subscription !== undefined,
+		);
+	};
+
+	return {
+		subscribe: async (domain, input) => {
+			try {
+				await targets.checkUrl(input.url);
+			} catch (cause) {
+				throw shopError("WEBHOOK_URL_FORBIDDEN", {
+					details: { url: input.url, reason: forbiddenReason(cause) ?? "dns" },
+					cause,
+				});
+			}
+			const subscription: StoredSubscription = {
+				id: randomUUID(),
+				domain,
+				url: input.url,
+				secret: input.secret,
+				events: [...new Set(input.events)],
+				createdAt: new Date().toISOString(),
+			};
+			await store.set(subscriptionKey(subscription.id), subscription);
+			await serial(domainKey(domain), async () => {
+				const ids = (await store.get<string[]>(domainKey(domain))) ?? [];
+				await store.set(domainKey(domain), [...ids, subscription.id]);
+			});
+			return publicSubscription(subscription);
+		},
+		unsubscribe: async (domain, id) => {
+			await owned(domain, id);
+			await serial(domainKey(domain), async () => {
+				const ids = (await store.get<string[]>(domainKey(domain))) ?? [];
+				await store.set(
+					domainKey(domain),
+					ids.filter((other) => other !== id),
+				);
+			});
+			await store.delete(subscriptionKey(id));
+			await store.delete(deliveriesKey(id));
+			return true;
+		},
+		list: async (domain) => (await list(domain)).map(publicSubscription),
+		deliveries: async (domain, id) => {
+			await owned(domain, id);
+			return (await store.get<WebhookDelivery[]>(deliveriesKey(id))) ?? [];
+		},
+		dispatch: async (domain, events) => {
+			let queued = 0;
+			for (const subscription of await list(domain)) {
+				for (const event of events) {
+					if (!subscription.events.includes(event.type)) continue;
+					queued++;
+					deliver(subscription, event, randomUUID(), 1);
+				}
+			}
+			return queued;
+		},
+	};
+};
+
+/** Turn a snapshot diff into webhook events. */
+export const catalogEvents = (diff: CatalogDiff): WebhookEvent[] => {
+	const createdAt = new Date().toISOString();
+	const event = (
+		type: WebhookEventType,
+		data: Record<string, unknown>,
+	): WebhookEvent => ({
+		id: randomUUID(),
+		type,
+		domain: diff.domain,
+		createdAt,
+		data,
+	});
+	return [
+		...diff.products.added.map((product) =>
+			event("product.created", { product }),
+		),
+		...diff.products.removed.map((product) =>
+			event("product.removed", { product }),
+		),
+		...diff.priceChanges.map((change) =>
+			event("product.price_changed", change),
+		),
+		...diff.stock.outOfStock.map((variant) =>
+			event("variant.out_of_stock", variant),
+		),
+		...diff.stock.backInStock.map((variant) =>
+			event("variant.back_in_stock", variant),
+		),
+		...diff.collections.added.map((collection) =>
+			event("collection.created", { collection }),
+		),
+		...diff.collections.updated.map((collection) =>
+			event("collection.updated", { collection }),
+		),
+		...diff.collections.removed.map((collection) =>
+			event("collection.removed", { collection }),
+		),
+	];
+};
+
+/**
+ * Snapshot a store, diff it against the previous snapshot and dispatch the
+ * resulting events. The first poll of a domain only records a baseline.
+ */
+export const pollCatalog = async (
+	webhooks: Webhooks,
+	snapshots: SnapshotStore,
+	shop: ShopClient,
+	domain: string,
+) => {
+	const { summary, diff } = await recordSnapshot(snapshots, shop, domain);
+	const events = diff ? catalogEvents(diff) : [];
+	return {
+		snapshot: summary,
+		events: events.length,
+		deliveries: await webhooks.dispatch(domain, events),
+	};
+};
+
+export const buildWebhookEndpoints = (
+	getShop: (headers?: Headers) => ShopClient,
+	options?: { webhooks?: Webhooks; snapshots?: SnapshotStore },
+) => {
+	const webhooks = options?.webhooks ?? makeWebhooks();
+	const snapshots = options?.snapshots ?? makeSnapshotStore();
+
+	const idParameter = {
+		in: "path" as const,
+		name: "id",
+		required: true,
+		schema: { type: "string" as const },
+	};
+
+	const createWebhook = createEndpoint(
+		"/webhooks",
+		{
+			method: "POST",
+			body: WebhookBodySchema,
+			metadata: {
+				openapi: {
+					summary: "Subscribe to catalog events",
+					description:
+						'`url` must be https on a host with public addresses. Deliveries are POSTed to it with an `x-webhook-signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` header signed with `secret`.',
+					requestBody: jsonRequestBody("WebhookBody"),
+					responses: {
+						200: jsonResponse(schemaRef("WebhookSubscription")),
+						...errorResponses("SHOP_DOMAIN_MISSING", "WEBHOOK_URL_FORBIDDEN"),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			await webhooks.subscribe(shopDomainOf(ctx.headers), ctx.body),
+	);
+
+	const listWebhooks = createEndpoint(
+		"/webhooks",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "List webhook subscriptions",
+					responses: {
+						200: jsonResponse(arrayOf("WebhookSubscription")),
+						...errorResponses("SHOP_DOMAIN_MISSING"),
+					},
+				},
+			},
+		},
+		async (ctx) => await webhooks.list(shopDomainOf(ctx.headers)),
+	);
+
+	const deleteWebhook = createEndpoint(
+		"/webhooks/:id",
+		{
+			method: "DELETE",
+			metadata: {
+				openapi: {
+					summary: "Delete a webhook subscription",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(schemaRef("Success")),
+						...errorResponses("SHOP_DOMAIN_MISSING", "WEBHOOK_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) => ({
+			success: await webhooks.unsubscribe(
+				shopDomainOf(ctx.headers),
+				ctx.params.id,
+			),
+		}),
+	);
+
+	const getWebhookDeliveries = createEndpoint(
+		"/webhooks/:id/deliveries",
+		{
+			method: "GET",
+			metadata: {
+				openapi: {
+					summary: "List webhook delivery attempts",
+					parameters: [idParameter],
+					responses: {
+						200: jsonResponse(arrayOf("WebhookDelivery")),
+						...errorResponses("SHOP_DOMAIN_MISSING", "WEBHOOK_NOT_FOUND"),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			await webhooks.deliveries(shopDomainOf(ctx.headers), ctx.params.id),
+	);
+
+	const pollWebhooks = createEndpoint(
+		"/webhooks/poll",
+		{
+			method: "POST",
+			metadata: {
+				openapi: {
+					summary: "Poll the catalog and dispatch webhook events",
+					description:
+						"Takes a catalog snapshot, diffs it against the previous one and queues a delivery per matching subscription and event.",
+					responses: {
+						200: jsonResponse(schemaRef("WebhookPollResult")),
+						...errorResponses(...upstreamErrors),
+					},
+				},
+			},
+		},
+		async (ctx) =>
+			await pollCatalog(
+				webhooks,
+				snapshots,
+				getShop(ctx.headers),
+				shopDomainOf(ctx.headers),
+			),
+	);
+
+	return {
+		createWebhook,
+		listWebhooks,
+		deleteWebhook,
+		getWebhookDeliveries,
+		pollWebhooks,
+	};
+};
@@ -44,8 +44,8 @@ async function main() {
 	if (collections.error) {
 		console.error("Error fetching collections:", collections.error);
 	} else {
-		console.log(`Found ${collections.data?.length} collections`);
-		collections.data?.forEach((c: any) => {
+		console.log(`Found ${collections.data?.items.length} collections`);
+		collections.data?.items.forEach((c: any) => {
 			console.log(
 				`- ${c.title} (Handle: ${c.handle}, Products: ${c.productsCount})`,
 			);
@@ -53,9 +53,9 @@ async function main() {
 	}
 
 	// 4. Products in a Collection
-	if (collections.data && collections.data.length > 0) {
+	if (collections.data && collections.data.items.length > 0) {
 		// Try the second collection if available, or the first
-		const collection = collections.data[1] || collections.data[0];
+		const collection = collections.data.items[1] || collections.data.items[0];
 		if (!collection) return;
 		const handle = collection.handle;
 
@@ -73,8 +73,10 @@ async function main() {
 			console.error("Error fetching collection products:", colProducts.error);
 		} else {
 			if (colProducts.data) {
-				console.log(`Found ${colProducts.data.length} products in collection`);
-				colProducts.data.forEach((p: any) => {
+				console.log(
+					`Found ${colProducts.data.items.length} products in collection`,
+				);
+				colProducts.data.items.forEach((p: any) => {
 					console.log(`- ${p.title} (${p.price})`);
 				});
 			} else {